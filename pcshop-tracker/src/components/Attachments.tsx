@@ -0,0 +1,144 @@
+// src/components/Attachments.tsx
+import { useEffect, useRef, useState } from 'react'
+import {
+  ATTACHMENT_ACCEPT, checkFile, isImage, removeAttachment, signedUrl, uploadAttachment,
+  type Attachment, type AttachmentParent,
+} from '../lib/attachments'
+import { styles as s, cx } from '../ui'
+
+// Small previews for cards/tables; click opens the file in a new tab.
+export function AttachmentThumbs({ items, size = 'sm' }: { items?: Attachment[]; size?: 'sm' | 'md' }) {
+  if (!items?.length) return null
+  return (
+    <div className="inline-flex flex-wrap items-center gap-1">
+      {items.map(a => <Thumb key={a.id} a={a} size={size} />)}
+    </div>
+  )
+}
+
+function Thumb({ a, size }: { a: Attachment; size: 'sm' | 'md' }) {
+  const [url, setUrl] = useState<string | null>(null)
+  useEffect(() => {
+    let live = true
+    signedUrl(a.path).then(u => { if (live) setUrl(u) })
+    return () => { live = false }
+  }, [a.path])
+
+  const box = size === 'sm' ? 'h-8 w-8' : 'h-14 w-14'
+  return (
+    <a
+      href={url ?? undefined}
+      target="_blank"
+      rel="noreferrer"
+      title={a.file_name}
+      className={cx(box, 'grid shrink-0 place-items-center overflow-hidden rounded-md border border-slate-200 bg-slate-50 text-[10px] font-semibold text-slate-500')}
+    >
+      {isImage(a) && url ? <img src={url} alt={a.file_name} className="h-full w-full object-cover" loading="lazy" /> : 'PDF'}
+    </a>
+  )
+}
+
+// "Attach file" + "Take photo" (opens the camera on phones).
+function PickButtons({ onPick, disabled }: { onPick: (files: File[]) => void; disabled?: boolean }) {
+  const fileRef = useRef<HTMLInputElement>(null)
+  const camRef = useRef<HTMLInputElement>(null)
+  const take = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = '' // allow picking the same file again
+    if (files.length) onPick(files)
+  }
+  return (
+    <div className="flex flex-wrap gap-2">
+      <input ref={fileRef} type="file" accept={ATTACHMENT_ACCEPT} multiple hidden onChange={take} />
+      <input ref={camRef} type="file" accept="image/*" capture="environment" hidden onChange={take} />
+      <button type="button" onClick={() => fileRef.current?.click()} disabled={disabled} className={cx(s.btn, s.secondary, 'px-3')}>
+        Attach file
+      </button>
+      <button type="button" onClick={() => camRef.current?.click()} disabled={disabled} className={cx(s.btn, s.secondary, 'px-3 md:hidden')}>
+        Take photo
+      </button>
+    </div>
+  )
+}
+
+// For add forms: files are held until the parent row exists, then uploaded by the caller.
+export function PendingFiles({
+  files, onChange, disabled,
+}: { files: File[]; onChange: (files: File[]) => void; disabled?: boolean }) {
+  const [error, setError] = useState<string | null>(null)
+  const add = (picked: File[]) => {
+    const bad = picked.map(checkFile).find(Boolean)
+    setError(bad ?? null)
+    onChange([...files, ...picked.filter(f => !checkFile(f))])
+  }
+  return (
+    <div className="grid gap-2">
+      <PickButtons onPick={add} disabled={disabled} />
+      {files.length > 0 && (
+        <ul className="flex flex-wrap gap-2 text-xs">
+          {files.map((f, i) => (
+            <li key={`${f.name}-${i}`} className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-1">
+              {f.name}
+              <button type="button" onClick={() => onChange(files.filter((_, j) => j !== i))} className="text-slate-400 hover:text-rose-600" aria-label={`Remove ${f.name}`}>✕</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <div className="text-xs text-rose-700">{error}</div>}
+    </div>
+  )
+}
+
+// For edit dialogs: uploads/removals happen immediately against the saved row.
+export function AttachmentManager({
+  parent, items, onChange, disabled,
+}: { parent: AttachmentParent; items: Attachment[]; onChange: (items: Attachment[]) => void; disabled?: boolean }) {
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const upload = async (files: File[]) => {
+    setBusy(true); setError(null)
+    let next = items
+    for (const f of files) {
+      try { next = [...next, await uploadAttachment(parent, f)] }
+      catch (e) { setError(e instanceof Error ? e.message : 'Upload failed'); break }
+    }
+    onChange(next)
+    setBusy(false)
+  }
+
+  const remove = async (a: Attachment) => {
+    if (!window.confirm(`Remove attachment "${a.file_name}"?`)) return
+    setBusy(true); setError(null)
+    const err = await removeAttachment(a)
+    setBusy(false)
+    if (err) return setError(err)
+    onChange(items.filter(x => x.id !== a.id))
+  }
+
+  return (
+    <div className="grid gap-2">
+      {items.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {items.map(a => (
+            <li key={a.id} className="relative">
+              <Thumb a={a} size="md" />
+              <button
+                type="button"
+                onClick={() => remove(a)}
+                disabled={busy || disabled}
+                className="absolute -right-1 -top-1 grid h-5 w-5 place-items-center rounded-full bg-white text-xs text-slate-500 shadow ring-1 ring-slate-200 hover:text-rose-600"
+                aria-label={`Remove ${a.file_name}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <PickButtons onPick={upload} disabled={busy || disabled} />
+      {busy && <div className="text-xs text-slate-500">Working…</div>}
+      {error && <div className="text-xs text-rose-700">{error}</div>}
+    </div>
+  )
+}
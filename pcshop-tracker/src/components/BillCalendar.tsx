@@ -0,0 +1,234 @@
+// src/components/BillCalendar.tsx
+import { useEffect, useMemo, useState } from 'react'
+import {
+  addMonths, addWeeks, eachDayOfInterval, endOfMonth, endOfWeek, format, formatISO, isSameMonth,
+  parseISO, startOfMonth, startOfWeek,
+} from 'date-fns'
+import { fmtCurrency } from '../lib/currency'
+import { type Bill } from '../lib/bills'
+import { downloadIcs, dueTotal, entryKey, feedUrl, fetchCalendar, type CalendarEntry } from '../lib/billCalendar'
+import { payeeName, usePayees } from '../lib/payees'
+import { BillStatusBadge } from './BillStatusBadge'
+import { styles as s, cx } from '../ui'
+
+type View = 'month' | 'week'
+
+const iso = (d: Date) => formatISO(d, { representation: 'date' })
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+function Chip({ e, today }: { e: CalendarEntry; today: string }) {
+  return (
+    <div
+      className={cx(
+        'truncate rounded px-1 text-[11px] leading-5',
+        e.projected ? 'border border-dashed border-slate-300 text-slate-500'
+          : e.paid ? 'bg-emerald-50 text-emerald-800 line-through decoration-emerald-400'
+          : e.due_date < today ? 'bg-rose-100 text-rose-800'
+          : 'bg-amber-50 text-amber-900',
+      )}
+      title={`${e.category} ${fmtCurrency(e.amount)}${e.projected ? ' (projected)' : ''}`}
+    >
+      {e.category}
+    </div>
+  )
+}
+
+// Month/week grid of bills with each day's total still to pay. `bills` are the
+// loaded bills (for pay actions); the calendar itself also shows projected
+// months of recurring series. It refetches whenever `bills` changes.
+export function BillCalendar({
+  bills, canWrite, onPay, onPayments,
+}: {
+  bills: Bill[]
+  canWrite: boolean
+  onPay: (bill: Bill) => void
+  onPayments: (bill: Bill) => void
+}) {
+  const payees = usePayees()
+  const [view, setView] = useState<View>('month')
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [entries, setEntries] = useState<CalendarEntry[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [openDay, setOpenDay] = useState<string | null>(null)
+  const [feed, setFeed] = useState<string | null>(null)
+  const today = iso(new Date())
+
+  const days = useMemo(() => {
+    const start = view === 'month' ? startOfWeek(startOfMonth(anchor)) : startOfWeek(anchor)
+    const end = view === 'month' ? endOfWeek(endOfMonth(anchor)) : endOfWeek(anchor)
+    return eachDayOfInterval({ start, end })
+  }, [view, anchor])
+  const from = iso(days[0])
+  const to = iso(days[days.length - 1])
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      const res = await fetchCalendar(from, to)
+      if (cancelled) return
+      setError(res.error)
+      setEntries(res.rows)
+    }
+    load()
+    return () => { cancelled = true }
+  }, [from, to, bills])
+
+  const byDay = useMemo(() => {
+    const m: Record<string, CalendarEntry[]> = {}
+    for (const e of entries) (m[e.due_date] ??= []).push(e)
+    return m
+  }, [entries])
+
+  const billOf = (e: CalendarEntry) => (e.bill_id ? bills.find(b => b.id === e.bill_id) ?? null : null)
+
+  const step = (n: number) => setAnchor(a => (view === 'month' ? addMonths(a, n) : addWeeks(a, n)))
+  const title = view === 'month'
+    ? format(anchor, 'MMMM yyyy')
+    : `${format(days[0], 'MMM d')} – ${format(days[6], 'MMM d, yyyy')}`
+
+  const showFeed = async (reset: boolean) => {
+    if (reset && !window.confirm('Make a new subscription link? Calendars using the old link stop updating.')) return
+    setError(null)
+    const res = await feedUrl(reset)
+    if (res.error) return setError(res.error)
+    setFeed(res.url)
+  }
+
+  const dayEntries = openDay ? byDay[openDay] ?? [] : []
+
+  return (
+    <div className={cx(s.card, 'grid gap-3 p-4')}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => step(-1)} className={cx(s.btn, s.secondary, 'px-3')} aria-label="Previous">‹</button>
+          <button type="button" onClick={() => setAnchor(new Date())} className={cx(s.btn, s.secondary, 'px-3')}>Today</button>
+          <button type="button" onClick={() => step(1)} className={cx(s.btn, s.secondary, 'px-3')} aria-label="Next">›</button>
+          <h2 className="ml-1 text-base font-semibold">{title}</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="inline-flex gap-1 rounded-xl bg-slate-100 p-1">
+            {(['month', 'week'] as View[]).map(v => (
+              <button
+                key={v}
+                type="button"
+                onClick={() => setView(v)}
+                className={cx('rounded-lg px-3 py-1 text-sm capitalize', view === v ? 'bg-white font-medium shadow-sm' : 'text-slate-600')}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+          <button type="button" onClick={() => downloadIcs(entries, `bills-${from}-to-${to}.ics`)} className={cx(s.btn, s.secondary)}>
+            Export .ics
+          </button>
+          <button type="button" onClick={() => showFeed(false)} className={cx(s.btn, s.secondary)}>Subscribe</button>
+        </div>
+      </div>
+
+      {feed && (
+        <div className="grid gap-2 rounded-xl bg-slate-50 p-3 text-sm">
+          <div className="text-slate-600">
+            Add this link as a subscribed calendar on your phone (iPhone: Settings → Calendar → Accounts → Add subscribed calendar;
+            Google Calendar: From URL). It shows bills from two months back to a year ahead. Keep it private.
+          </div>
+          <input readOnly value={feed} onFocus={e => e.target.select()} className={cx(s.input, 'font-mono text-xs')} />
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => navigator.clipboard?.writeText(feed)} className={cx(s.btn, s.secondary)}>Copy</button>
+            <button type="button" onClick={() => showFeed(true)} className={cx(s.btn, s.secondary)}>New link</button>
+            <button type="button" onClick={() => setFeed(null)} className={cx(s.btn, s.secondary)}>Close</button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-rose-700">{error}</div>}
+
+      <div className="grid grid-cols-7 gap-px overflow-hidden rounded-xl bg-slate-200 ring-1 ring-slate-200">
+        {WEEKDAYS.map(d => (
+          <div key={d} className="bg-slate-50 px-1 py-1 text-center text-xs font-medium text-slate-500">{d}</div>
+        ))}
+        {days.map(d => {
+          const key = iso(d)
+          const list = byDay[key] ?? []
+          const total = dueTotal(list)
+          return (
+            <button
+              key={key}
+              type="button"
+              onClick={() => list.length && setOpenDay(key)}
+              className={cx(
+                'flex flex-col gap-0.5 bg-white p-1 text-left align-top',
+                view === 'month' ? 'min-h-20' : 'min-h-40',
+                view === 'month' && !isSameMonth(d, anchor) && 'bg-slate-50 text-slate-400',
+                list.length ? 'hover:bg-indigo-50/50' : 'cursor-default',
+              )}
+            >
+              <div className="flex items-center justify-between gap-1">
+                <span className={cx('text-xs', key === today && 'rounded-full bg-indigo-600 px-1.5 font-semibold text-white')}>
+                  {format(d, 'd')}
+                </span>
+                {total > 0 && <span className="truncate text-[11px] font-semibold text-slate-700">{fmtCurrency(total)}</span>}
+              </div>
+              {/* month cells show a few chips; the week view lists every bill */}
+              {(view === 'month' ? list.slice(0, 3) : list).map(e => <Chip key={entryKey(e)} e={e} today={today} />)}
+              {view === 'month' && list.length > 3 && <span className="text-[11px] text-slate-500">+{list.length - 3} more</span>}
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-slate-500">
+        <span><span className="mr-1 inline-block h-2.5 w-2.5 rounded-sm bg-amber-100" />Unpaid</span>
+        <span><span className="mr-1 inline-block h-2.5 w-2.5 rounded-sm bg-rose-100" />Overdue</span>
+        <span><span className="mr-1 inline-block h-2.5 w-2.5 rounded-sm bg-emerald-100" />Paid</span>
+        <span><span className="mr-1 inline-block h-2.5 w-2.5 rounded-sm border border-dashed border-slate-400" />Projected</span>
+        <span className="ml-auto">Daily totals are what is still to pay.</span>
+      </div>
+
+      {openDay && (
+        <div className="fixed inset-0 z-40 grid place-items-center bg-slate-900/40 p-4" role="dialog" aria-modal="true">
+          <div className={cx(s.card, 'grid max-h-[90dvh] w-full max-w-md gap-3 overflow-auto p-4')}>
+            <div className="flex items-center justify-between">
+              <h2 className="text-base font-semibold">{format(parseISO(openDay), 'EEEE, MMM d')}</h2>
+              <span className="text-sm text-slate-600">Due {fmtCurrency(dueTotal(dayEntries))}</span>
+            </div>
+            <ul className="divide-y divide-slate-100 text-sm">
+              {dayEntries.map(e => {
+                const bill = billOf(e)
+                return (
+                  <li key={entryKey(e)} className="flex flex-wrap items-center gap-2 py-2">
+                    <span className="flex-1">
+                      {e.category}
+                      {e.payee_id && <span className="block text-xs text-slate-500">{payeeName(payees.items, e.payee_id)}</span>}
+                    </span>
+                    {bill ? (
+                      <BillStatusBadge bill={bill} today={today} />
+                    ) : (
+                      <span className="rounded-full border border-dashed border-slate-300 px-2 py-0.5 text-xs text-slate-500">Projected</span>
+                    )}
+                    <span className="w-24 text-right font-semibold">{fmtCurrency(e.paid ? e.amount : e.remaining)}</span>
+                    {canWrite && bill && (
+                      <span className="flex w-full justify-end gap-2">
+                        {!bill.paid && (
+                          <button onClick={() => { setOpenDay(null); onPay(bill) }} className={cx(s.btn, s.primary, 'px-3')}>Pay…</button>
+                        )}
+                        <button onClick={() => { setOpenDay(null); onPayments(bill) }} className={cx(s.btn, s.secondary, 'px-3')}>
+                          Payments
+                        </button>
+                      </span>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+            {dayEntries.some(e => e.projected) && (
+              <p className="text-xs text-slate-500">Projected bills are created from their series about a month before they are due; pay them then.</p>
+            )}
+            <div className="flex justify-end">
+              <button type="button" onClick={() => setOpenDay(null)} className={cx(s.btn, s.secondary)}>Close</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
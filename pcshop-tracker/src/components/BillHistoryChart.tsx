@@ -0,0 +1,31 @@
+// src/components/BillHistoryChart.tsx
+import { Bar, CartesianGrid, Cell, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { fmtCurrency } from '../lib/currency'
+import { ROLLING_BILLS, type HistoryPoint } from '../lib/billHistory'
+
+// Billed amounts with the rolling average of the previous bills and the spike
+// limit above it; bars over the limit are drawn in rose.
+export function BillHistoryChart({ points }: { points: HistoryPoint[] }) {
+  return (
+    <div className="h-56 w-full md:h-72">
+      <ResponsiveContainer>
+        <ComposedChart data={points} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis dataKey="due_date" tick={{ fill: '#64748b', fontSize: 12 }} />
+          <YAxis tick={{ fill: '#64748b', fontSize: 12 }} tickFormatter={v => fmtCurrency(Number(v))} />
+          <Tooltip
+            contentStyle={{ borderRadius: 12, borderColor: '#e2e8f0' }}
+            labelStyle={{ color: '#0f172a', fontWeight: 600 }}
+            formatter={(val, name) => [fmtCurrency(Number(val)), name]}
+          />
+          <Legend wrapperStyle={{ paddingTop: 6 }} formatter={(val: string) => <span style={{ color: '#334155' }}>{val}</span>} />
+          <Bar dataKey="amount" name="Billed" radius={[6, 6, 0, 0]} fill="#94a3b8">
+            {points.map(p => <Cell key={p.id} fill={p.limit !== null && p.amount > p.limit ? '#fb7185' : '#94a3b8'} />)}
+          </Bar>
+          <Line type="monotone" dataKey="average" name={`Average of previous ${ROLLING_BILLS} bills`} stroke="#6366f1" strokeWidth={3} dot={false} connectNulls />
+          <Line type="stepAfter" dataKey="limit" name="Alert above" stroke="#f59e0b" strokeDasharray="5 4" dot={false} connectNulls />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+// src/components/BillReminders.tsx
+import { useEffect, useState } from 'react'
+import { useSession } from '../lib/session'
+import {
+  DEFAULT_REMINDERS, LEAD_CHOICES, fetchReminderSettings, saveReminderSettings, sendRemindersNow, type ReminderSettings,
+} from '../lib/reminders'
+import { styles as s, cx } from '../ui'
+
+const leadLabel = (d: number) => (d === 0 ? 'On the day' : d === 1 ? '1 day before' : `${d} days before`)
+
+// The signed-in user's reminder email settings, shown to admins and editors.
+export function BillReminders() {
+  const { session, profile } = useSession()
+  const userId = session?.user.id ?? ''
+  const [r, setR] = useState<ReminderSettings>(DEFAULT_REMINDERS)
+  const [busy, setBusy] = useState(false)
+  const [msg, setMsg] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    const load = async () => {
+      const res = await fetchReminderSettings(userId)
+      if (cancelled) return
+      setError(res.error)
+      setR(res.settings)
+    }
+    load()
+    return () => { cancelled = true }
+  }, [userId])
+
+  const toggleLead = (d: number) =>
+    setR(prev => ({ ...prev, lead_days: prev.lead_days.includes(d) ? prev.lead_days.filter(x => x !== d) : [...prev.lead_days, d] }))
+
+  const save = async () => {
+    if (r.enabled && r.lead_days.length === 0 && !r.overdue) return setError('Pick at least one lead time or overdue reminders.')
+    setBusy(true); setError(null); setMsg(null)
+    const err = await saveReminderSettings(userId, r)
+    setBusy(false)
+    if (err) return setError(err)
+    setMsg(r.enabled ? `Reminders on for ${session?.user.email}.` : 'Reminders off.')
+  }
+
+  const sendNow = async () => {
+    setBusy(true); setError(null); setMsg(null)
+    const res = await sendRemindersNow()
+    setBusy(false)
+    if (res.error) setError(res.error)
+    setMsg(`${res.emails} reminder email${res.emails === 1 ? '' : 's'} sent.`)
+  }
+
+  return (
+    <div className={cx(s.card, 'grid gap-3 p-4')}>
+      <div>
+        <h2 className="text-sm font-semibold">Email reminders</h2>
+        <p className="text-xs text-slate-500">
+          A morning digest of unpaid bills coming due, sent to {session?.user.email ?? 'you'}. Each bill is reminded once per lead time.
+        </p>
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={r.enabled} onChange={e => setR(prev => ({ ...prev, enabled: e.target.checked }))} />
+        Email me about bills that are due
+      </label>
+      <div className={cx('flex flex-wrap gap-x-4 gap-y-2 text-sm', !r.enabled && 'opacity-50')}>
+        {LEAD_CHOICES.map(d => (
+          <label key={d} className="flex items-center gap-2">
+            <input type="checkbox" checked={r.lead_days.includes(d)} onChange={() => toggleLead(d)} disabled={!r.enabled} />
+            {leadLabel(d)}
+          </label>
+        ))}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={r.overdue} onChange={e => setR(prev => ({ ...prev, overdue: e.target.checked }))} disabled={!r.enabled} />
+          When overdue
+        </label>
+      </div>
+      <div className="flex items-center justify-end gap-2">
+        {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+        {!error && msg && <span className="mr-auto text-sm text-emerald-700">{msg}</span>}
+        {profile?.role === 'admin' && (
+          <button type="button" onClick={sendNow} className={cx(s.btn, s.secondary)} disabled={busy} title="Send everyone's due reminders now">
+            Send due reminders now
+          </button>
+        )}
+        <button type="button" onClick={save} className={cx(s.btn, s.primary)} disabled={busy || !userId}>
+          {busy ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+    </div>
+  )
+}
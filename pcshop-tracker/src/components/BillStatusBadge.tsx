@@ -0,0 +1,13 @@
+// src/components/BillStatusBadge.tsx
+import { billStatus, dueHint, statusMeta, type Bill } from '../lib/bills'
+import { cx } from '../ui'
+
+// Status pill with "3 days late" / "due in 2 days" as its tooltip.
+export function BillStatusBadge({ bill, today }: { bill: Pick<Bill, 'due_date' | 'paid' | 'paid_at' | 'payments'>; today?: string }) {
+  const meta = statusMeta(billStatus(bill, today))
+  return (
+    <span className={cx('whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-medium', meta.tone)} title={dueHint(bill, today) || undefined}>
+      {meta.label}
+    </span>
+  )
+}
@@ -0,0 +1,19 @@
+// src/components/PayeeSelect.tsx
+import { activePayees, payeeName, usePayees } from '../lib/payees'
+import { styles as s } from '../ui'
+
+// Optional payee picker; '' = none. An archived payee stays selectable so
+// opening an old row never unlinks it.
+export function PayeeSelect({ value, onChange, disabled }: { value: string; onChange: (id: string) => void; disabled?: boolean }) {
+  const payees = usePayees()
+  const active = activePayees(payees.items)
+  return (
+    <select value={value} onChange={e => onChange(e.target.value)} className={s.select} disabled={disabled}>
+      <option value="">— none —</option>
+      {value && !active.some(p => p.id === value) && (
+        <option value={value}>{payeeName(payees.items, value) || 'Archived payee'}</option>
+      )}
+      {active.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+    </select>
+  )
+}
@@ -0,0 +1,127 @@
+// src/components/QuickAdd.tsx
+import { useMemo, useState } from 'react'
+import { supabase } from '../lib/supabaseClient'
+import { fmtCurrency } from '../lib/currency'
+import { TX_TYPES, validateTx, type TxType } from '../lib/transactions'
+import { activeNames, useCategories, validCategoryMap } from '../lib/categories'
+import { parseQuickAdd, type QuickAdd as Parsed } from '../lib/quickAdd'
+import { styles as s, cx } from '../ui'
+
+// One-line entry ("1500 printing yesterday bond paper"). Enter shows what was
+// understood; nothing is saved until the preview is confirmed (Add or Enter again).
+export function QuickAdd({ onAdded }: { onAdded?: () => void }) {
+  const catalog = useCategories()
+  const validCats = useMemo(() => validCategoryMap(catalog.items), [catalog.items])
+  // match against names staff can pick today; archived ones only validate
+  const pickable = useMemo(
+    () => ({ income: activeNames(catalog.items, 'income'), expense: activeNames(catalog.items, 'expense'), savings: activeNames(catalog.items, 'savings') }),
+    [catalog.items],
+  )
+
+  const [text, setText] = useState('')
+  const [preview, setPreview] = useState<Parsed | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [msg, setMsg] = useState<string | null>(null)
+
+  const read = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!text.trim()) return
+    // second Enter on an unchanged line confirms the preview
+    if (preview) return confirm()
+    setError(null); setMsg(null)
+    setPreview(parseQuickAdd(text, pickable))
+  }
+
+  const patch = (p: Partial<Parsed>) => setPreview(prev => (prev ? { ...prev, ...p } : prev))
+
+  const changeType = (type: TxType) => {
+    if (!preview) return
+    const names = pickable[type]
+    patch({ type, category: preview.category && names.includes(preview.category) ? preview.category : names[0] ?? null })
+  }
+
+  const confirm = async () => {
+    if (!preview) return
+    const { amount, type, category, date, note } = preview
+    if (!amount) return setError('No amount found. Start with a number, e.g. "1500 printing".')
+    if (!type || !category) return setError('No category matched. Pick one below.')
+    const problem = validateTx({ date, type, category, amount }, validCats)
+    if (problem) return setError(problem)
+    setSaving(true); setError(null)
+    const { error } = await supabase.from('transactions').insert({ date, type, category, amount, note })
+    setSaving(false)
+    if (error) return setError(error.message)
+    setMsg(`Added ${type} ${fmtCurrency(amount)} • ${category} • ${date}`)
+    setText(''); setPreview(null)
+    onAdded?.()
+  }
+
+  return (
+    <div className={cx(s.card, 'grid gap-3 p-4')}>
+      <form onSubmit={read} className="flex gap-2">
+        <input
+          value={text}
+          onChange={e => { setText(e.target.value); setPreview(null); setMsg(null) }}
+          placeholder='Quick add, e.g. "1500 printing yesterday bond paper"'
+          className={cx(s.input, 'flex-1')}
+          enterKeyHint="go"
+          aria-label="Quick add"
+        />
+        <button type="submit" className={cx(s.btn, s.secondary)} disabled={!text.trim()}>Preview</button>
+      </form>
+      {msg && <div className="text-sm text-emerald-700">{msg}</div>}
+
+      {preview && (
+        <div className="grid gap-3 rounded-xl bg-slate-50 p-3 text-sm">
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <div>
+              <div className="text-xs text-slate-500">Amount</div>
+              <input
+                type="number"
+                step="0.01"
+                value={preview.amount ?? ''}
+                onChange={e => patch({ amount: Number(e.target.value) > 0 ? Number(e.target.value) : null })}
+                className={cx(s.input, 'py-1 font-semibold', !preview.amount && 'border-rose-300')}
+              />
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Date</div>
+              <input type="date" value={preview.date} onChange={e => patch({ date: e.target.value })} className={cx(s.input, 'py-1')} />
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Type</div>
+              <select value={preview.type ?? ''} onChange={e => changeType(e.target.value as TxType)} className={cx(s.select, 'py-1')}>
+                {!preview.type && <option value="">—</option>}
+                {TX_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500">Category</div>
+              <select
+                value={preview.category ?? ''}
+                onChange={e => patch({ category: e.target.value })}
+                className={cx(s.select, 'py-1', !preview.category && 'border-rose-300')}
+                disabled={!preview.type}
+              >
+                {!preview.category && <option value="">—</option>}
+                {preview.type && pickable[preview.type].map(c => <option key={c}>{c}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-500">Note</div>
+            <input value={preview.note} onChange={e => patch({ note: e.target.value })} className={cx(s.input, 'py-1')} />
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+            <button type="button" onClick={() => setPreview(null)} className={cx(s.btn, s.secondary)}>Cancel</button>
+            <button type="button" onClick={confirm} className={cx(s.btn, s.primary)} disabled={saving}>
+              {saving ? 'Adding…' : 'Add'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+// src/components/SpikeBadge.tsx
+import { Link } from 'react-router-dom'
+import { fmtCurrency } from '../lib/currency'
+import { ROLLING_BILLS, type Spike } from '../lib/billHistory'
+
+// "▲ 42%" next to an amount that jumped; links to its history chart.
+export function SpikeBadge({ spike, to }: { spike: Spike; to: string }) {
+  return (
+    <Link
+      to={to}
+      className="whitespace-nowrap rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800 hover:bg-amber-200"
+      title={`${spike.pct}% above the ${fmtCurrency(spike.average)} average of up to ${ROLLING_BILLS} previous bills (alert at ${spike.threshold}%)`}
+    >
+      ▲ {spike.pct}%
+    </Link>
+  )
+}
@@ -0,0 +1,89 @@
+// src/components/TagInput.tsx
+import { useState } from 'react'
+import { normalizeTag, parseTags } from '../lib/tags'
+import { styles as s, cx } from '../ui'
+
+// Chips + free text. Enter or comma adds a tag, Backspace on an empty box removes
+// the last one; suggestions come from tags already in use.
+export function TagInput({
+  value, onChange, suggestions, disabled, placeholder = 'Add tag…',
+}: {
+  value: string[]
+  onChange: (tags: string[]) => void
+  suggestions: string[]
+  disabled?: boolean
+  placeholder?: string
+}) {
+  const [text, setText] = useState('')
+  const [open, setOpen] = useState(false)
+  const [active, setActive] = useState(-1)
+
+  const term = normalizeTag(text)
+  const matches = open ? suggestions.filter(t => !value.includes(t) && t.includes(term)).slice(0, 8) : []
+
+  const commit = (raw: string) => {
+    if (raw.trim()) onChange(parseTags([...value, raw].join(',')))
+    setText('')
+    setActive(-1)
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && matches.length) {
+      e.preventDefault()
+      setActive(i => (i + 1) % matches.length)
+    } else if (e.key === 'ArrowUp' && matches.length) {
+      e.preventDefault()
+      setActive(i => (i <= 0 ? matches.length - 1 : i - 1))
+    } else if ((e.key === 'Enter' || e.key === ',') && (text.trim() || active >= 0)) {
+      e.preventDefault()
+      commit(active >= 0 && matches[active] ? matches[active] : text)
+    } else if (e.key === 'Backspace' && !text && value.length) {
+      onChange(value.slice(0, -1))
+    } else if (e.key === 'Escape') {
+      setOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <div className={cx(s.input, 'flex flex-wrap items-center gap-1 py-1.5', disabled && 'bg-slate-50')}>
+        {value.map(t => (
+          <span key={t} className="inline-flex items-center gap-1 rounded-full bg-indigo-50 px-2 py-0.5 text-xs text-indigo-700">
+            #{t}
+            {!disabled && (
+              <button type="button" onClick={() => onChange(value.filter(x => x !== t))} className="text-indigo-400 hover:text-rose-600" aria-label={`Remove tag ${t}`}>
+                ✕
+              </button>
+            )}
+          </span>
+        ))}
+        <input
+          value={text}
+          onChange={e => { setText(e.target.value); setOpen(true); setActive(-1) }}
+          onKeyDown={onKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => { commit(text); setOpen(false) }}
+          placeholder={value.length ? '' : placeholder}
+          disabled={disabled}
+          className="min-w-[6rem] flex-1 bg-transparent text-sm outline-none placeholder:text-slate-400"
+        />
+      </div>
+      {matches.length > 0 && (
+        <ul className="absolute z-50 mt-1 max-h-48 w-full overflow-auto rounded-xl border border-slate-200 bg-white py-1 text-sm shadow-lg">
+          {matches.map((t, i) => (
+            <li key={t}>
+              <button
+                type="button"
+                // mousedown fires before the input's blur, so the pick isn't lost
+                onMouseDown={e => { e.preventDefault(); commit(t) }}
+                className={cx('w-full px-3 py-1.5 text-left', i === active ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-slate-50')}
+              >
+                #{t}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+// src/components/UndoToast.tsx
+import { useEffect, useRef, useState } from 'react'
+
+// Bottom toast shown right after a delete; disappears after `ms`.
+export function UndoToast({
+  message, onUndo, onClose, ms = 8000,
+}: { message: string; onUndo: () => Promise<void> | void; onClose: () => void; ms?: number }) {
+  const [busy, setBusy] = useState(false)
+  // callers pass inline callbacks; keep the timer tied to the message, not to re-renders
+  const closeRef = useRef(onClose)
+  useEffect(() => { closeRef.current = onClose })
+
+  useEffect(() => {
+    const t = setTimeout(() => closeRef.current(), ms)
+    return () => clearTimeout(t)
+  }, [message, ms])
+
+  const undo = async () => {
+    setBusy(true)
+    await onUndo()
+    setBusy(false)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-50 flex justify-center px-4" role="status">
+      <div className="flex w-full max-w-md items-center gap-3 rounded-xl bg-slate-900 px-4 py-3 text-sm text-white shadow-lg">
+        <span className="flex-1">{message}</span>
+        <button type="button" onClick={undo} disabled={busy} className="font-semibold text-indigo-300 hover:text-indigo-200">
+          {busy ? 'Restoring…' : 'Undo'}
+        </button>
+        <button type="button" onClick={onClose} className="text-white/60 hover:text-white" aria-label="Dismiss">✕</button>
+      </div>
+    </div>
+  )
+}
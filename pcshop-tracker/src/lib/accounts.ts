@@ -0,0 +1,63 @@
+// src/lib/accounts.ts
+import { supabase } from './supabaseClient'
+import { createListStore } from './listStore'
+
+export type AccountKind = 'cash' | 'ewallet' | 'bank' | 'other'
+export type Account = {
+  id: string
+  name: string
+  kind: AccountKind
+  opening_balance: number
+  opened_on: string
+  sort_order: number
+  archived: boolean
+}
+export type AccountBalance = {
+  account_id: string
+  name: string
+  kind: AccountKind
+  archived: boolean
+  opening_balance: number
+  inflow: number
+  outflow: number
+  balance: number
+}
+
+export const ACCOUNT_KINDS: { kind: AccountKind; label: string }[] = [
+  { kind: 'cash', label: 'Cash' },
+  { kind: 'ewallet', label: 'E-wallet' },
+  { kind: 'bank', label: 'Bank' },
+  { kind: 'other', label: 'Other' },
+]
+
+// Shared list of accounts for pickers.
+const accounts = createListStore<Account>(() =>
+  supabase
+    .from('accounts')
+    .select('id,name,kind,opening_balance,opened_on,sort_order,archived')
+    .order('sort_order')
+    .order('name'),
+)
+
+export const reloadAccounts = accounts.reload
+export const useAccounts = accounts.use
+
+export const activeAccounts = (items: Account[]) => items.filter(a => !a.archived)
+
+export const accountName = (items: Account[], id: string | null | undefined) =>
+  items.find(a => a.id === id)?.name ?? ''
+
+export async function fetchBalances(): Promise<{ error: string | null; rows: AccountBalance[] }> {
+  const { data, error } = await supabase.rpc('account_balances')
+  if (error) return { error: error.message, rows: [] }
+  return {
+    error: null,
+    rows: ((data || []) as AccountBalance[]).map(r => ({
+      ...r,
+      opening_balance: Number(r.opening_balance),
+      inflow: Number(r.inflow),
+      outflow: Number(r.outflow),
+      balance: Number(r.balance),
+    })),
+  }
+}
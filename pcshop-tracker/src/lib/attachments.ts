@@ -0,0 +1,117 @@
+// src/lib/attachments.ts
+import { supabase } from './supabaseClient'
+
+export const BUCKET = 'attachments'
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf'
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+export type Attachment = {
+  id: string
+  path: string
+  file_name: string
+  mime_type: string | null
+  size?: number | null
+}
+// Exactly one parent per attachment.
+export type AttachmentParent = { transaction_id: string } | { bill_id: string }
+
+// Columns to embed when selecting a parent row: .select('*, attachments(...)')
+export const ATTACHMENT_COLUMNS = 'attachments(id,path,file_name,mime_type,size)'
+
+export const isImage = (a: Pick<Attachment, 'mime_type'>) => !!a.mime_type?.startsWith('image/')
+
+const safeName = (name: string) => name.replace(/[^\w.-]+/g, '_').slice(-80)
+
+export function checkFile(file: File): string | null {
+  if (!/^image\//.test(file.type) && file.type !== 'application/pdf') return `${file.name}: only photos and PDFs can be attached.`
+  if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name}: files must be 10 MB or smaller.`
+  return null
+}
+
+export async function uploadAttachment(parent: AttachmentParent, file: File): Promise<Attachment> {
+  const problem = checkFile(file)
+  if (problem) throw new Error(problem)
+
+  const [kind, id] = 'transaction_id' in parent ? ['transactions', parent.transaction_id] : ['bills', parent.bill_id]
+  const path = `${kind}/${id}/${crypto.randomUUID()}-${safeName(file.name)}`
+
+  const up = await supabase.storage.from(BUCKET).upload(path, file, { contentType: file.type, upsert: false })
+  if (up.error) throw new Error(up.error.message)
+
+  const { data, error } = await supabase
+    .from('attachments')
+    .insert({ ...parent, path, file_name: file.name, mime_type: file.type || null, size: file.size })
+    .select('id,path,file_name,mime_type,size')
+    .single()
+  if (error) {
+    // don't leave an orphaned object behind
+    await supabase.storage.from(BUCKET).remove([path])
+    throw new Error(error.message)
+  }
+  return data as Attachment
+}
+
+// Upload several files; stops at the first failure and reports it.
+export async function uploadAll(parent: AttachmentParent, files: File[]): Promise<string | null> {
+  for (const f of files) {
+    try { await uploadAttachment(parent, f) }
+    catch (e) { return e instanceof Error ? e.message : 'Upload failed' }
+  }
+  return null
+}
+
+export async function removeAttachment(a: Attachment): Promise<string | null> {
+  const { error } = await supabase.from('attachments').delete().eq('id', a.id)
+  if (error) return error.message
+  await removeObjects([a.path])
+  return null
+}
+
+// Storage objects are not removed by the FK cascade; call this after the parent row is gone.
+export async function removeObjects(paths: string[]) {
+  if (paths.length === 0) return
+  await supabase.storage.from(BUCKET).remove(paths)
+  forget(paths)
+}
+
+// Paths of every file attached to the given transactions/bills (looked up before deleting them).
+export async function attachmentPaths(ids: { transactions?: string[]; bills?: string[] }): Promise<string[]> {
+  const tx = ids.transactions?.filter(Boolean) ?? []
+  const bills = ids.bills?.filter(Boolean) ?? []
+  if (tx.length === 0 && bills.length === 0) return []
+  let q = supabase.from('attachments').select('path')
+  if (tx.length && bills.length) q = q.or(`transaction_id.in.(${tx.join(',')}),bill_id.in.(${bills.join(',')})`)
+  else if (tx.length) q = q.in('transaction_id', tx)
+  else q = q.in('bill_id', bills)
+  const { data } = await q
+  return (data || []).map(r => r.path as string)
+}
+
+// ---------- signed URLs (batched + cached) ----------
+const URL_TTL = 60 * 60 // seconds
+const cache = new Map<string, { url: string; expires: number }>()
+let queue: Array<{ path: string; resolve: (url: string | null) => void }> = []
+let timer: ReturnType<typeof setTimeout> | null = null
+
+const forget = (paths: string[]) => paths.forEach(p => cache.delete(p))
+
+async function flush() {
+  const batch = queue
+  queue = []
+  timer = null
+  const paths = [...new Set(batch.map(b => b.path))]
+  const { data } = await supabase.storage.from(BUCKET).createSignedUrls(paths, URL_TTL)
+  const expires = Date.now() + (URL_TTL - 60) * 1000
+  for (const d of data || []) if (d.path && d.signedUrl) cache.set(d.path, { url: d.signedUrl, expires })
+  for (const b of batch) b.resolve(cache.get(b.path)?.url ?? null)
+}
+
+// Thumbnails on a page all ask at once; collect them into one createSignedUrls call.
+export function signedUrl(path: string): Promise<string | null> {
+  const hit = cache.get(path)
+  if (hit && hit.expires > Date.now()) return Promise.resolve(hit.url)
+  return new Promise(resolve => {
+    queue.push({ path, resolve })
+    if (!timer) timer = setTimeout(flush, 0)
+  })
+}
@@ -0,0 +1,100 @@
+// src/lib/billCalendar.ts
+import { addDays, format, parseISO } from 'date-fns'
+import { supabase } from './supabaseClient'
+import { fmtCurrency } from './currency'
+
+// One bill on the calendar: a real bill, or a recurring month not generated yet.
+export type CalendarEntry = {
+  bill_id: string | null // null when projected
+  series_id: string | null
+  due_date: string
+  category: string
+  amount: number
+  remaining: number // still owed; 0 once paid
+  paid: boolean
+  projected: boolean
+  payee_id: string | null
+}
+
+export async function fetchCalendar(from: string, to: string): Promise<{ error: string | null; rows: CalendarEntry[] }> {
+  const { data, error } = await supabase.rpc('bill_calendar', { from_date: from, to_date: to })
+  if (error) return { error: error.message, rows: [] }
+  return {
+    error: null,
+    rows: ((data || []) as CalendarEntry[]).map(r => ({ ...r, amount: Number(r.amount), remaining: Number(r.remaining) })),
+  }
+}
+
+// What is still to go out that day: unpaid balances plus projected bills.
+export const dueTotal = (entries: CalendarEntry[]) =>
+  entries.reduce((a, e) => a + (e.paid ? 0 : e.remaining), 0)
+
+export const entryKey = (e: CalendarEntry) => e.bill_id ?? `${e.series_id}:${e.due_date}`
+
+// ---------- iCalendar ----------
+// The bills-ics edge function builds the same events for the subscribed feed.
+
+const escapeText = (s: string) => s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n')
+
+// RFC 5545: lines over 75 octets continue on the next line after a space
+function fold(line: string) {
+  const out: string[] = []
+  let rest = line
+  while (new TextEncoder().encode(rest).length > 75) {
+    let n = 75
+    while (new TextEncoder().encode(rest.slice(0, n)).length > 75) n--
+    out.push(rest.slice(0, n))
+    rest = ' ' + rest.slice(n)
+  }
+  out.push(rest)
+  return out.join('\r\n')
+}
+
+const icsDate = (d: string) => d.replace(/-/g, '')
+
+export function buildIcs(entries: CalendarEntry[], calName: string) {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//PCShop Finance Tracker//Bills//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calName)}`,
+  ]
+  for (const e of entries) {
+    const state = e.paid ? ' (paid)' : e.projected ? ' (projected)' : ''
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entryKey(e).replace(/:/g, '-')}@pcshop-tracker`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(e.due_date)}`,
+      `DTEND;VALUE=DATE:${format(addDays(parseISO(e.due_date), 1), 'yyyyMMdd')}`,
+      `SUMMARY:${escapeText(`${e.category} ${fmtCurrency(e.paid ? e.amount : e.remaining)}${state}`)}`,
+      `DESCRIPTION:${escapeText(`Bill ${fmtCurrency(e.amount)} due ${e.due_date}`)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    )
+  }
+  lines.push('END:VCALENDAR')
+  return lines.map(fold).join('\r\n') + '\r\n'
+}
+
+export function downloadIcs(entries: CalendarEntry[], filename: string) {
+  const blob = new Blob([buildIcs(entries, 'Bills')], { type: 'text/calendar;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
+
+// Subscription URL for phone calendars; `reset` invalidates the previous one.
+export async function feedUrl(reset = false): Promise<{ error: string | null; url: string | null }> {
+  const { data, error } = await supabase.rpc('calendar_feed_token', { reset })
+  if (error) return { error: error.message, url: null }
+  const base = import.meta.env.VITE_SUPABASE_URL as string
+  return { error: null, url: `${base}/functions/v1/bills-ics?token=${data as string}` }
+}
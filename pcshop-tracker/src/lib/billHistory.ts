@@ -0,0 +1,76 @@
+// src/lib/billHistory.ts
+import { supabase } from './supabaseClient'
+import type { Bill } from './bills'
+import type { Category } from './categories'
+
+// A bill is compared with the previous bills of its group: same category and
+// same payee (or no payee), so two landlords under Rent don't mix.
+export const SPIKE_DEFAULT_PCT = 20
+export const ROLLING_BILLS = 6 // average of this many previous bills
+export const MIN_HISTORY = 3 // fewer previous bills than this: no baseline yet
+
+export type HistoryBill = Pick<Bill, 'id' | 'due_date' | 'category' | 'amount' | 'paid' | 'payee_id'>
+
+export type Spike = {
+  average: number // of the previous bills
+  pct: number // how far above it, in percent
+  threshold: number // the category's spike_pct
+}
+
+export type HistoryPoint = {
+  id: string
+  due_date: string
+  amount: number
+  average: number | null // rolling average of the previous bills
+  limit: number | null // amounts above this are flagged
+}
+
+export const HISTORY_COLUMNS = 'id,due_date,category,amount,paid,payee_id'
+
+export const historyGroup = (b: Pick<Bill, 'category' | 'payee_id'>) => `${b.category}|${b.payee_id ?? ''}`
+
+export const spikeThreshold = (categories: Category[], category: string) =>
+  Number(categories.find(c => c.kind === 'bill' && c.name === category)?.spike_pct ?? SPIKE_DEFAULT_PCT)
+
+// Amount and baseline of each bill in one group, oldest first.
+export function historyPoints(bills: HistoryBill[], categories: Category[]): HistoryPoint[] {
+  const sorted = [...bills].sort((a, b) => a.due_date.localeCompare(b.due_date))
+  return sorted.map((b, i) => {
+    const prev = sorted.slice(Math.max(0, i - ROLLING_BILLS), i)
+    if (prev.length < MIN_HISTORY) return { id: b.id, due_date: b.due_date, amount: Number(b.amount), average: null, limit: null }
+    const average = Math.round((prev.reduce((a, p) => a + Number(p.amount), 0) / prev.length) * 100) / 100
+    const limit = Math.round(average * (1 + spikeThreshold(categories, b.category) / 100) * 100) / 100
+    return { id: b.id, due_date: b.due_date, amount: Number(b.amount), average, limit }
+  })
+}
+
+// Bills above their group's limit, by bill id.
+export function findSpikes(bills: HistoryBill[], categories: Category[]): Record<string, Spike> {
+  const groups: Record<string, HistoryBill[]> = {}
+  for (const b of bills) (groups[historyGroup(b)] ??= []).push(b)
+  const out: Record<string, Spike> = {}
+  for (const list of Object.values(groups)) {
+    for (const p of historyPoints(list, categories)) {
+      if (p.average === null || p.limit === null || p.amount <= p.limit) continue
+      const bill = list.find(b => b.id === p.id)!
+      out[p.id] = {
+        average: p.average,
+        pct: Math.round((p.amount / p.average - 1) * 100),
+        threshold: spikeThreshold(categories, bill.category),
+      }
+    }
+  }
+  return out
+}
+
+// Bills due since `from` (not trashed), enough history for the baselines.
+export async function fetchBillHistory(from: string): Promise<{ error: string | null; rows: HistoryBill[] }> {
+  const { data, error } = await supabase
+    .from('bills')
+    .select(HISTORY_COLUMNS)
+    .is('deleted_at', null)
+    .gte('due_date', from)
+    .order('due_date')
+  if (error) return { error: error.message, rows: [] }
+  return { error: null, rows: (data || []) as HistoryBill[] }
+}
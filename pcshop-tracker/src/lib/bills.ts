@@ -0,0 +1,255 @@
+// src/lib/bills.ts
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { supabase } from './supabaseClient'
+import { ATTACHMENT_COLUMNS, attachmentPaths, removeObjects, type Attachment } from './attachments'
+
+export type Bill = {
+  id: string
+  due_date: string
+  category: string
+  amount: number
+  paid: boolean
+  paid_at: string | null
+  recurring: boolean
+  recur_day: number | null
+  series_id: string | null // recurring bills: the series this month belongs to
+  edited: boolean // changed on its own; series edits leave it alone
+  account_id: string | null // account the bill is paid from
+  payee_id: string | null
+  payments?: BillPayment[]
+  attachments?: Attachment[]
+}
+
+// One payment toward a bill, booked as its own expense.
+export type BillPayment = {
+  id: string
+  paid_on: string
+  amount: number
+  note: string | null
+  transaction_id: string | null
+  account_id: string | null // paid from
+  reference: string | null // receipt / confirmation number
+  settles: boolean // closes the bill even if the amounts differ
+}
+
+// Terms of a recurring bill; each month's bill is an instance of it.
+export type BillSeries = {
+  id: string
+  category: string
+  amount: number
+  recur_day: number
+  account_id: string | null
+  starts_on: string
+  stop_date: string | null
+  active: boolean
+}
+
+export const PAYMENT_COLUMNS = 'payments:bill_payments(id,paid_on,amount,note,transaction_id,account_id,reference,settles)'
+
+export const BILL_COLUMNS =
+  `id,due_date,category,amount,paid,paid_at,recurring,recur_day,series_id,edited,account_id,payee_id,${PAYMENT_COLUMNS},${ATTACHMENT_COLUMNS}`
+
+export const SERIES_COLUMNS = 'id,category,amount,recur_day,account_id,starts_on,stop_date,active'
+
+// How far ahead recurring bills are created.
+export const BILL_HORIZON_DAYS = 31
+
+// Creates any missing instances up to the horizon; safe to call on every load.
+export async function generateRecurringBills(): Promise<{ error: string | null; created: number }> {
+  const horizon = new Date(Date.now() + BILL_HORIZON_DAYS * 86_400_000).toISOString().slice(0, 10)
+  const { data, error } = await supabase.rpc('generate_recurring_bills', { horizon })
+  return { error: error?.message ?? null, created: Number(data ?? 0) }
+}
+
+// New terms apply to unpaid instances due today or later; paid and past ones keep theirs.
+export async function updateSeries(
+  id: string,
+  terms: { amount: number; recur_day: number; stop_date: string | null },
+): Promise<string | null> {
+  const { error } = await supabase.rpc('update_bill_series', {
+    sid: id,
+    new_amount: terms.amount,
+    new_day: terms.recur_day,
+    new_stop_date: terms.stop_date,
+  })
+  return error?.message ?? null
+}
+
+export const paidTotal = (b: Pick<Bill, 'payments'>) =>
+  Math.round((b.payments ?? []).reduce((a, p) => a + Number(p.amount), 0) * 100) / 100
+
+export const remaining = (b: Pick<Bill, 'amount' | 'payments'>) =>
+  Math.max(0, Math.round((Number(b.amount) - paidTotal(b)) * 100) / 100)
+
+// Paid minus billed, once the bill is paid: a late fee shows as positive.
+export const variance = (b: Pick<Bill, 'amount' | 'paid' | 'payments'>) =>
+  b.paid ? Math.round((paidTotal(b) - Number(b.amount)) * 100) / 100 : 0
+
+export type NewPayment = {
+  paid_on: string
+  amount: number
+  note?: string
+  account_id?: string | null
+  reference?: string
+}
+
+// One installment. The server books the expense with the same date, amount
+// and account, and marks the bill paid once the payments cover it.
+export async function addPayment(billId: string, payment: NewPayment): Promise<string | null> {
+  const { error } = await supabase.rpc('add_bill_payment', {
+    bid: billId,
+    pay_date: payment.paid_on,
+    pay_amount: payment.amount,
+    pay_note: payment.note ?? null,
+    pay_account: payment.account_id || null,
+    pay_reference: payment.reference ?? null,
+  })
+  return error?.message ?? null
+}
+
+// Pay and close the bill in one server call; returns the updated bill.
+export async function payBill(
+  billId: string,
+  payment: Pick<NewPayment, 'paid_on' | 'amount' | 'account_id' | 'reference'>,
+): Promise<{ error: string | null; bill: Bill | null }> {
+  const { data, error } = await supabase.rpc('pay_bill', {
+    bid: billId,
+    pay_date: payment.paid_on,
+    pay_amount: payment.amount,
+    pay_account: payment.account_id || null,
+    pay_reference: payment.reference ?? null,
+  })
+  return { error: error?.message ?? null, bill: (data as Bill | null) ?? null }
+}
+
+// Removes every payment and its expense in one server call.
+export async function unpayBill(bill: Bill): Promise<{ error: string | null; bill: Bill | null }> {
+  const txIds = (bill.payments ?? []).map(p => p.transaction_id).filter((id): id is string => !!id)
+  const paths = await attachmentPaths({ transactions: txIds })
+  const { data, error } = await supabase.rpc('unpay_bill', { bid: bill.id })
+  if (error) return { error: error.message, bill: null }
+  await removeObjects(paths)
+  return { error: null, bill: { ...(data as Bill), payments: [] } }
+}
+
+export type BillEdit = {
+  due_date: string
+  category: string
+  amount: number
+  account_id: string | null
+  payee_id: string | null
+  recur_day: number | null // null = one-time; stops a recurring bill's series after it
+  apply_to_series: boolean // also this and later unpaid bills of the series
+  sync_expenses: boolean // payment expenses follow category, payee and (single payment) amount
+}
+
+// Every field of a bill in one server call; the server re-settles it after.
+export async function editBill(id: string, edit: BillEdit): Promise<string | null> {
+  const { error } = await supabase.rpc('edit_bill', {
+    bid: id,
+    new_due: edit.due_date,
+    new_category: edit.category,
+    new_amount: edit.amount,
+    new_account: edit.account_id || null,
+    new_payee: edit.payee_id || null,
+    new_recur_day: edit.recur_day,
+    apply_to_series: edit.apply_to_series,
+    sync_expenses: edit.sync_expenses,
+  })
+  return error?.message ?? null
+}
+
+// Trashes the bill with its payment expenses; returns the trashed bill.
+export async function deleteBill(id: string): Promise<{ error: string | null; bill: Bill | null }> {
+  const { data, error } = await supabase.rpc('delete_bill', { bid: id })
+  return { error: error?.message ?? null, bill: (data as Bill | null) ?? null }
+}
+
+// Deletes the payment's expense too; the bill reopens if no longer covered.
+export async function removePayment(p: BillPayment): Promise<string | null> {
+  const paths = p.transaction_id ? await attachmentPaths({ transactions: [p.transaction_id] }) : []
+  const { error } = await supabase.rpc('remove_bill_payment', { pid: p.id })
+  if (error) return error.message
+  await removeObjects(paths)
+  return null
+}
+
+export type BillStatus = 'overdue' | 'due_today' | 'partially_paid' | 'due_soon' | 'upcoming' | 'paid_late' | 'paid_on_time'
+
+// Unpaid bills due within this many days count as "due soon".
+export const DUE_SOON_DAYS = 7
+
+// Listed most to least urgent; the order is also the status sort order.
+export const BILL_STATUSES: { status: BillStatus; label: string; tone: string }[] = [
+  { status: 'overdue', label: 'Overdue', tone: 'bg-rose-100 text-rose-800' },
+  { status: 'due_today', label: 'Due today', tone: 'bg-orange-100 text-orange-800' },
+  { status: 'partially_paid', label: 'Partially paid', tone: 'bg-sky-100 text-sky-800' },
+  { status: 'due_soon', label: 'Due soon', tone: 'bg-amber-100 text-amber-800' },
+  { status: 'upcoming', label: 'Upcoming', tone: 'bg-slate-100 text-slate-700' },
+  { status: 'paid_late', label: 'Paid late', tone: 'bg-violet-100 text-violet-800' },
+  { status: 'paid_on_time', label: 'Paid on time', tone: 'bg-emerald-100 text-emerald-800' },
+]
+
+export const statusMeta = (st: BillStatus) => BILL_STATUSES.find(x => x.status === st)!
+export const statusRank = (st: BillStatus) => BILL_STATUSES.findIndex(x => x.status === st)
+
+const localDate = (d: Date) => format(d, 'yyyy-MM-dd')
+
+// Derived from due_date, paid_at and payments; `today` is a local YYYY-MM-DD.
+// Lateness wins over a partial payment: a half-paid bill past due is overdue.
+export function billStatus(b: Pick<Bill, 'due_date' | 'paid' | 'paid_at' | 'payments'>, today = localDate(new Date())): BillStatus {
+  if (b.paid) {
+    const paidOn = b.paid_at ? localDate(new Date(b.paid_at)) : b.due_date
+    return paidOn > b.due_date ? 'paid_late' : 'paid_on_time'
+  }
+  if (b.due_date < today) return 'overdue'
+  if (b.due_date === today) return 'due_today'
+  if (b.payments?.length) return 'partially_paid'
+  return differenceInCalendarDays(parseISO(b.due_date), parseISO(today)) <= DUE_SOON_DAYS ? 'due_soon' : 'upcoming'
+}
+
+// "3 days late", "due in 5 days"; empty for paid bills.
+export function dueHint(b: Pick<Bill, 'due_date' | 'paid'>, today = localDate(new Date())) {
+  if (b.paid) return ''
+  const days = differenceInCalendarDays(parseISO(b.due_date), parseISO(today))
+  if (days === 0) return 'due today'
+  if (days < 0) return `${-days} day${days === -1 ? '' : 's'} late`
+  return `due in ${days} day${days === 1 ? '' : 's'}`
+}
+
+// ---------- consistency check (admins) ----------
+export type BillIssueKind =
+  | 'paid_without_payment'
+  | 'payment_without_expense'
+  | 'paid_flag_mismatch'
+  | 'expense_of_trashed_bill'
+  | 'orphan_expense'
+
+export type BillIssue = {
+  kind: BillIssueKind
+  ref_id: string // bill, payment or transaction, per kind
+  bill_id: string | null
+  category: string
+  amount: number
+  day: string
+  detail: string
+}
+
+export const ISSUE_KINDS: { kind: BillIssueKind; label: string; fix: string }[] = [
+  { kind: 'paid_without_payment', label: 'Paid, no expense', fix: 'Book the expense' },
+  { kind: 'payment_without_expense', label: 'Payment, no expense', fix: 'Restore or book the expense' },
+  { kind: 'paid_flag_mismatch', label: 'Paid flag wrong', fix: 'Recompute from payments' },
+  { kind: 'expense_of_trashed_bill', label: 'Expense of a trashed bill', fix: 'Move expense to Trash' },
+  { kind: 'orphan_expense', label: 'Orphaned bill expense', fix: 'Move expense to Trash' },
+]
+
+export async function fetchBillIssues(): Promise<{ error: string | null; rows: BillIssue[] }> {
+  const { data, error } = await supabase.rpc('bill_consistency_issues')
+  if (error) return { error: error.message, rows: [] }
+  return { error: null, rows: (data as BillIssue[]) ?? [] }
+}
+
+export async function repairBillIssue(issue: BillIssue): Promise<string | null> {
+  const { error } = await supabase.rpc('repair_bill_issue', { kind: issue.kind, ref_id: issue.ref_id })
+  return error?.message ?? null
+}
@@ -0,0 +1,61 @@
+// src/lib/categories.ts
+import { supabase } from './supabaseClient'
+import { createListStore } from './listStore'
+import type { CategoryMap, TxType } from './transactions'
+
+export type CategoryKind = TxType | 'bill'
+export type Category = {
+  id: string
+  kind: CategoryKind
+  name: string
+  color: string
+  sort_order: number
+  archived: boolean
+  unit_label: string | null // income streams sold by the unit ("page", "gallon")
+  unit_price: number | null // default price per unit
+  spike_pct: number | null // bills: flag amounts this % above their average (null = default)
+}
+
+export const CATEGORY_KINDS: CategoryKind[] = ['income', 'expense', 'savings', 'bill']
+
+// One shared copy of the catalog for every screen; reloadCategories() refreshes it.
+const catalog = createListStore<Category>(() =>
+  supabase
+    .from('categories')
+    .select('id,kind,name,color,sort_order,archived,unit_label,unit_price,spike_pct')
+    .order('kind')
+    .order('sort_order')
+    .order('name'),
+)
+
+export const reloadCategories = catalog.reload
+export const useCategories = catalog.use
+
+export const byKind = (items: Category[], kind: CategoryKind, includeArchived = false) =>
+  items.filter(c => c.kind === kind && (includeArchived || !c.archived))
+
+// Names offered in pickers (active only, catalog order).
+export const activeNames = (items: Category[], kind: CategoryKind) => byKind(items, kind).map(c => c.name)
+
+// Names accepted when validating a transaction. Archived names stay valid for
+// existing rows, and paid bills book expenses under their bill category.
+export function validCategoryMap(items: Category[]): CategoryMap {
+  const names = (kind: CategoryKind) => byKind(items, kind, true).map(c => c.name)
+  return {
+    income: names('income'),
+    expense: [...new Set([...names('expense'), ...names('bill')])],
+    savings: names('savings'),
+  }
+}
+
+export function colorOf(items: Category[], kind: CategoryKind, name: string) {
+  const hit = items.find(c => c.kind === kind && c.name === name)
+    ?? (kind === 'expense' ? items.find(c => c.kind === 'bill' && c.name === name) : undefined)
+  return hit?.color ?? '#94a3b8'
+}
+
+// Unit definition of an income stream, if it sells by the unit.
+export function unitOf(items: Category[], name: string) {
+  const c = items.find(x => x.kind === 'income' && x.name === name)
+  return c?.unit_label ? { label: c.unit_label, price: Number(c.unit_price) || 0 } : null
+}
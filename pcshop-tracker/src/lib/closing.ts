@@ -0,0 +1,40 @@
+// src/lib/closing.ts
+
+// Philippine peso bills and coins, largest first.
+export const DENOMINATIONS = [1000, 500, 200, 100, 50, 20, 10, 5, 1, 0.25]
+
+// quantity per denomination, per stream: counts[stream][denomination]
+export type CashCount = Record<string, Record<number, number>>
+
+export type Closing = {
+  id: string
+  date: string
+  expected_total: number
+  counted_total: number
+  variance: number
+  notes: string | null
+  closed_at: string
+  closer?: { full_name: string | null } | null
+}
+
+export type ClosingStream = { stream: string; expected: number; counted: number; variance: number }
+
+export const CLOSING_COLUMNS =
+  'id,date,expected_total,counted_total,variance,notes,closed_at,closer:profiles!daily_closings_closed_by_fkey(full_name)'
+
+export const streamTotal = (byDenom: Record<number, number> | undefined) =>
+  Object.entries(byDenom ?? {}).reduce((a, [d, q]) => a + Number(d) * (q || 0), 0)
+
+// Payload for close_day(): one row per non-zero stream/denomination.
+export const countRows = (counts: CashCount) =>
+  Object.entries(counts).flatMap(([stream, byDenom]) =>
+    Object.entries(byDenom)
+      .filter(([, q]) => q > 0)
+      .map(([d, q]) => ({ stream, denomination: Number(d), quantity: q })),
+  )
+
+export const varianceTone = (v: number) =>
+  Math.abs(v) < 0.005 ? 'text-emerald-700' : v < 0 ? 'text-rose-700' : 'text-amber-700'
+
+export const varianceLabel = (v: number) =>
+  Math.abs(v) < 0.005 ? 'Balanced' : v < 0 ? 'Short' : 'Over'
@@ -0,0 +1,57 @@
+// src/lib/csv.ts
+export const csvEscape = (val: unknown) => {
+  if (val === null || val === undefined) return ''
+  const s = String(val)
+  const mustQuote = /[",\n\r]/.test(s)
+  const body = s.replace(/"/g, '""')
+  return mustQuote ? `"${body}"` : body
+}
+
+export const downloadCSV = (filename: string, rows: string[][]) => {
+  const bom = '\uFEFF'
+  const csv = rows.map(r => r.map(csvEscape).join(',')).join('\r\n')
+  const blob = new Blob([bom + csv], { type: 'text/csv;charset=utf-8;' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
+
+// RFC 4180 reader: quoted fields, "" escapes, CRLF/LF rows, leading BOM.
+export function parseCSV(text: string): string[][] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') { field += '"'; i++ }
+        else quoted = false
+      } else {
+        field += ch
+      }
+      continue
+    }
+    if (ch === '"') quoted = true
+    else if (ch === ',') { row.push(field); field = '' }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++
+      row.push(field); rows.push(row)
+      row = []; field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || row.length) { row.push(field); rows.push(row) }
+
+  // drop blank lines
+  return rows.filter(r => r.some(c => c.trim() !== ''))
+}
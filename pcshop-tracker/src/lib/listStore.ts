@@ -0,0 +1,38 @@
+// src/lib/listStore.ts
+import { useEffect, useSyncExternalStore } from 'react'
+
+export type ListSnapshot<T> = { items: T[]; loaded: boolean; error: string | null }
+
+type ListResult = { data: unknown; error: { message: string } | null }
+
+// One shared copy of a list for every screen (category catalog, accounts,
+// payees). `use()` loads it on first use; `reload()` refreshes it everywhere.
+// A failed reload keeps the last good items and reports the error.
+export function createListStore<T>(loader: () => PromiseLike<ListResult>) {
+  let store: ListSnapshot<T> = { items: [], loaded: false, error: null }
+  let pending: Promise<void> | null = null
+  const listeners = new Set<() => void>()
+
+  const subscribe = (fn: () => void) => {
+    listeners.add(fn)
+    return () => { listeners.delete(fn) }
+  }
+  const getSnapshot = () => store
+
+  const reload = () => {
+    pending = (async () => {
+      const { data, error } = await loader()
+      store = { items: error ? store.items : ((data || []) as T[]), loaded: true, error: error?.message ?? null }
+      listeners.forEach(fn => fn())
+    })()
+    return pending
+  }
+
+  const use = () => {
+    const snap = useSyncExternalStore(subscribe, getSnapshot)
+    useEffect(() => { if (!pending) reload() }, [])
+    return snap
+  }
+
+  return { reload, use }
+}
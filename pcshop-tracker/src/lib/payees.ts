@@ -0,0 +1,51 @@
+// src/lib/payees.ts
+import { supabase } from './supabaseClient'
+import { createListStore } from './listStore'
+
+// Who a bill or expense is paid to.
+export type Payee = {
+  id: string
+  name: string
+  account_number: string | null // our account no. with them
+  contact: string | null
+  default_category: string | null
+  default_account_id: string | null // usual payment method
+  notes: string | null
+  archived: boolean
+}
+
+export type PayeeYear = {
+  year: number
+  total: number
+  payments: number
+  months: number // months with at least one payment
+  avg_monthly: number
+}
+
+export const PAYEE_COLUMNS = 'id,name,account_number,contact,default_category,default_account_id,notes,archived'
+
+// Shared list for pickers.
+const payees = createListStore<Payee>(() => supabase.from('payees').select(PAYEE_COLUMNS).order('name'))
+
+export const reloadPayees = payees.reload
+export const usePayees = payees.use
+
+export const activePayees = (items: Payee[]) => items.filter(p => !p.archived)
+
+export const payeeName = (items: Payee[], id: string | null | undefined) =>
+  items.find(p => p.id === id)?.name ?? ''
+
+export async function fetchPayeeTotals(id: string): Promise<{ error: string | null; rows: PayeeYear[] }> {
+  const { data, error } = await supabase.rpc('payee_totals', { pid: id })
+  if (error) return { error: error.message, rows: [] }
+  return {
+    error: null,
+    rows: ((data || []) as PayeeYear[]).map(r => ({
+      ...r,
+      total: Number(r.total),
+      payments: Number(r.payments),
+      months: Number(r.months),
+      avg_monthly: Number(r.avg_monthly),
+    })),
+  }
+}
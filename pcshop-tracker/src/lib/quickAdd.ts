@@ -0,0 +1,156 @@
+// src/lib/quickAdd.ts
+import { addDays, format, isValid, parse, subDays } from 'date-fns'
+import { TX_TYPES, type CategoryMap, type TxType } from './transactions'
+
+// Result of reading one line like "1500 printing yesterday bond paper".
+export type QuickAdd = {
+  amount: number | null
+  type: TxType | null
+  category: string | null
+  date: string // YYYY-MM-DD, today when the line names no date
+  note: string
+}
+
+const TYPE_WORDS: Record<string, TxType> = {
+  in: 'income', inc: 'income', income: 'income', sale: 'income', sales: 'income', sold: 'income',
+  exp: 'expense', expense: 'expense', out: 'expense', spent: 'expense', paid: 'expense', bought: 'expense',
+  sav: 'savings', save: 'savings', saved: 'savings', savings: 'savings',
+}
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const WEEKDAYS = WEEKDAY_NAMES.map(d => d.slice(0, 3))
+
+// 1500, 1,500.50, ₱320, php320, 1.5k
+const AMOUNT_RE = /^(?:₱|php)?(\d[\d,]*(?:\.\d+)?)(k)?$/i
+
+// absolute dates; day/month forms pick up the current year
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/MM/dd', 'M/d/yyyy', 'M/d', 'M-d']
+const MONTH_DAY_FORMATS = ['MMM d', 'MMMM d', 'd MMM', 'd MMMM', 'MMM d yyyy', 'd MMM yyyy']
+
+const iso = (d: Date) => format(d, 'yyyy-MM-dd')
+
+// Date named by tokens[i] (and sometimes the next one or two); returns the
+// date and how many tokens it used, or null.
+function readDate(tokens: string[], i: number, today: Date): { date: string; used: number } | null {
+  const w = tokens[i].toLowerCase()
+  if (w === 'today' || w === 'tdy') return { date: iso(today), used: 1 }
+  if (w === 'yesterday' || w === 'yday' || w === 'yest') return { date: iso(subDays(today, 1)), used: 1 }
+  if (w === 'tomorrow' || w === 'tmrw') return { date: iso(addDays(today, 1)), used: 1 }
+
+  // "3d", "3d ago", "3 days ago"
+  const short = /^(\d{1,3})d$/.exec(w)
+  if (short) {
+    const used = tokens[i + 1]?.toLowerCase() === 'ago' ? 2 : 1
+    return { date: iso(subDays(today, Number(short[1]))), used }
+  }
+  if (/^\d{1,3}$/.test(w) && /^days?$/i.test(tokens[i + 1] ?? '') && tokens[i + 2]?.toLowerCase() === 'ago') {
+    return { date: iso(subDays(today, Number(w))), used: 3 }
+  }
+
+  // "mon", "last friday": the most recent such day, today included
+  const last = w === 'last' && tokens[i + 1] ? 1 : 0
+  const word = (last ? tokens[i + 1] : w).toLowerCase()
+  const day = WEEKDAYS.indexOf(word.slice(0, 3))
+  if (day >= 0 && word.length >= 3 && WEEKDAY_NAMES[day].startsWith(word)) {
+    const back = (today.getDay() - day + 7) % 7 || (last ? 7 : 0)
+    return { date: iso(subDays(today, back)), used: 1 + last }
+  }
+
+  for (const f of DATE_FORMATS) {
+    if (f.includes('y') !== /\d{4}/.test(w)) continue
+    const d = parse(w, f, today)
+    if (isValid(d)) return { date: iso(d), used: 1 }
+  }
+  // "oct 5", "5 october", "oct 5 2025"
+  for (const n of [3, 2]) {
+    const text = tokens.slice(i, i + n).join(' ')
+    for (const f of MONTH_DAY_FORMATS) {
+      if (f.split(' ').length !== n) continue
+      const d = parse(text, f, today)
+      if (isValid(d)) return { date: iso(d), used: n }
+    }
+  }
+  return null
+}
+
+function distance(a: string, b: string) {
+  const dp = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let prev = dp[0]
+    dp[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = dp[j]
+      dp[j] = Math.min(dp[j] + 1, dp[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1))
+      prev = tmp
+    }
+  }
+  return dp[b.length]
+}
+
+// 1 = same name; prefixes of at least 3 letters score high; typos by edit distance.
+function similarity(text: string, name: string) {
+  const a = text.toLowerCase()
+  const b = name.toLowerCase()
+  if (a === b) return 1
+  if (a.length >= 3 && b.startsWith(a)) return 0.9
+  if (b.length >= 3 && a.startsWith(b)) return 0.85
+  return 1 - distance(a, b) / Math.max(a.length, b.length)
+}
+
+const MIN_SCORE = 0.75
+
+// Best category for any run of 1–3 words. Ties go to the shorter run, then the
+// earlier word, then catalog order, so the same line always reads the same way.
+function matchCategory(words: string[], cats: CategoryMap, type: TxType | null) {
+  let best: { type: TxType; name: string; start: number; len: number; score: number } | null = null
+  for (const t of type ? [type] : TX_TYPES) {
+    for (const name of cats[t]) {
+      for (let len = 1; len <= 3; len++) {
+        for (let start = 0; start + len <= words.length; start++) {
+          const score = similarity(words.slice(start, start + len).join(' '), name) - len * 0.001
+          if (score >= MIN_SCORE && (!best || score > best.score || (score === best.score && start < best.start))) {
+            best = { type: t, name, start, len, score }
+          }
+        }
+      }
+    }
+  }
+  return best
+}
+
+// Deterministic: the same line, catalog and day always give the same result.
+export function parseQuickAdd(line: string, cats: CategoryMap, today = new Date()): QuickAdd {
+  const tokens = line.trim().split(/\s+/).filter(Boolean)
+  let amount: number | null = null
+  let type: TxType | null = null
+  let date: string | null = null
+  const rest: string[] = []
+
+  for (let i = 0; i < tokens.length; i++) {
+    const tok = tokens[i]
+    const low = tok.toLowerCase()
+    const d: ReturnType<typeof readDate> = date === null ? readDate(tokens, i, today) : null
+    // "5 oct" and "3 days ago" are dates even though they start with a number
+    const money: RegExpExecArray | null = amount === null && !(d && d.used > 1) ? AMOUNT_RE.exec(tok) : null
+    if (money) {
+      amount = Number(money[1].replace(/,/g, '')) * (money[2] ? 1000 : 1)
+    } else if (type === null && TYPE_WORDS[low]) {
+      type = TYPE_WORDS[low]
+    } else if (d) {
+      date = d.date
+      i += d.used - 1
+    } else {
+      rest.push(tok)
+    }
+  }
+
+  const hit = matchCategory(rest, cats, type)
+  const note = hit ? [...rest.slice(0, hit.start), ...rest.slice(hit.start + hit.len)] : rest
+  return {
+    amount: amount !== null && amount > 0 ? amount : null,
+    type: type ?? hit?.type ?? null,
+    category: hit?.name ?? null,
+    date: date ?? iso(today),
+    note: note.join(' '),
+  }
+}
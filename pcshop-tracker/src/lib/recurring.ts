@@ -0,0 +1,70 @@
+// src/lib/recurring.ts
+import { supabase } from './supabaseClient'
+import type { TxType } from './transactions'
+
+export type Frequency = 'daily' | 'weekly' | 'monthly' | 'custom'
+export type IntervalUnit = 'day' | 'week' | 'month'
+
+export type RecurringTemplate = {
+  id: string
+  type: TxType
+  category: string
+  amount: number
+  note: string | null
+  account_id: string | null
+  tags: string[]
+  frequency: Frequency
+  interval_count: number // custom only: every N units
+  interval_unit: IntervalUnit
+  start_date: string
+  end_date: string | null
+  active: boolean
+}
+
+export type OccurrenceStatus = 'pending' | 'posted' | 'skipped'
+
+// One scheduled date of a template, with any per-date edits applied.
+export type Occurrence = {
+  template_id: string
+  occurs_on: string
+  type: TxType
+  category: string
+  amount: number
+  note: string | null
+  status: OccurrenceStatus
+  transaction_id: string | null
+  edited: boolean
+}
+
+export const FREQUENCIES: { value: Frequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Every…' },
+]
+
+export const INTERVAL_UNITS: IntervalUnit[] = ['day', 'week', 'month']
+
+export const TEMPLATE_COLUMNS =
+  'id,type,category,amount,note,account_id,tags,frequency,interval_count,interval_unit,start_date,end_date,active'
+
+// "Monthly from 2025-10-01 until 2026-03-31", "Every 2 weeks from …"
+export function describeRule(t: Pick<RecurringTemplate, 'frequency' | 'interval_count' | 'interval_unit' | 'start_date' | 'end_date'>) {
+  const every = t.frequency === 'custom'
+    ? `Every ${t.interval_count === 1 ? t.interval_unit : `${t.interval_count} ${t.interval_unit}s`}`
+    : FREQUENCIES.find(f => f.value === t.frequency)?.label ?? t.frequency
+  return `${every} from ${t.start_date}${t.end_date ? ` until ${t.end_date}` : ''}`
+}
+
+// Posts every due occurrence up to today. Safe to call repeatedly: the server
+// records each (template, date) once, so nothing is posted twice.
+export async function postDueRecurring(): Promise<{ error: string | null; posted: number }> {
+  const { data, error } = await supabase.rpc('post_due_recurring')
+  return { error: error?.message ?? null, posted: Number(data ?? 0) }
+}
+
+export async function fetchUpcoming(from: string, to: string): Promise<{ error: string | null; rows: Occurrence[] }> {
+  const { data, error } = await supabase.rpc('upcoming_recurring', { from_date: from, to_date: to })
+  if (error) return { error: error.message, rows: [] }
+  return { error: null, rows: ((data || []) as Occurrence[]).map(o => ({ ...o, amount: Number(o.amount) })) }
+}
@@ -0,0 +1,39 @@
+// src/lib/reminders.ts
+import { supabase } from './supabaseClient'
+
+// Per-user opt-in for the bill-reminders digest email (admins and editors).
+export type ReminderSettings = {
+  enabled: boolean
+  lead_days: number[] // remind this many days before the due date
+  overdue: boolean // one more reminder once a bill is late
+}
+
+export const DEFAULT_REMINDERS: ReminderSettings = { enabled: false, lead_days: [7, 1], overdue: true }
+
+export const LEAD_CHOICES = [0, 1, 3, 7, 14, 30]
+
+export async function fetchReminderSettings(userId: string): Promise<{ error: string | null; settings: ReminderSettings }> {
+  const { data, error } = await supabase
+    .from('reminder_settings')
+    .select('enabled, lead_days, overdue')
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) return { error: error.message, settings: DEFAULT_REMINDERS }
+  return { error: null, settings: (data as ReminderSettings | null) ?? DEFAULT_REMINDERS }
+}
+
+export async function saveReminderSettings(userId: string, r: ReminderSettings) {
+  const lead_days = [...new Set(r.lead_days)].sort((a, b) => b - a)
+  const { error } = await supabase
+    .from('reminder_settings')
+    .upsert({ user_id: userId, enabled: r.enabled, lead_days, overdue: r.overdue, updated_at: new Date().toISOString() })
+  return error?.message ?? null
+}
+
+// Admins: send whatever is due now instead of waiting for the morning run.
+export async function sendRemindersNow(): Promise<{ error: string | null; emails: number }> {
+  const { data, error } = await supabase.functions.invoke('bill-reminders', { body: {} })
+  if (error) return { error: error.message, emails: 0 }
+  const res = data as { emails: number; failed: string[] }
+  return { error: res.failed?.length ? res.failed.join('; ') : null, emails: res.emails }
+}
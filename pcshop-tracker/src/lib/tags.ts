@@ -0,0 +1,24 @@
+// src/lib/tags.ts
+import { useEffect, useState } from 'react'
+import { supabase } from './supabaseClient'
+
+// Tags are stored trimmed, single-spaced and lower-case so "March Promo" and "march promo" match.
+export const normalizeTag = (t: string) => t.trim().replace(/\s+/g, ' ').toLowerCase()
+
+// "promo, PC build ,promo" -> ['promo', 'pc build']
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map(normalizeTag).filter(Boolean))]
+}
+
+// Tag names already in use (most used first), for autocomplete. Bump `reloadKey` after saving.
+export function useTagNames(reloadKey = 0): string[] {
+  const [names, setNames] = useState<string[]>([])
+  useEffect(() => {
+    let cancelled = false
+    supabase.rpc('transaction_tag_names').then(({ data }) => {
+      if (!cancelled && data) setNames((data as { tag: string }[]).map(r => r.tag))
+    })
+    return () => { cancelled = true }
+  }, [reloadKey])
+  return names
+}
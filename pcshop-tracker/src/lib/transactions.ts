@@ -0,0 +1,65 @@
+// src/lib/transactions.ts
+import type { Attachment } from './attachments'
+
+export type TxType = 'income' | 'expense' | 'savings'
+export type TxSplit = { id?: string; position?: number; category: string; amount: number; note?: string | null }
+export type Tx = {
+  id: string
+  date: string
+  type: TxType
+  category: string
+  amount: number
+  note?: string
+  tags?: string[]
+  account_id?: string // money account (cash drawer, GCash, bank…)
+  payee_id?: string | null // expenses: who was paid (see lib/payees.ts)
+  quantity?: number | null // unit sales: amount = quantity × unit_price
+  unit_price?: number | null
+  transaction_splits?: TxSplit[] // category lines when the row is split
+  attachments?: Attachment[]
+}
+
+export const TX_TYPES: TxType[] = ['income', 'expense', 'savings']
+
+// Category names per type; comes from the managed catalog (see lib/categories.ts).
+export type CategoryMap = Record<TxType, string[]>
+
+export const isTxType = (v: string): v is TxType => (TX_TYPES as string[]).includes(v)
+
+// Same rules the add form enforces; returns the first problem or null.
+export function validateTx(
+  t: { date: string; type: string; category: string; amount: number },
+  cats: CategoryMap,
+): string | null {
+  if (!t.date || !/^\d{4}-\d{2}-\d{2}$/.test(t.date)) return 'Date must be YYYY-MM-DD.'
+  if (!isTxType(t.type)) return `Unknown type "${t.type}".`
+  if (!cats[t.type].includes(t.category)) return `Category "${t.category}" is not valid for ${t.type}.`
+  if (!Number.isFinite(t.amount) || t.amount <= 0) return 'Amount must be a positive number.'
+  return null
+}
+
+// Split lines must each be valid for the parent's type and add up to its amount.
+export function validateSplits(type: TxType, amount: number, lines: TxSplit[], cats: CategoryMap): string | null {
+  if (lines.length === 0) return null
+  if (lines.length < 2) return 'A split needs at least two lines.'
+  for (const [i, l] of lines.entries()) {
+    if (!cats[type].includes(l.category)) return `Line ${i + 1}: category "${l.category}" is not valid for ${type}.`
+    if (!Number.isFinite(l.amount) || l.amount <= 0) return `Line ${i + 1}: amount must be a positive number.`
+  }
+  const cents = (n: number) => Math.round(n * 100)
+  const sum = lines.reduce((a, l) => a + cents(l.amount), 0)
+  if (sum !== cents(amount)) return 'Split lines must add up to the transaction amount.'
+  return null
+}
+
+// quantity × price rounded to centavos, or null until both are usable
+export function unitAmount(quantity: string, price: string): number | null {
+  const q = Number(quantity)
+  const p = Number(price)
+  if (!(q > 0) || !(p >= 0) || quantity.trim() === '' || price.trim() === '') return null
+  return Math.round(q * p * 100) / 100
+}
+
+// "12 pages × ₱5.00"-style summary without the currency (callers format it)
+export const unitCount = (quantity: number, label: string) =>
+  `${Number(quantity).toLocaleString()} ${label}${Number(quantity) === 1 ? '' : 's'}`
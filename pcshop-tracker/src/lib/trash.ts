@@ -0,0 +1,40 @@
+// src/lib/trash.ts
+import { supabase } from './supabaseClient'
+import { removeObjects } from './attachments'
+
+export type TrashTable = 'transactions' | 'bills' | 'savings_contributions'
+
+export const TRASH_TABLES: { table: TrashTable; label: string }[] = [
+  { table: 'transactions', label: 'Transactions' },
+  { table: 'bills', label: 'Bills' },
+  { table: 'savings_contributions', label: 'Savings' },
+]
+
+export const DEFAULT_RETENTION_DAYS = 30
+
+// Soft delete; bills and contributions take their linked transaction along.
+export async function trashRecord(table: TrashTable, id: string): Promise<string | null> {
+  const { error } = await supabase.rpc('trash_record', { tbl: table, rec_id: id })
+  return error?.message ?? null
+}
+
+export async function restoreRecord(table: TrashTable, id: string): Promise<string | null> {
+  const { error } = await supabase.rpc('restore_record', { tbl: table, rec_id: id })
+  return error?.message ?? null
+}
+
+// Admin only. Without a table/id, purges everything trashed longer than `retentionDays`.
+export async function purgeTrash(
+  retentionDays: number,
+  only?: { table: TrashTable; id: string },
+): Promise<{ error: string | null; purgedFiles: number }> {
+  const { data, error } = await supabase.rpc('purge_trash', {
+    retention_days: retentionDays,
+    only_table: only?.table ?? null,
+    only_id: only?.id ?? null,
+  })
+  if (error) return { error: error.message, purgedFiles: 0 }
+  const paths = (data as string[] | null) ?? []
+  await removeObjects(paths)
+  return { error: null, purgedFiles: paths.length }
+}
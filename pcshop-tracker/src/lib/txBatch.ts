@@ -0,0 +1,69 @@
+// src/lib/txBatch.ts
+import { supabase } from './supabaseClient'
+import { isTxType, type CategoryMap, type TxType } from './transactions'
+import { normalizeAmount, normalizeDate } from './txImport'
+
+export type BatchField = 'date' | 'type' | 'category' | 'amount' | 'account_id' | 'note'
+
+// Grid columns in tab order.
+export const BATCH_FIELDS: BatchField[] = ['date', 'type', 'category', 'amount', 'account_id', 'note']
+
+// One grid row, cells kept as typed; `key` is stable across edits for React.
+export type BatchRow = {
+  key: number
+  date: string
+  type: string
+  category: string
+  amount: string
+  account_id: string
+  note: string
+  error: string | null // from the last save attempt
+}
+
+export type CellErrors = Partial<Record<BatchField, string>>
+
+let nextKey = 1
+export const newRow = (init: Partial<BatchRow> = {}): BatchRow => ({
+  date: '', type: 'income', category: '', amount: '', account_id: '', note: '', ...init, error: null, key: nextKey++,
+})
+
+// Rows with nothing but the carried-over date/type/account are ignored on save.
+export const isBlank = (r: BatchRow) => !r.category.trim() && !r.amount.trim() && !r.note.trim()
+
+// Same rules as validateTx, but per cell so the grid can mark each one.
+export function cellErrors(r: BatchRow, cats: CategoryMap): CellErrors {
+  const errs: CellErrors = {}
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(normalizeDate(r.date))) errs.date = 'Use YYYY-MM-DD.'
+  if (!isTxType(r.type)) errs.type = 'Unknown type.'
+  else if (!cats[r.type].includes(r.category)) errs.category = r.category.trim() ? `Not a ${r.type} category.` : 'Required.'
+  const amt = normalizeAmount(r.amount)
+  if (!Number.isFinite(amt) || amt <= 0) errs.amount = 'Positive amount.'
+  return errs
+}
+
+// Case-insensitive prefix matches first, then substring matches.
+export function suggestCategories(names: string[], text: string, limit = 8) {
+  const t = text.trim().toLowerCase()
+  if (!t) return names.slice(0, limit)
+  const starts = names.filter(n => n.toLowerCase().startsWith(t))
+  const contains = names.filter(n => !n.toLowerCase().startsWith(t) && n.toLowerCase().includes(t))
+  return [...starts, ...contains].slice(0, limit)
+}
+
+export type BatchResult = { key: number; id: string | null; error: string | null }
+
+// One round trip; the server inserts rows independently and reports failures per row.
+export async function insertBatch(rows: BatchRow[]): Promise<{ error: string | null; results: BatchResult[] }> {
+  const entries = rows.map(r => ({
+    date: normalizeDate(r.date),
+    type: r.type as TxType,
+    category: r.category,
+    amount: normalizeAmount(r.amount),
+    note: r.note.trim(),
+    account_id: r.account_id || null,
+  }))
+  const { data, error } = await supabase.rpc('insert_transactions', { entries })
+  if (error) return { error: error.message, results: [] }
+  const out = (data || []) as { idx: number; id: string | null; error: string | null }[]
+  return { error: null, results: out.map(o => ({ key: rows[o.idx].key, id: o.id, error: o.error })) }
+}
@@ -0,0 +1,52 @@
+// src/lib/txBulk.ts
+import { supabase } from './supabaseClient'
+import { applyTxFilters, splitMatchIds, type TxFilters } from './txFilters'
+import type { Tx, TxType } from './transactions'
+
+export type BulkAction =
+  | { kind: 'category'; category: string }
+  | { kind: 'type'; type: TxType; category: string }
+  | { kind: 'date'; date: string }
+  | { kind: 'add_tags'; tags: string[] }
+  | { kind: 'remove_tags'; tags: string[] }
+  | { kind: 'delete' }
+  | { kind: 'restore' }
+
+export type BulkKind = BulkAction['kind']
+
+// What a bulk action needs to know about each selected row.
+export type BulkTarget = { id: string; type: TxType; amount: number; split: boolean; tags: string[] }
+
+export const toTarget = (r: Pick<Tx, 'id' | 'type' | 'amount' | 'tags' | 'transaction_splits'>): BulkTarget => ({
+  id: r.id,
+  type: r.type,
+  amount: Number(r.amount),
+  split: !!r.transaction_splits?.length,
+  tags: r.tags ?? [],
+})
+
+export async function bulkUpdate(ids: string[], action: BulkAction): Promise<{ error: string | null; changed: number }> {
+  const { kind, ...payload } = action
+  const { data, error } = await supabase.rpc('bulk_update_transactions', { ids, action: kind, payload })
+  return { error: error?.message ?? null, changed: Number(data ?? 0) }
+}
+
+const CHUNK = 1000 // PostgREST's default max rows per request
+
+// Every row matching the filters, not just the visible page.
+export async function filteredTargets(f: TxFilters): Promise<{ error: string | null; targets: BulkTarget[] }> {
+  const splitIds = await splitMatchIds(f.cats)
+  const targets: BulkTarget[] = []
+  for (let offset = 0; ; offset += CHUNK) {
+    const { data, error } = await applyTxFilters(
+      supabase.from('transactions').select('id,type,amount,tags,transaction_splits(id)'),
+      f,
+      splitIds,
+    )
+      .order('id')
+      .range(offset, offset + CHUNK - 1)
+    if (error) return { error: error.message, targets: [] }
+    targets.push(...(data as Tx[]).map(toTarget))
+    if (data.length < CHUNK) return { error: null, targets }
+  }
+}
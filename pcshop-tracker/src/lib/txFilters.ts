@@ -0,0 +1,95 @@
+// src/lib/txFilters.ts
+import { supabase } from './supabaseClient'
+import { isTxType, type TxType } from './transactions'
+
+export type TxFilters = {
+  from: string
+  to: string
+  type: TxType | ''
+  cats: string[]
+  tags: string[]
+  min: string
+  max: string
+  q: string
+}
+
+export const EMPTY_FILTERS: TxFilters = { from: '', to: '', type: '', cats: [], tags: [], min: '', max: '', q: '' }
+
+// URL <-> filters, so a filtered ledger view can be bookmarked or shared.
+export function filtersFromParams(p: URLSearchParams): TxFilters {
+  const type = p.get('type') ?? ''
+  return {
+    from: p.get('from') ?? '',
+    to: p.get('to') ?? '',
+    type: isTxType(type) ? type : '',
+    cats: p.getAll('cat'),
+    tags: p.getAll('tag'),
+    min: p.get('min') ?? '',
+    max: p.get('max') ?? '',
+    q: p.get('q') ?? '',
+  }
+}
+
+export function filtersToParams(f: TxFilters, page = 1): URLSearchParams {
+  const p = new URLSearchParams()
+  if (f.from) p.set('from', f.from)
+  if (f.to) p.set('to', f.to)
+  if (f.type) p.set('type', f.type)
+  for (const c of f.cats) p.append('cat', c)
+  for (const t of f.tags) p.append('tag', t)
+  if (f.min) p.set('min', f.min)
+  if (f.max) p.set('max', f.max)
+  if (f.q) p.set('q', f.q)
+  if (page > 1) p.set('page', String(page))
+  return p
+}
+
+const num = (v: string) => (v.trim() !== '' && Number.isFinite(Number(v)) ? Number(v) : null)
+
+// Escape LIKE wildcards so a note search for "50%" matches literally.
+const likeTerm = (q: string) => `%${q.trim().replace(/[\\%_]/g, m => `\\${m}`)}%`
+
+type TxQuery = ReturnType<ReturnType<typeof supabase.from>['select']>
+
+// PostgREST list literal: "a","b" with quotes escaped.
+const pgList = (values: string[]) => values.map(v => `"${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',')
+
+// `splitIds` are transactions with a split line in one of f.cats, so a
+// category filter also finds split rows whose headline category differs.
+export function applyTxFilters(query: TxQuery, f: TxFilters, splitIds: string[] = []): TxQuery {
+  let q = query.is('deleted_at', null) // skip rows in the Trash
+  if (f.from) q = q.gte('date', f.from)
+  if (f.to) q = q.lte('date', f.to)
+  if (f.type) q = q.eq('type', f.type)
+  if (f.cats.length) {
+    q = splitIds.length
+      ? q.or(`category.in.(${pgList(f.cats)}),id.in.(${splitIds.join(',')})`)
+      : q.in('category', f.cats)
+  }
+  const min = num(f.min)
+  const max = num(f.max)
+  if (min !== null) q = q.gte('amount', min)
+  if (max !== null) q = q.lte('amount', max)
+  if (f.q.trim()) q = q.ilike('note', likeTerm(f.q))
+  if (f.tags.length) q = q.contains('tags', f.tags) // every listed tag
+  return q
+}
+
+// Ids of split transactions with a line in one of `cats` (see applyTxFilters).
+export async function splitMatchIds(cats: string[]): Promise<string[]> {
+  if (!cats.length) return []
+  const { data } = await supabase.from('transaction_splits').select('transaction_id').in('category', cats)
+  return [...new Set((data || []).map(r => r.transaction_id as string))]
+}
+
+// Arguments for the transaction_totals() database function.
+export const totalsArgs = (f: TxFilters) => ({
+  from_date: f.from || null,
+  to_date: f.to || null,
+  tx_type: f.type || null,
+  categories: f.cats.length ? f.cats : null,
+  min_amount: num(f.min),
+  max_amount: num(f.max),
+  note_q: f.q.trim() ? likeTerm(f.q) : null,
+  tag_list: f.tags.length ? f.tags : null,
+})
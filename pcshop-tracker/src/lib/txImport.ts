@@ -0,0 +1,103 @@
+// src/lib/txImport.ts
+import { format, isValid, parse } from 'date-fns'
+import { isTxType, validateTx, type CategoryMap, type TxType } from './transactions'
+
+export type ImportField = 'date' | 'type' | 'category' | 'amount' | 'note'
+export type Mapping = Record<ImportField, number> // column index, -1 = not mapped
+
+export const IMPORT_FIELDS: ImportField[] = ['date', 'type', 'category', 'amount', 'note']
+export const REQUIRED_FIELDS: ImportField[] = ['date', 'type', 'category', 'amount']
+
+export type ImportRow = {
+  line: number // 1-based line in the source file (header = 1)
+  date: string
+  type: TxType | string
+  category: string
+  amount: number
+  note: string
+  error: string | null
+  duplicate: boolean
+}
+
+// Header aliases; the first set matches exportTransactionsCSV in Reports.tsx.
+const ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'txn date', 'transaction date', 'day'],
+  type: ['type', 'kind', 'txn type'],
+  category: ['category', 'cat', 'stream'],
+  amount: ['amount', 'amt', 'value', 'total'],
+  note: ['note', 'notes', 'memo', 'description', 'details', 'remarks'],
+}
+
+export function guessMapping(header: string[]): Mapping {
+  const norm = header.map(h => h.trim().toLowerCase())
+  const m = {} as Mapping
+  for (const f of IMPORT_FIELDS) m[f] = norm.findIndex(h => ALIASES[f].includes(h))
+  return m
+}
+
+// Spreadsheet cells arrive as strings (CSV) or string/number/Date (XLSX).
+export function cellText(v: unknown): string {
+  if (v === null || v === undefined) return ''
+  if (v instanceof Date) return isValid(v) ? format(v, 'yyyy-MM-dd') : ''
+  return String(v).trim()
+}
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/MM/dd', 'M/d/yyyy', 'M-d-yyyy', 'MMM d, yyyy', 'd MMM yyyy']
+
+// YYYY-MM-DD, or '' when no known format gives a real date ("2025-13-01").
+export function normalizeDate(raw: string): string {
+  let v = raw.trim()
+  if (!v) return ''
+  // ISO timestamps ("2025-03-01T00:00:00Z") → date part
+  if (/^\d{4}-\d{2}-\d{2}T/.test(v)) v = v.slice(0, 10)
+  for (const f of DATE_FORMATS) {
+    const d = parse(v, f, new Date())
+    if (isValid(d)) return format(d, 'yyyy-MM-dd')
+  }
+  return ''
+}
+
+export function normalizeAmount(raw: string): number {
+  const v = raw.replace(/[₱$,\s]|PHP/gi, '')
+  if (!v) return NaN
+  return Number(v)
+}
+
+export const dupKey = (t: { date: string; type: string; category: string; amount: number; note?: string | null }) =>
+  [t.date, t.type, t.category, Number(t.amount).toFixed(2), (t.note ?? '').trim().toLowerCase()].join('|')
+
+// Turn raw data rows (header already removed) into validated import rows.
+// `existing` holds dupKey() values of rows already in the database.
+export function buildRows(data: string[][], mapping: Mapping, existing: Set<string>, cats: CategoryMap): ImportRow[] {
+  const seen = new Set<string>()
+  const pick = (r: string[], f: ImportField) => (mapping[f] >= 0 ? r[mapping[f]] ?? '' : '')
+
+  return data.map((r, i) => {
+    const rawType = pick(r, 'type').toLowerCase()
+    const type = isTxType(rawType) ? rawType : pick(r, 'type')
+    const rawCat = pick(r, 'category')
+    // match categories case-insensitively, keep the canonical spelling
+    const category = isTxType(type)
+      ? cats[type].find(c => c.toLowerCase() === rawCat.toLowerCase()) ?? rawCat
+      : rawCat
+
+    const rawDate = pick(r, 'date').trim()
+    const row: ImportRow = {
+      line: i + 2,
+      date: normalizeDate(rawDate),
+      type,
+      category,
+      amount: normalizeAmount(pick(r, 'amount')),
+      note: pick(r, 'note'),
+      error: null,
+      duplicate: false,
+    }
+    row.error = rawDate && !row.date ? `Unrecognized date "${rawDate}".` : validateTx(row, cats)
+    if (!row.error) {
+      const key = dupKey(row)
+      row.duplicate = existing.has(key) || seen.has(key)
+      seen.add(key)
+    }
+    return row
+  })
+}
@@ -7,13 +7,25 @@ import { SessionProvider, useSession } from './lib/session'
 import Root from './routes/Root'
 import Dashboard from './routes/Dashboard'
 import Transactions from './routes/Transactions'
+import ImportTransactions from './routes/ImportTransactions'
+import BatchEntry from './routes/BatchEntry'
 import Bills from './routes/Bills'
+import BillHistory from './routes/BillHistory'
 import Savings from './routes/Savings'
 import AdminInvite from './routes/AdminInvite'
 import Auth from './routes/Auth' 
 import Reports from './routes/Reports' 
 import SetPassword from './routes/SetPassword'
 import AuditLog from './routes/AuditLog'
+import Categories from './routes/Categories'
+import Trash from './routes/Trash'
+import Accounts from './routes/Accounts'
+import AccountLedger from './routes/AccountLedger'
+import Closing from './routes/Closing'
+import Recurring from './routes/Recurring'
+import BillCheck from './routes/BillCheck'
+import Payees from './routes/Payees'
+import PayeeDetail from './routes/PayeeDetail'
 
 const router = createBrowserRouter([
   {
@@ -22,12 +34,24 @@ const router = createBrowserRouter([
     children: [
       { index: true, element: <Dashboard /> },
       { path: 'transactions', element: <Transactions /> },
+      { path: 'transactions/import', element: <ImportTransactions /> },
+      { path: 'transactions/batch', element: <BatchEntry /> },
+      { path: 'recurring', element: <Recurring /> },
       { path: 'bills', element: <Bills /> },
+      { path: 'bills/history', element: <BillHistory /> },
+      { path: 'payees', element: <Payees /> },
+      { path: 'payees/:id', element: <PayeeDetail /> },
       { path: 'savings', element: <Savings /> },
+      { path: 'accounts', element: <Accounts /> },
+      { path: 'accounts/:id', element: <AccountLedger /> },
+      { path: 'closing', element: <Closing /> },
       { path: 'reports', element: <Reports /> },
+      { path: 'trash', element: <Trash /> },
       { path: 'admin/invite', element: <AdminInvite /> }, // admin-only UI (component checks role)
       { path: 'set-password', element: <SetPassword /> },
       { path: 'audit', element: <AuditLog /> },
+      { path: 'admin/categories', element: <Categories /> },
+      { path: 'admin/bill-check', element: <BillCheck /> },
     ],
   },
 ])
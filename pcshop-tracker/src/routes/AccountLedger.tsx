@@ -0,0 +1,167 @@
+// src/routes/AccountLedger.tsx
+import { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { supabase } from '../lib/supabaseClient'
+import { fmtCurrency } from '../lib/currency'
+import { ACCOUNT_KINDS, useAccounts } from '../lib/accounts'
+import { styles as s, cx } from '../ui'
+
+const PAGE_SIZE = 50
+
+type Entry = {
+  date: string
+  source: 'transaction' | 'transfer'
+  source_id: string
+  kind: string // income | expense | savings | transfer_in | transfer_out
+  label: string
+  note: string | null
+  amount: number // signed: + in, − out
+  balance: number
+}
+
+export default function AccountLedger() {
+  const { id = '' } = useParams()
+  const accounts = useAccounts()
+  const account = accounts.items.find(a => a.id === id)
+
+  const [rows, setRows] = useState<Entry[]>([])
+  const [count, setCount] = useState(0)
+  const [page, setPage] = useState(1)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      setLoading(true); setError(null)
+      const offset = (page - 1) * PAGE_SIZE
+      const { data, error, count } = await supabase
+        .rpc('account_ledger', { acc: id, from_date: from || null, to_date: to || null }, { count: 'exact' })
+        .range(offset, offset + PAGE_SIZE - 1)
+      if (cancelled) return
+      setLoading(false)
+      if (error) return setError(error.message)
+      setRows(((data || []) as Entry[]).map(r => ({ ...r, amount: Number(r.amount), balance: Number(r.balance) })))
+      setCount(count ?? 0)
+    }
+    load()
+    return () => { cancelled = true }
+  }, [id, from, to, page])
+
+  const pages = Math.max(1, Math.ceil(count / PAGE_SIZE))
+  const setRange = (f: string, t: string) => { setFrom(f); setTo(t); setPage(1) }
+
+  if (accounts.loaded && !account) {
+    return <div className={cx(s.alert, 'm-4 border-rose-200 bg-rose-50 text-rose-700')}>Account not found.</div>
+  }
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <Link to="/accounts" className="text-sm text-indigo-700">← Accounts</Link>
+          <h1 className="text-lg font-semibold">{account?.name ?? 'Account'}</h1>
+          {account && (
+            <p className="text-sm text-slate-600">
+              {ACCOUNT_KINDS.find(k => k.kind === account.kind)?.label} • Opening {fmtCurrency(Number(account.opening_balance))} on {account.opened_on}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <div>
+            <label className="text-sm text-slate-600">From</label>
+            <input type="date" value={from} onChange={e => setRange(e.target.value, to)} className={s.input} />
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">To</label>
+            <input type="date" value={to} onChange={e => setRange(from, e.target.value)} className={s.input} />
+          </div>
+        </div>
+      </header>
+
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      {/* Mobile cards */}
+      <div className="grid gap-3 md:hidden">
+        {loading ? (
+          <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>Loading…</div>
+        ) : rows.length === 0 ? (
+          <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>No entries.</div>
+        ) : (
+          rows.map(r => (
+            <div key={`${r.source_id}-${r.kind}`} className={cx(s.card, 'p-3')}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium">{r.label}</div>
+                <div className={cx('text-sm font-semibold', r.amount >= 0 ? 'text-emerald-700' : 'text-rose-700')}>
+                  {r.amount >= 0 ? '+' : '−'}{fmtCurrency(Math.abs(r.amount))}
+                </div>
+              </div>
+              <div className="mt-1 flex items-center justify-between text-xs text-slate-600">
+                <span>{r.date} • {kindLabel(r.kind)}</span>
+                <span>Balance {fmtCurrency(r.balance)}</span>
+              </div>
+              {r.note && <div className="mt-1 text-sm">{r.note}</div>}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Desktop table */}
+      <div className={cx(s.card, 'hidden md:block')}>
+        <div className="overflow-auto">
+          <table className="w-full min-w-[760px] text-sm">
+            <thead>
+              <tr>
+                <th className={s.th}>Date</th>
+                <th className={s.th}>Entry</th>
+                <th className={s.th}>Note</th>
+                <th className={cx(s.th, 'text-right')}>In</th>
+                <th className={cx(s.th, 'text-right')}>Out</th>
+                <th className={cx(s.th, 'text-right')}>Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr><td className={s.td} colSpan={6}>Loading…</td></tr>
+              ) : rows.length === 0 ? (
+                <tr><td className={s.td} colSpan={6}>No entries.</td></tr>
+              ) : (
+                rows.map(r => (
+                  <tr key={`${r.source_id}-${r.kind}`} className="border-t hover:bg-slate-50/50">
+                    <td className={cx(s.td, 'whitespace-nowrap')}>{r.date}</td>
+                    <td className={s.td}>
+                      <div>{r.label}</div>
+                      <div className="text-xs text-slate-500">{kindLabel(r.kind)}</div>
+                    </td>
+                    <td className={s.td}>{r.note}</td>
+                    <td className={cx(s.td, 'text-right text-emerald-700')}>{r.amount > 0 ? fmtCurrency(r.amount) : ''}</td>
+                    <td className={cx(s.td, 'text-right text-rose-700')}>{r.amount < 0 ? fmtCurrency(-r.amount) : ''}</td>
+                    <td className={cx(s.td, 'text-right font-semibold', r.balance < 0 && 'text-rose-700')}>{fmtCurrency(r.balance)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-slate-600">
+        <span>{count} {count === 1 ? 'entry' : 'entries'} • Page {page} of {pages}</span>
+        <div className="inline-flex gap-2">
+          <button type="button" onClick={() => setPage(p => p - 1)} disabled={page <= 1 || loading} className={cx(s.btn, s.secondary, 'disabled:opacity-50')}>
+            Previous
+          </button>
+          <button type="button" onClick={() => setPage(p => p + 1)} disabled={page >= pages || loading} className={cx(s.btn, s.secondary, 'disabled:opacity-50')}>
+            Next
+          </button>
+        </div>
+      </div>
+    </section>
+  )
+}
+
+const kindLabel = (kind: string) =>
+  kind === 'transfer_in' ? 'Transfer in' : kind === 'transfer_out' ? 'Transfer out' : kind
@@ -0,0 +1,282 @@
+// src/routes/Accounts.tsx
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { formatISO } from 'date-fns'
+import { supabase } from '../lib/supabaseClient'
+import { fmtCurrency } from '../lib/currency'
+import { useSession } from '../lib/session'
+import {
+  ACCOUNT_KINDS, accountName, activeAccounts, fetchBalances, reloadAccounts, useAccounts,
+  type AccountBalance, type AccountKind,
+} from '../lib/accounts'
+import { styles as s, cx } from '../ui'
+
+type Transfer = {
+  id: string
+  date: string
+  from_account_id: string
+  to_account_id: string
+  amount: number
+  note: string | null
+}
+
+const today = () => formatISO(new Date(), { representation: 'date' })
+
+export default function Accounts() {
+  const { profile } = useSession()
+  const isAdmin = profile?.role === 'admin'
+  const canWrite = isAdmin || profile?.role === 'editor'
+  const accounts = useAccounts()
+  const active = activeAccounts(accounts.items)
+
+  const [balances, setBalances] = useState<AccountBalance[]>([])
+  const [transfers, setTransfers] = useState<Transfer[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const refresh = () => setReloadKey(k => k + 1)
+
+  // transfer form
+  const [tDate, setTDate] = useState(today())
+  const [fromId, setFromId] = useState('')
+  const [toId, setToId] = useState('')
+  const [tAmount, setTAmount] = useState('')
+  const [tNote, setTNote] = useState('')
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  // new account (admin)
+  const [name, setName] = useState('')
+  const [kind, setKind] = useState<AccountKind>('cash')
+  const [opening, setOpening] = useState('0')
+  const [openedOn, setOpenedOn] = useState(today())
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      const [bal, tr] = await Promise.all([
+        fetchBalances(),
+        supabase
+          .from('account_transfers')
+          .select('id,date,from_account_id,to_account_id,amount,note')
+          .order('date', { ascending: false })
+          .limit(50),
+      ])
+      if (cancelled) return
+      if (bal.error) return setError(bal.error)
+      if (tr.error) return setError(tr.error.message)
+      setBalances(bal.rows)
+      setTransfers((tr.data || []) as Transfer[])
+    }
+    load()
+    return () => { cancelled = true }
+  }, [reloadKey])
+
+  useEffect(() => {
+    const ids = activeAccounts(accounts.items).map(a => a.id)
+    setFromId(prev => (ids.includes(prev) ? prev : ids[0] ?? ''))
+    setToId(prev => (ids.includes(prev) ? prev : ids[1] ?? ''))
+  }, [accounts.items])
+
+  const addTransfer = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canWrite) return
+    setError(null)
+    const amount = Number(tAmount)
+    if (!(amount > 0)) return setError('Enter a positive amount.')
+    if (!fromId || !toId || fromId === toId) return setError('Pick two different accounts.')
+    const { error } = await supabase
+      .from('account_transfers')
+      .insert({ date: tDate, from_account_id: fromId, to_account_id: toId, amount, note: tNote || null })
+    if (error) return setError(error.message)
+    setTAmount(''); setTNote('')
+    refresh()
+  }
+
+  const delTransfer = async (t: Transfer) => {
+    if (!canWrite) return
+    const ok = window.confirm(
+      `Delete this transfer?\n\n` +
+      `${accountName(accounts.items, t.from_account_id)} → ${accountName(accounts.items, t.to_account_id)}\n` +
+      `Date:   ${t.date}\n` +
+      `Amount: ${fmtCurrency(Number(t.amount))}\n\n` +
+      `This cannot be undone.`
+    )
+    if (!ok) return
+    setDeletingId(t.id)
+    const { error } = await supabase.from('account_transfers').delete().eq('id', t.id)
+    setDeletingId(null)
+    if (error) return setError(error.message)
+    refresh()
+  }
+
+  const addAccount = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAdmin) return
+    const n = name.trim()
+    const bal = Number(opening)
+    if (!n) return
+    if (!Number.isFinite(bal)) return setError('Opening balance must be a number.')
+    setError(null)
+    const sort_order = accounts.items.reduce((m, a) => Math.max(m, a.sort_order), 0) + 1
+    const { error } = await supabase
+      .from('accounts')
+      .insert({ name: n, kind, opening_balance: bal, opened_on: openedOn, sort_order })
+    if (error) return setError(error.message)
+    setName(''); setOpening('0')
+    await reloadAccounts()
+    refresh()
+  }
+
+  const toggleArchive = async (b: AccountBalance) => {
+    if (!isAdmin) return
+    if (!b.archived && b.balance !== 0) {
+      const ok = window.confirm(`"${b.name}" still holds ${fmtCurrency(b.balance)}. Archive it anyway?`)
+      if (!ok) return
+    }
+    const { error } = await supabase.from('accounts').update({ archived: !b.archived }).eq('id', b.account_id)
+    if (error) return setError(error.message)
+    await reloadAccounts()
+    refresh()
+  }
+
+  const total = balances.filter(b => !b.archived).reduce((a, b) => a + b.balance, 0)
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-end justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold">Accounts</h1>
+          <p className="text-sm text-slate-600">Where the money sits. Transfers move money between accounts and are not income or expenses.</p>
+        </div>
+        <div className="text-right">
+          <div className="text-xs text-slate-500">All accounts</div>
+          <div className="text-lg font-semibold">{fmtCurrency(total)}</div>
+        </div>
+      </header>
+
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      {/* Balances */}
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 md:grid-cols-3">
+        {balances.map(b => (
+          <div key={b.account_id} className={cx(s.card, 'p-4', b.archived && 'opacity-60')}>
+            <div className="flex items-center justify-between gap-2">
+              <Link to={`/accounts/${b.account_id}`} className="font-semibold text-slate-800 hover:text-indigo-700">
+                {b.name}
+              </Link>
+              <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-600">
+                {ACCOUNT_KINDS.find(k => k.kind === b.kind)?.label ?? b.kind}{b.archived && ' • archived'}
+              </span>
+            </div>
+            <div className={cx('mt-2 text-2xl font-bold', b.balance < 0 && 'text-rose-600')}>{fmtCurrency(b.balance)}</div>
+            <div className="mt-1 text-xs text-slate-500">
+              Opening {fmtCurrency(b.opening_balance)} • In {fmtCurrency(b.inflow)} • Out {fmtCurrency(b.outflow)}
+            </div>
+            <div className="mt-3 flex items-center justify-between gap-2 text-sm">
+              <Link to={`/accounts/${b.account_id}`} className="font-medium text-indigo-700">View ledger →</Link>
+              {isAdmin && (
+                <button type="button" onClick={() => toggleArchive(b)} className="text-slate-500 hover:text-slate-800">
+                  {b.archived ? 'Restore' : 'Archive'}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Transfer */}
+      {canWrite && (
+        <form onSubmit={addTransfer} className={cx(s.card, 'grid grid-cols-1 gap-3 p-4 md:grid-cols-6')}>
+          <h2 className="text-sm font-semibold md:col-span-6">Transfer between accounts</h2>
+          <div>
+            <label className="text-sm text-slate-600">Date</label>
+            <input type="date" value={tDate} onChange={e => setTDate(e.target.value)} className={s.input} />
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">From</label>
+            <select value={fromId} onChange={e => setFromId(e.target.value)} className={s.select}>
+              {active.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">To</label>
+            <select value={toId} onChange={e => setToId(e.target.value)} className={s.select}>
+              {active.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">Amount</label>
+            <input type="number" step="0.01" value={tAmount} onChange={e => setTAmount(e.target.value)} className={s.input} placeholder="e.g., 5000" />
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-sm text-slate-600">Note</label>
+            <input value={tNote} onChange={e => setTNote(e.target.value)} className={s.input} placeholder="e.g., deposit day's sales" />
+          </div>
+          <div className="flex justify-end md:col-span-6">
+            <button type="submit" className={cx(s.btn, s.primary, 'w-full sm:w-auto')} disabled={!(Number(tAmount) > 0)}>
+              Record transfer
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Recent transfers */}
+      <div className={cx(s.card, 'p-4')}>
+        <h2 className="mb-3 text-sm font-semibold">Recent transfers</h2>
+        {transfers.length === 0 ? (
+          <div className="text-sm text-slate-500">No transfers yet.</div>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {transfers.map(t => (
+              <li key={t.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                <div>
+                  <div className="font-medium">
+                    {accountName(accounts.items, t.from_account_id)} → {accountName(accounts.items, t.to_account_id)}
+                  </div>
+                  <div className="text-xs text-slate-500">{t.date}{t.note && ` • ${t.note}`}</div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold">{fmtCurrency(Number(t.amount))}</span>
+                  {canWrite && (
+                    <button onClick={() => delTransfer(t)} className={cx(s.btn, s.danger, 'px-3')} disabled={deletingId === t.id}>
+                      {deletingId === t.id ? 'Deleting…' : 'Delete'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* New account */}
+      {isAdmin && (
+        <form onSubmit={addAccount} className={cx(s.card, 'grid grid-cols-1 gap-3 p-4 md:grid-cols-5')}>
+          <h2 className="text-sm font-semibold md:col-span-5">New account</h2>
+          <div>
+            <label className="text-sm text-slate-600">Name</label>
+            <input value={name} onChange={e => setName(e.target.value)} className={s.input} placeholder="e.g., Maya" />
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">Kind</label>
+            <select value={kind} onChange={e => setKind(e.target.value as AccountKind)} className={s.select}>
+              {ACCOUNT_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">Opening balance</label>
+            <input type="number" step="0.01" value={opening} onChange={e => setOpening(e.target.value)} className={s.input} />
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">As of</label>
+            <input type="date" value={openedOn} onChange={e => setOpenedOn(e.target.value)} className={s.input} />
+          </div>
+          <div className="flex items-end justify-end">
+            <button type="submit" className={cx(s.btn, s.primary, 'w-full sm:w-auto')} disabled={!name.trim()}>
+              Add account
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  )
+}
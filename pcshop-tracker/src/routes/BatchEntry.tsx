@@ -0,0 +1,372 @@
+// src/routes/BatchEntry.tsx
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { formatISO } from 'date-fns'
+import { fmtCurrency } from '../lib/currency'
+import { useSession } from '../lib/session'
+import { TX_TYPES, isTxType } from '../lib/transactions'
+import { activeNames, useCategories, validCategoryMap } from '../lib/categories'
+import { activeAccounts, useAccounts } from '../lib/accounts'
+import { normalizeAmount } from '../lib/txImport'
+import {
+  BATCH_FIELDS, cellErrors, insertBatch, isBlank, newRow, suggestCategories,
+  type BatchField, type BatchRow,
+} from '../lib/txBatch'
+import { styles as s, cx } from '../ui'
+
+const START_ROWS = 5
+const today = () => formatISO(new Date(), { representation: 'date' })
+
+// a new row carries over the previous row's date, type and account
+const nextRow = (prev?: BatchRow) =>
+  newRow({ date: prev?.date || today(), type: prev?.type ?? 'income', account_id: prev?.account_id ?? '' })
+
+const freshGrid = (prev?: BatchRow) => Array.from({ length: START_ROWS }, () => nextRow(prev))
+
+const cell = 'w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100'
+const badCell = 'border-rose-300 bg-rose-50'
+
+export default function BatchEntry() {
+  const { profile } = useSession()
+  const canWrite = profile?.role === 'admin' || profile?.role === 'editor'
+  const catalog = useCategories()
+  const cats = useMemo(() => validCategoryMap(catalog.items), [catalog.items])
+  const accounts = useAccounts()
+
+  const [rows, setRows] = useState<BatchRow[]>(() => freshGrid())
+  // cells the user has left ("key:field"); errors show there, or everywhere after a save attempt
+  const [touched, setTouched] = useState<Set<string>>(new Set())
+  const [attempted, setAttempted] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [msg, setMsg] = useState<string | null>(null)
+
+  const refs = useRef(new Map<string, HTMLInputElement | HTMLSelectElement>())
+  const [focusTarget, setFocusTarget] = useState<{ key: number; field: BatchField } | null>(null)
+  useEffect(() => {
+    if (!focusTarget) return
+    const el = refs.current.get(`${focusTarget.key}:${focusTarget.field}`)
+    el?.focus()
+    if (el instanceof HTMLInputElement) el.select()
+    setFocusTarget(null)
+  }, [focusTarget])
+
+  const errors = useMemo(() => new Map(rows.map(r => [r.key, isBlank(r) ? {} : cellErrors(r, cats)])), [rows, cats])
+  const filled = rows.filter(r => !isBlank(r))
+  const ready = filled.filter(r => Object.keys(errors.get(r.key) ?? {}).length === 0)
+  const sum = (t: string) => ready.filter(r => r.type === t).reduce((a, r) => a + normalizeAmount(r.amount), 0)
+
+  const update = (key: number, patch: Partial<BatchRow>) =>
+    setRows(prev => prev.map(r => (r.key === key ? { ...r, ...patch, error: null } : r)))
+
+  const insertAfter = (i: number, row: BatchRow) => setRows(prev => [...prev.slice(0, i + 1), row, ...prev.slice(i + 1)])
+
+  const duplicate = (i: number, field: BatchField = 'amount') => {
+    const src = rows[i]
+    const copy = newRow({ ...src })
+    insertAfter(i, copy)
+    setFocusTarget({ key: copy.key, field })
+  }
+
+  const remove = (key: number) =>
+    setRows(prev => (prev.length > 1 ? prev.filter(r => r.key !== key) : [nextRow(prev[0])]))
+
+  // Enter / Shift+Enter move down / up a column; Ctrl+D duplicates; Ctrl+Enter saves.
+  // Tab is left to the browser: cells are in row order and buttons are skipped.
+  const onCellKey = (e: React.KeyboardEvent, i: number, field: BatchField) => {
+    const mod = e.ctrlKey || e.metaKey
+    if (mod && e.key === 'Enter') {
+      e.preventDefault()
+      save()
+    } else if (mod && (e.key === 'd' || e.key === 'D')) {
+      e.preventDefault()
+      duplicate(i, field)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      const j = e.shiftKey ? i - 1 : i + 1
+      if (j < 0) return
+      if (j >= rows.length) {
+        const row = nextRow(rows[i])
+        setRows(prev => [...prev, row])
+        setFocusTarget({ key: row.key, field })
+      } else {
+        setFocusTarget({ key: rows[j].key, field })
+      }
+    } else if (e.key === 'Tab' && !e.shiftKey && i === rows.length - 1 && field === BATCH_FIELDS[BATCH_FIELDS.length - 1]) {
+      // tabbing out of the last cell opens a new row
+      e.preventDefault()
+      const row = nextRow(rows[i])
+      setRows(prev => [...prev, row])
+      setFocusTarget({ key: row.key, field: BATCH_FIELDS[0] })
+    }
+  }
+
+  const touch = (key: number, field: BatchField) =>
+    setTouched(prev => (prev.has(`${key}:${field}`) ? prev : new Set(prev).add(`${key}:${field}`)))
+
+  const errorFor = (r: BatchRow, field: BatchField) =>
+    attempted || touched.has(`${r.key}:${field}`) ? errors.get(r.key)?.[field] : undefined
+
+  const save = async () => {
+    if (!canWrite || saving) return
+    setError(null); setMsg(null); setAttempted(true)
+    if (ready.length === 0) return setError(filled.length ? 'Fix the marked cells before saving.' : 'Nothing to save yet.')
+    setSaving(true)
+    const res = await insertBatch(ready)
+    setSaving(false)
+    if (res.error) return setError(res.error)
+
+    const saved = new Set(res.results.filter(r => r.id).map(r => r.key))
+    const failed = new Map(res.results.filter(r => r.error).map(r => [r.key, r.error]))
+    // failed and not-yet-valid rows stay in the grid; saved rows go away
+    const left = rows
+      .filter(r => !saved.has(r.key) && !isBlank(r))
+      .map(r => (failed.has(r.key) ? { ...r, error: failed.get(r.key) ?? null } : r))
+    const last = rows[rows.length - 1]
+    setRows(left.length ? [...left, nextRow(last)] : freshGrid(last))
+    setAttempted(left.length > 0)
+    setTouched(new Set())
+
+    const stuck = left.length
+    setMsg(
+      `Saved ${saved.size} transaction${saved.size === 1 ? '' : 's'}.` +
+      (stuck ? ` ${stuck} row${stuck === 1 ? '' : 's'} need${stuck === 1 ? 's' : ''} attention.` : '')
+    )
+  }
+
+  if (!profile) return <div className="p-4">Loading…</div>
+  if (!canWrite) {
+    return (
+      <div className={cx(s.alert, 'm-4 border-amber-200 bg-amber-50 text-amber-800')}>
+        Read-only access. Ask an admin to upgrade your role to <span className="font-medium">Editor</span> to add transactions.
+      </div>
+    )
+  }
+
+  const accountOptions = activeAccounts(accounts.items)
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold">Batch Entry</h1>
+          <p className="text-sm text-slate-600">
+            Tab moves across, Enter moves down (a new row at the bottom). Ctrl+D duplicates a row, Ctrl+Enter saves.
+          </p>
+        </div>
+        <Link to="/transactions" className={cx(s.btn, s.secondary)}>Back</Link>
+      </header>
+
+      {msg && <div className={cx(s.alert, 'border-emerald-200 bg-emerald-50 text-emerald-800')}>{msg}</div>}
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      <div className={s.card}>
+        <div className="overflow-auto">
+          <table className="w-full min-w-[860px] text-sm">
+            <thead>
+              <tr>
+                <th className={cx(s.th, 'w-10')}>#</th>
+                <th className={cx(s.th, 'w-36')}>Date</th>
+                <th className={cx(s.th, 'w-28')}>Type</th>
+                <th className={s.th}>Category</th>
+                <th className={cx(s.th, 'w-32 text-right')}>Amount</th>
+                <th className={cx(s.th, 'w-36')}>Account</th>
+                <th className={s.th}>Note</th>
+                <th className={cx(s.th, 'w-20')}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r, i) => {
+                const bind = (field: BatchField) => ({
+                  ref: (el: HTMLInputElement | HTMLSelectElement | null) => {
+                    if (el) refs.current.set(`${r.key}:${field}`, el)
+                    else refs.current.delete(`${r.key}:${field}`)
+                  },
+                  onKeyDown: (e: React.KeyboardEvent) => onCellKey(e, i, field),
+                  onBlur: () => touch(r.key, field),
+                  'aria-invalid': !!errorFor(r, field),
+                })
+                const err = (field: BatchField) => {
+                  const m = errorFor(r, field)
+                  return m ? <div className="mt-0.5 text-xs text-rose-700">{m}</div> : null
+                }
+                return (
+                  <tr key={r.key} className={cx('border-t align-top', r.error && 'bg-rose-50/50')}>
+                    <td className={cx(s.td, 'pt-3 text-xs text-slate-400')}>{i + 1}</td>
+                    <td className="px-1 py-1.5">
+                      <input
+                        {...bind('date')}
+                        value={r.date}
+                        onChange={e => update(r.key, { date: e.target.value })}
+                        placeholder="YYYY-MM-DD"
+                        className={cx(cell, errorFor(r, 'date') && badCell)}
+                      />
+                      {err('date')}
+                    </td>
+                    <td className="px-1 py-1.5">
+                      <select
+                        {...bind('type')}
+                        value={r.type}
+                        onChange={e => update(r.key, { type: e.target.value })}
+                        className={cx(cell, errorFor(r, 'type') && badCell)}
+                      >
+                        {TX_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                      </select>
+                      {err('type')}
+                    </td>
+                    <td className="px-1 py-1.5">
+                      <CategoryCell
+                        {...bind('category')}
+                        value={r.category}
+                        options={isTxType(r.type) ? activeNames(catalog.items, r.type) : []}
+                        valid={isTxType(r.type) ? cats[r.type] : []}
+                        onChange={v => update(r.key, { category: v })}
+                        className={cx(cell, errorFor(r, 'category') && badCell)}
+                      />
+                      {err('category')}
+                    </td>
+                    <td className="px-1 py-1.5">
+                      <input
+                        {...bind('amount')}
+                        value={r.amount}
+                        onChange={e => update(r.key, { amount: e.target.value })}
+                        inputMode="decimal"
+                        placeholder="0.00"
+                        className={cx(cell, 'text-right', errorFor(r, 'amount') && badCell)}
+                      />
+                      {err('amount')}
+                    </td>
+                    <td className="px-1 py-1.5">
+                      <select
+                        {...bind('account_id')}
+                        value={r.account_id}
+                        onChange={e => update(r.key, { account_id: e.target.value })}
+                        className={cell}
+                      >
+                        <option value="">Default</option>
+                        {accountOptions.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-1 py-1.5">
+                      <input
+                        {...bind('note')}
+                        value={r.note}
+                        onChange={e => update(r.key, { note: e.target.value })}
+                        placeholder="details…"
+                        className={cell}
+                      />
+                      {r.error && <div className="mt-0.5 text-xs text-rose-700">Not saved: {r.error}</div>}
+                    </td>
+                    <td className="whitespace-nowrap px-1 py-1.5 text-right">
+                      <button type="button" tabIndex={-1} onClick={() => duplicate(i)} className="px-1 text-slate-400 hover:text-indigo-700" title="Duplicate row (Ctrl+D)">
+                        ⧉
+                      </button>
+                      <button type="button" tabIndex={-1} onClick={() => remove(r.key)} className="px-1 text-slate-400 hover:text-rose-600" title="Remove row" aria-label={`Remove row ${i + 1}`}>
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-3">
+        <span className="mr-auto text-sm text-slate-600">
+          {ready.length} ready{filled.length > ready.length && `, ${filled.length - ready.length} to fix`} •{' '}
+          Income {fmtCurrency(sum('income'))} • Expense {fmtCurrency(sum('expense'))} • Savings {fmtCurrency(sum('savings'))}
+        </span>
+        <button type="button" onClick={() => setRows(prev => [...prev, nextRow(prev[prev.length - 1])])} className={cx(s.btn, s.secondary)}>
+          Add row
+        </button>
+        <button type="button" onClick={save} disabled={saving || ready.length === 0} className={cx(s.btn, s.primary)}>
+          {saving ? 'Saving…' : `Save ${ready.length} row${ready.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </section>
+  )
+}
+
+// Text cell with a suggestion list. Arrow keys pick; Enter/Tab accept the
+// highlighted (or only) match before the grid's own navigation runs.
+function CategoryCell({
+  value, options, valid, onChange, onKeyDown, onBlur, className, ref, ...rest
+}: {
+  value: string
+  options: string[]
+  valid: string[]
+  onChange: (v: string) => void
+  onKeyDown: (e: React.KeyboardEvent) => void
+  onBlur: () => void
+  className?: string
+  ref: (el: HTMLInputElement | null) => void
+  'aria-invalid'?: boolean
+}) {
+  const [open, setOpen] = useState(false)
+  const [active, setActive] = useState(-1)
+  const matches = open ? suggestCategories(options, value) : []
+  const exact = (v: string) => valid.find(c => c.toLowerCase() === v.trim().toLowerCase())
+
+  const accept = () => {
+    if (exact(value)) return onChange(exact(value)!)
+    const pick = active >= 0 ? matches[active] : value.trim() && matches.length > 0 ? matches[0] : undefined
+    if (pick) onChange(pick)
+  }
+
+  const keyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && matches.length) {
+      e.preventDefault()
+      setActive(i => (i + 1) % matches.length)
+      return
+    }
+    if (e.key === 'ArrowUp' && matches.length) {
+      e.preventDefault()
+      setActive(i => (i <= 0 ? matches.length - 1 : i - 1))
+      return
+    }
+    if (e.key === 'Escape') {
+      setOpen(false)
+      return
+    }
+    if (e.key === 'Enter' || e.key === 'Tab') {
+      accept()
+      setOpen(false)
+    }
+    onKeyDown(e)
+  }
+
+  return (
+    <div className="relative">
+      <input
+        {...rest}
+        ref={ref}
+        value={value}
+        onChange={e => { onChange(e.target.value); setOpen(true); setActive(-1) }}
+        onKeyDown={keyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => { if (exact(value)) onChange(exact(value)!); setOpen(false); onBlur() }}
+        placeholder="category"
+        autoComplete="off"
+        className={className}
+      />
+      {matches.length > 0 && (
+        <ul className="absolute z-50 mt-1 max-h-48 w-full overflow-auto rounded-xl border border-slate-200 bg-white py-1 text-sm shadow-lg">
+          {matches.map((c, i) => (
+            <li key={c}>
+              <button
+                type="button"
+                tabIndex={-1}
+                onMouseDown={e => { e.preventDefault(); onChange(c); setOpen(false) }}
+                className={cx('w-full px-3 py-1.5 text-left', i === active ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-slate-50')}
+              >
+                {c}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+// src/routes/BillCheck.tsx
+import { useEffect, useState } from 'react'
+import { fmtCurrency } from '../lib/currency'
+import { useSession } from '../lib/session'
+import { ISSUE_KINDS, fetchBillIssues, repairBillIssue, type BillIssue } from '../lib/bills'
+import { styles as s, cx } from '../ui'
+
+const issueKey = (i: BillIssue) => `${i.kind}:${i.ref_id}`
+const kindMeta = (i: BillIssue) => ISSUE_KINDS.find(k => k.kind === i.kind)!
+
+// Admins: bills and expenses that disagree (left by the old client-side
+// pay/unpay flow or by deleting a bill's expense directly), each with a repair.
+export default function BillCheck() {
+  const { profile } = useSession()
+  const isAdmin = profile?.role === 'admin'
+
+  const [rows, setRows] = useState<BillIssue[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [msg, setMsg] = useState<string | null>(null)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const refresh = () => setReloadKey(k => k + 1)
+
+  useEffect(() => {
+    if (!isAdmin) return
+    let cancelled = false
+    const fetchIt = async () => {
+      setLoading(true); setError(null)
+      const res = await fetchBillIssues()
+      if (cancelled) return
+      setLoading(false)
+      if (res.error) return setError(res.error)
+      setRows(res.rows)
+    }
+    fetchIt()
+    return () => { cancelled = true }
+  }, [isAdmin, reloadKey])
+
+  const repair = async (issue: BillIssue) => {
+    setBusyKey(issueKey(issue)); setError(null); setMsg(null)
+    const err = await repairBillIssue(issue)
+    setBusyKey(null)
+    if (err) return setError(err)
+    setMsg(`Repaired: ${kindMeta(issue).label} • ${issue.category}.`)
+    refresh()
+  }
+
+  // one server call per issue; stops at the first failure so it can be looked at
+  const repairAll = async () => {
+    if (!window.confirm(`Repair all ${rows.length} issue${rows.length === 1 ? '' : 's'}?\n\nOrphaned expenses go to the Trash.`)) return
+    setBusyKey('all'); setError(null); setMsg(null)
+    let done = 0
+    for (const issue of rows) {
+      const err = await repairBillIssue(issue)
+      if (err) { setError(`${kindMeta(issue).label} • ${issue.category}: ${err}`); break }
+      done++
+    }
+    setBusyKey(null)
+    if (done) setMsg(`Repaired ${done} issue${done === 1 ? '' : 's'}.`)
+    refresh()
+  }
+
+  if (!isAdmin) {
+    return <div className={cx(s.alert, 'm-4 border-rose-200 bg-rose-50 text-rose-700')}>Admins only.</div>
+  }
+
+  const Fix = ({ i }: { i: BillIssue }) => (
+    <button onClick={() => repair(i)} className={cx(s.btn, s.secondary)} disabled={!!busyKey}>
+      {busyKey === issueKey(i) ? 'Repairing…' : kindMeta(i).fix}
+    </button>
+  )
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold">Bill consistency check</h1>
+          <p className="text-sm text-slate-600">
+            Paid bills without an expense, expenses without a bill, and paid flags that don't match the payments.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={refresh} className={cx(s.btn, s.secondary)} disabled={loading || !!busyKey}>Check again</button>
+          <button onClick={repairAll} className={cx(s.btn, s.primary)} disabled={!rows.length || !!busyKey}>
+            {busyKey === 'all' ? 'Repairing…' : 'Repair all'}
+          </button>
+        </div>
+      </header>
+
+      {msg && <div className={cx(s.alert, 'border-emerald-200 bg-emerald-50 text-emerald-800')}>{msg}</div>}
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      {/* ===== Mobile cards ===== */}
+      <div className="grid gap-3 md:hidden">
+        {loading ? (
+          <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>Checking…</div>
+        ) : rows.length === 0 ? (
+          <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>No issues found.</div>
+        ) : (
+          rows.map(i => (
+            <div key={issueKey(i)} className={cx(s.card, 'p-3')}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium">{i.category}</div>
+                <div className="text-sm font-semibold">{fmtCurrency(Number(i.amount))}</div>
+              </div>
+              <div className="mt-1 text-xs text-slate-600">{i.day} • {kindMeta(i).label}</div>
+              <div className="mt-1 text-sm">{i.detail}</div>
+              <div className="mt-2 flex justify-end"><Fix i={i} /></div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* ===== Desktop table ===== */}
+      <div className={cx(s.card, 'hidden md:block')}>
+        <div className="overflow-auto">
+          <table className="w-full min-w-[760px] text-sm">
+            <thead>
+              <tr>
+                <th className={s.th}>Date</th>
+                <th className={s.th}>Issue</th>
+                <th className={s.th}>Category</th>
+                <th className={cx(s.th, 'text-right')}>Amount</th>
+                <th className={cx(s.th, 'text-right')}>Repair</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr><td className={s.td} colSpan={5}>Checking…</td></tr>
+              ) : rows.length === 0 ? (
+                <tr><td className={s.td} colSpan={5}>No issues found.</td></tr>
+              ) : (
+                rows.map(i => (
+                  <tr key={issueKey(i)} className="border-t hover:bg-slate-50/50">
+                    <td className={cx(s.td, 'whitespace-nowrap')}>{i.day}</td>
+                    <td className={s.td}>
+                      <div className="font-medium">{kindMeta(i).label}</div>
+                      <div className="text-xs text-slate-500">{i.detail}</div>
+                    </td>
+                    <td className={s.td}>{i.category}</td>
+                    <td className={cx(s.td, 'text-right font-semibold')}>{fmtCurrency(Number(i.amount))}</td>
+                    <td className={cx(s.td, 'whitespace-nowrap text-right')}><Fix i={i} /></td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  )
+}
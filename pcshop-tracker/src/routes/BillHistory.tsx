@@ -0,0 +1,117 @@
+// src/routes/BillHistory.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { subYears, formatISO } from 'date-fns'
+import { fmtCurrency } from '../lib/currency'
+import { useCategories } from '../lib/categories'
+import { payeeName, usePayees } from '../lib/payees'
+import {
+  ROLLING_BILLS, SPIKE_DEFAULT_PCT, fetchBillHistory, historyGroup, historyPoints, spikeThreshold, type HistoryBill,
+} from '../lib/billHistory'
+import { BillHistoryChart } from '../components/BillHistoryChart'
+import { styles as s, cx } from '../ui'
+
+const YEARS_BACK = 3
+
+export default function BillHistory() {
+  const [params, setParams] = useSearchParams()
+  const catalog = useCategories()
+  const payees = usePayees()
+  const [bills, setBills] = useState<HistoryBill[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      setLoading(true)
+      const res = await fetchBillHistory(formatISO(subYears(new Date(), YEARS_BACK), { representation: 'date' }))
+      if (cancelled) return
+      setLoading(false)
+      setError(res.error)
+      setBills(res.rows)
+    }
+    load()
+    return () => { cancelled = true }
+  }, [])
+
+  // one entry per category + payee that has bills, busiest first
+  const groups = useMemo(() => {
+    const m: Record<string, HistoryBill[]> = {}
+    for (const b of bills) (m[historyGroup(b)] ??= []).push(b)
+    return Object.entries(m)
+      .map(([key, list]) => ({
+        key,
+        list,
+        label: list[0].payee_id ? `${list[0].category} • ${payeeName(payees.items, list[0].payee_id)}` : list[0].category,
+      }))
+      .sort((a, b) => b.list.length - a.list.length || a.label.localeCompare(b.label))
+  }, [bills, payees.items])
+
+  const key = params.get('group') ?? groups[0]?.key ?? ''
+  const group = groups.find(g => g.key === key)
+  const points = useMemo(() => (group ? historyPoints(group.list, catalog.items) : []), [group, catalog.items])
+  const threshold = group ? spikeThreshold(catalog.items, group.list[0].category) : SPIKE_DEFAULT_PCT
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <Link to="/bills" className="text-sm text-indigo-700">← Bills</Link>
+          <h1 className="text-lg font-semibold">Bill amount history</h1>
+          <p className="text-sm text-slate-600">
+            Each bill against the average of the {ROLLING_BILLS} before it. Bills more than {threshold}% above it are flagged;
+            admins set the percentage per category under Categories.
+          </p>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Bill</label>
+          <select value={key} onChange={e => setParams({ group: e.target.value })} className={s.select}>
+            {groups.map(g => <option key={g.key} value={g.key}>{g.label} ({g.list.length})</option>)}
+          </select>
+        </div>
+      </header>
+
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      <div className={cx(s.card, 'p-4')}>
+        {points.length === 0 ? (
+          <div className="text-sm text-slate-600">{loading ? 'Loading…' : `No bills in the last ${YEARS_BACK} years.`}</div>
+        ) : (
+          <BillHistoryChart points={points} />
+        )}
+      </div>
+
+      {points.length > 0 && (
+        <div className={cx(s.card, 'overflow-auto')}>
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className={s.th}>Due</th>
+                <th className={cx(s.th, 'text-right')}>Billed</th>
+                <th className={cx(s.th, 'text-right')}>Average before</th>
+                <th className={cx(s.th, 'text-right')}>Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...points].reverse().map(p => {
+                const pct = p.average ? Math.round((p.amount / p.average - 1) * 100) : null
+                const spike = p.limit !== null && p.amount > p.limit
+                return (
+                  <tr key={p.id} className={cx('border-t', spike && 'bg-amber-50/60')}>
+                    <td className={s.td}>{p.due_date}</td>
+                    <td className={cx(s.td, 'text-right font-semibold')}>{fmtCurrency(p.amount)}</td>
+                    <td className={cx(s.td, 'text-right text-slate-600')}>{p.average === null ? '—' : fmtCurrency(p.average)}</td>
+                    <td className={cx(s.td, 'text-right', spike ? 'font-medium text-amber-800' : 'text-slate-600')}>
+                      {pct === null ? '—' : `${pct > 0 ? '+' : ''}${pct}%`}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
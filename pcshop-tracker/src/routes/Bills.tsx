@@ -1,151 +1,171 @@
 // src/routes/Bills.tsx
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
 import { formatISO } from 'date-fns'
 import { supabase } from '../lib/supabaseClient'
 import { fmtCurrency } from '../lib/currency'
 import { useSession } from '../lib/session'
+import { activeNames, useCategories } from '../lib/categories'
+import { accountName, activeAccounts, useAccounts, type Account } from '../lib/accounts'
+import { uploadAll } from '../lib/attachments'
+import { payeeName, usePayees } from '../lib/payees'
+import {
+  BILL_COLUMNS, BILL_STATUSES, SERIES_COLUMNS, addPayment, billStatus, deleteBill, dueHint, editBill, generateRecurringBills,
+  paidTotal, payBill, remaining, removePayment, statusRank, unpayBill, updateSeries, variance,
+  type Bill, type BillEdit, type BillPayment, type BillSeries, type BillStatus, type NewPayment,
+} from '../lib/bills'
+import { findSpikes, historyGroup } from '../lib/billHistory'
+import { restoreRecord } from '../lib/trash'
+import { AttachmentThumbs, PendingFiles } from '../components/Attachments'
+import { BillCalendar } from '../components/BillCalendar'
+import { BillReminders } from '../components/BillReminders'
+import { BillStatusBadge } from '../components/BillStatusBadge'
+import { PayeeSelect } from '../components/PayeeSelect'
+import { SpikeBadge } from '../components/SpikeBadge'
+import { UndoToast } from '../components/UndoToast'
 import { styles as s, cx } from '../ui'
 
-type Bill = {
-  id: string
-  due_date: string
-  category: string
-  amount: number
-  paid: boolean
-  paid_at: string | null
-  recurring: boolean
-  recur_day: number | null
-  transaction_id: string | null // link to the expense in transactions
-}
+type BillSort = 'due_asc' | 'due_desc' | 'status' | 'amount_desc'
 
-const BILL_CATS = [
-  'Electricity',
-  'Internet',
-  'Water',
-  'Rent',
-  'Domain/Hosting',
-  'SaaS',
-  'Loan',
-  'Other',
+const SORTS: { value: BillSort; label: string }[] = [
+  { value: 'due_asc', label: 'Due date (oldest first)' },
+  { value: 'due_desc', label: 'Due date (newest first)' },
+  { value: 'status', label: 'Most urgent first' },
+  { value: 'amount_desc', label: 'Amount (largest first)' },
 ]
 
 export default function Bills() {
   const { profile } = useSession()
   const canWrite = profile?.role === 'admin' || profile?.role === 'editor'
+  const catalog = useCategories()
+  const billCats = activeNames(catalog.items, 'bill')
+  const accounts = useAccounts()
+  const payees = usePayees()
 
   const [items, setItems] = useState<Bill[]>([])
+  const [series, setSeries] = useState<Record<string, BillSeries>>({})
+  const [editingSeries, setEditingSeries] = useState<BillSeries | null>(null)
+  const [payingId, setPayingId] = useState<string | null>(null) // bill whose payments dialog is open
+  const [settlingId, setSettlingId] = useState<string | null>(null) // bill being paid in the Pay dialog
+  const [editingId, setEditingId] = useState<string | null>(null)
   const [due, setDue] = useState<string>(formatISO(new Date(), { representation: 'date' }))
-  const [cat, setCat] = useState(BILL_CATS[0])
+  const [cat, setCat] = useState('')
   const [amt, setAmt] = useState('')
   const [recurring, setRecurring] = useState(false)
   const [recurDay, setRecurDay] = useState<number | ''>('')
+  const [accountId, setAccountId] = useState('')
+  const [payeeId, setPayeeId] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<BillStatus | 'unpaid' | ''>('')
+  const [sort, setSort] = useState<BillSort>('due_asc')
+  const [view, setView] = useState<'list' | 'calendar'>('list')
 
   // NEW: delete busy state
   const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [undo, setUndo] = useState<Bill | null>(null) // last trashed bill, for the Undo toast
+
+  const today = formatISO(new Date(), { representation: 'date' })
 
   const refresh = async () => {
-    const { data, error } = await supabase
-      .from('bills')
-      .select('id,due_date,category,amount,paid,paid_at,recurring,recur_day,transaction_id')
-      .order('due_date', { ascending: true })
+    const [{ data, error }, ser] = await Promise.all([
+      supabase
+        .from('bills')
+        .select(BILL_COLUMNS)
+        .is('deleted_at', null)
+        .order('due_date', { ascending: true }),
+      supabase.from('bill_series').select(SERIES_COLUMNS),
+    ])
 
-    if (!error && data) setItems(data as Bill[])
+    if (!error && data) setItems(data as unknown as Bill[])
+    if (!ser.error && ser.data) setSeries(Object.fromEntries((ser.data as BillSeries[]).map(x => [x.id, x])))
   }
 
-  useEffect(() => { refresh() }, [])
+  // fill in recurring bills up to the horizon (skipped months included), then load
+  useEffect(() => {
+    const load = async () => {
+      if (canWrite) {
+        const gen = await generateRecurringBills()
+        if (gen.error) setError(gen.error)
+      }
+      refresh()
+    }
+    load()
+  }, [canWrite])
+  useEffect(() => {
+    const names = activeNames(catalog.items, 'bill')
+    setCat(prev => (names.includes(prev) ? prev : names[0] ?? ''))
+  }, [catalog.items])
+  useEffect(() => {
+    const ids = activeAccounts(accounts.items).map(a => a.id)
+    setAccountId(prev => (ids.includes(prev) ? prev : ids[0] ?? ''))
+  }, [accounts.items])
 
   const add = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!canWrite) return
     const amount = Number(amt)
-    if (!Number.isFinite(amount) || amount <= 0) return
+    if (!Number.isFinite(amount) || amount <= 0 || !cat) return
 
-    await supabase.from('bills').insert({
-      due_date: due,
-      category: cat,
-      amount,
-      recurring,
-      recur_day: recurring ? Number(recurDay) || null : null,
-    })
+    setError(null)
+    const { data, error } = await supabase
+      .from('bills')
+      .insert({
+        due_date: due,
+        category: cat,
+        amount,
+        recurring,
+        recur_day: recurring ? Number(recurDay) || null : null,
+        account_id: accountId || null,
+        payee_id: payeeId || null,
+      })
+      .select('id')
+      .single()
+    if (error) return setError(error.message)
 
+    const uploadErr = files.length ? await uploadAll({ bill_id: data.id as string }, files) : null
+    if (uploadErr) setError(`Saved, but an attachment failed: ${uploadErr}`)
+
+    if (recurring) await generateRecurringBills() // the new series' upcoming months
     setAmt('')
+    setPayeeId('')
     setRecurring(false)
     setRecurDay('')
+    setFiles([])
     refresh()
   }
 
-  const togglePaid = async (bill: Bill) => {
-    if (!canWrite) return
-
-    // Mark as PAID
-    if (!bill.paid) {
-      let txnId = bill.transaction_id
-
-      // Create expense only if not yet linked
-      if (!txnId) {
-        const today = new Date().toISOString().slice(0, 10)
-        const note = `Bill paid: ${bill.category}`
-        const { data, error } = await supabase
-          .from('transactions')
-          .insert({
-            date: today,
-            type: 'expense',
-            category: bill.category,
-            amount: bill.amount,
-            note,
-          })
-          .select('id')
-          .single()
-
-        if (error) {
-          console.error('Create expense failed:', error.message)
-          return
-        }
-        txnId = data!.id as string
-      }
-
-      const nowISO = new Date().toISOString()
-      const { error: updErr } = await supabase
-        .from('bills')
-        .update({ paid: true, paid_at: nowISO, transaction_id: txnId })
-        .eq('id', bill.id)
-
-      if (!updErr) {
-        setItems(prev =>
-          prev.map(b =>
-            b.id === bill.id ? { ...b, paid: true, paid_at: nowISO, transaction_id: txnId! } : b
-          )
-        )
-      }
-      return
+  // picking a payee fills in how we usually bill and pay them
+  const pickPayee = (id: string) => {
+    setPayeeId(id)
+    const p = payees.items.find(x => x.id === id)
+    if (p?.default_category && billCats.includes(p.default_category)) setCat(p.default_category)
+    if (p?.default_account_id && activeAccounts(accounts.items).some(a => a.id === p.default_account_id)) {
+      setAccountId(p.default_account_id)
     }
+  }
 
-    // Mark as UNPAID
-    if (bill.paid) {
-      if (bill.transaction_id) {
-        await supabase.from('transactions').delete().eq('id', bill.transaction_id)
-      }
-      const { error: updErr } = await supabase
-        .from('bills')
-        .update({ paid: false, paid_at: null, transaction_id: null })
-        .eq('id', bill.id)
-
-      if (!updErr) {
-        setItems(prev =>
-          prev.map(b =>
-            b.id === bill.id ? { ...b, paid: false, paid_at: null, transaction_id: null } : b
-          )
-        )
-      }
-    }
+  // Mark Unpaid removes every payment along with its expense.
+  const markUnpaid = async (bill: Bill) => {
+    if (!canWrite) return
+    setError(null)
+
+    const count = bill.payments?.length ?? 0
+    if (count > 1 && !window.confirm(
+      `Mark this bill unpaid?\n\nIts ${count} payments and their expenses will be removed.`
+    )) return
+    const { error, bill: updated } = await unpayBill(bill)
+    if (error) return setError(error)
+    if (updated) setItems(prev => prev.map(b => (b.id === bill.id ? { ...b, ...updated } : b)))
   }
 
-  // UPDATED: confirm before deleting, also disable button while deleting
+  // UPDATED: confirm, then move to the Trash (the linked expense goes along)
   const del = async (bill: Bill) => {
     if (!canWrite) return
 
-    const warnLinked = bill.transaction_id
-      ? '\n\nNote: This will also delete the linked expense in Transactions.'
+    const paidCount = bill.payments?.length ?? 0
+    const warnLinked = paidCount
+      ? `\n\nNote: The linked expense${paidCount > 1 ? 's' : ''} in Transactions move${paidCount > 1 ? '' : 's'} to the Trash too.`
       : ''
 
     const ok = window.confirm(
@@ -153,19 +173,87 @@ export default function Bills() {
       `Category: ${bill.category}\n` +
       `Due date: ${bill.due_date}\n` +
       `Amount:  ${fmtCurrency(Number(bill.amount))}${warnLinked}\n\n` +
-      `This cannot be undone.`
+      `It can be restored from the Trash.`
     )
     if (!ok) return
 
+    setError(null)
     setDeletingId(bill.id)
+    const { error: err } = await deleteBill(bill.id)
+    setDeletingId(null)
+    if (err) return setError(err)
+    setItems(prev => prev.filter(x => x.id !== bill.id))
+    setUndo(bill)
+  }
+
+  const saveSeries = async (sr: BillSeries, terms: { amount: number; recur_day: number; stop_date: string | null }) => {
+    const err = await updateSeries(sr.id, terms)
+    if (err) return err
+    setEditingSeries(null)
+    refresh()
+    return null
+  }
 
-    if (bill.transaction_id) {
-      await supabase.from('transactions').delete().eq('id', bill.transaction_id)
+  // statuses are derived on the client from due_date/paid_at, so filter and sort here
+  const shown = useMemo(() => {
+    const withStatus = items.map(b => ({ b, st: billStatus(b, today) }))
+    const kept = withStatus.filter(({ b, st }) =>
+      !statusFilter || (statusFilter === 'unpaid' ? !b.paid : st === statusFilter))
+    const byDue = (x: Bill, y: Bill) => x.due_date.localeCompare(y.due_date)
+    kept.sort((x, y) => {
+      if (sort === 'due_desc') return byDue(y.b, x.b)
+      if (sort === 'amount_desc') return Number(y.b.amount) - Number(x.b.amount) || byDue(x.b, y.b)
+      if (sort === 'status') return statusRank(x.st) - statusRank(y.st) || byDue(x.b, y.b)
+      return byDue(x.b, y.b)
+    })
+    return kept.map(x => x.b)
+  }, [items, statusFilter, sort, today])
+
+  const counts = useMemo(() => {
+    const c: Partial<Record<BillStatus, number>> = {}
+    for (const b of items) {
+      const st = billStatus(b, today)
+      c[st] = (c[st] ?? 0) + 1
     }
-    await supabase.from('bills').delete().eq('id', bill.id)
+    return c
+  }, [items, today])
 
-    setDeletingId(null)
-    setItems(prev => prev.filter(x => x.id !== bill.id))
+  const paying = payingId ? items.find(b => b.id === payingId) ?? null : null
+  const settling = settlingId ? items.find(b => b.id === settlingId) ?? null : null
+  const editing = editingId ? items.find(b => b.id === editingId) ?? null : null
+
+  const saveEdit = async (bill: Bill, edit: BillEdit) => {
+    const err = await editBill(bill.id, edit)
+    if (err) return err
+    setEditingId(null)
+    await refresh() // series edits change other months too
+    return null
+  }
+
+  const pay = async (bill: Bill, payment: NewPayment) => {
+    const { error: err } = await payBill(bill.id, payment)
+    if (err) return err
+    setSettlingId(null)
+    await refresh() // paying a recurring bill also creates next month's
+    return null
+  }
+
+  const spikes = useMemo(() => findSpikes(items, catalog.items), [items, catalog.items])
+  const historyLink = (b: Bill) => `/bills/history?group=${encodeURIComponent(historyGroup(b))}`
+
+  const emptyText = items.length === 0 ? 'No bills yet.' : 'No bills match this status.'
+
+  const recurLabel = (b: Bill) => {
+    const sr = b.series_id ? series[b.series_id] : undefined
+    if (!b.recurring) return 'One-time'
+    if (!sr) return `Monthly (day ${b.recur_day ?? '-'})`
+    return `Monthly, day ${sr.recur_day}${sr.stop_date ? ` until ${sr.stop_date}` : ''}${b.edited ? ' (edited)' : ''}`
+  }
+
+  const undoDelete = async (bill: Bill) => {
+    const err = await restoreRecord('bills', bill.id)
+    if (err) return setError(err)
+    refresh()
   }
 
   return (
@@ -183,6 +271,11 @@ export default function Bills() {
         className={cx(s.card, 'grid grid-cols-1 gap-3 p-4 md:grid-cols-6')}
         aria-disabled={!canWrite}
       >
+        <div className="md:col-span-2">
+          <label className="text-sm text-slate-600">Payee</label>
+          <PayeeSelect value={payeeId} onChange={pickPayee} disabled={!canWrite} />
+        </div>
+
         <div>
           <label className="text-sm text-slate-600">Due date</label>
           <input
@@ -202,7 +295,7 @@ export default function Bills() {
             className={s.select}
             disabled={!canWrite}
           >
-            {BILL_CATS.map(c => (
+            {billCats.map(c => (
               <option key={c}>{c}</option>
             ))}
           </select>
@@ -247,104 +340,722 @@ export default function Bills() {
           />
         </div>
 
-        <div className="md:col-span-6 flex items-end justify-end">
+        <div>
+          <label className="text-sm text-slate-600">Pay from</label>
+          <select value={accountId} onChange={e => setAccountId(e.target.value)} className={s.select} disabled={!canWrite}>
+            {activeAccounts(accounts.items).map(a => (
+              <option key={a.id} value={a.id}>{a.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="md:col-span-6">
+          <label className="text-sm text-slate-600">Invoice / statement</label>
+          <PendingFiles files={files} onChange={setFiles} disabled={!canWrite} />
+        </div>
+
+        <div className="md:col-span-6 flex items-end justify-end gap-2">
+          {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
           <button className={cx(s.btn, s.primary, 'w-full sm:w-auto')} type="submit" disabled={!canWrite}>
             Add Bill
           </button>
         </div>
       </form>
 
-      {/* ===== Mobile cards ===== */}
-      <div className="grid gap-3 md:hidden">
-        {items.length === 0 ? (
-          <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>No bills yet.</div>
+      {/* Status filter + sort (list) / view toggle */}
+      <div className="flex flex-wrap items-end gap-3">
+        {view === 'list' && (
+          <>
+            <div>
+              <label className="text-sm text-slate-600">Status</label>
+              <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as BillStatus | 'unpaid' | '')} className={s.select}>
+                <option value="">All ({items.length})</option>
+                <option value="unpaid">All unpaid ({items.filter(b => !b.paid).length})</option>
+                {BILL_STATUSES.map(x => (
+                  <option key={x.status} value={x.status}>{x.label} ({counts[x.status] ?? 0})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-slate-600">Sort</label>
+              <select value={sort} onChange={e => setSort(e.target.value as BillSort)} className={s.select}>
+                {SORTS.map(x => <option key={x.value} value={x.value}>{x.label}</option>)}
+              </select>
+            </div>
+          </>
+        )}
+        <Link to="/bills/history" className="ml-auto self-center text-sm font-medium text-indigo-700">Amount history →</Link>
+        <div className="inline-flex gap-1 rounded-xl bg-slate-100 p-1">
+          {(['list', 'calendar'] as const).map(v => (
+            <button
+              key={v}
+              type="button"
+              onClick={() => setView(v)}
+              className={cx('rounded-lg px-3 py-1 text-sm capitalize', view === v ? 'bg-white font-medium shadow-sm' : 'text-slate-600')}
+            >
+              {v}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === 'calendar' ? (
+        <BillCalendar
+          bills={items}
+          canWrite={canWrite}
+          onPay={b => setSettlingId(b.id)}
+          onPayments={b => setPayingId(b.id)}
+        />
+      ) : (
+        <>
+          {/* ===== Mobile cards ===== */}
+          <div className="grid gap-3 md:hidden">
+            {shown.length === 0 ? (
+              <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>{emptyText}</div>
+            ) : (
+              shown.map(b => (
+                <div key={b.id} className={cx(s.card, 'p-3')}>
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm font-medium">{b.category}</div>
+                    <div className="flex items-center gap-2 text-sm font-semibold">
+                      {spikes[b.id] && <SpikeBadge spike={spikes[b.id]} to={historyLink(b)} />}
+                      {fmtCurrency(Number(b.amount))}
+                    </div>
+                  </div>
+                  {!b.paid && paidTotal(b) > 0 && (
+                    <div className="text-right text-xs text-slate-600">
+                      Paid {fmtCurrency(paidTotal(b))} • {fmtCurrency(remaining(b))} left
+                    </div>
+                  )}
+                  {variance(b) !== 0 && (
+                    <div className="text-right text-xs">
+                      Paid {fmtCurrency(paidTotal(b))} <Variance value={variance(b)} />
+                    </div>
+                  )}
+                  <div className="mt-1 text-xs text-slate-600">
+                    Due {b.due_date} • {recurLabel(b)}
+                    {b.account_id && ` • ${accountName(accounts.items, b.account_id)}`}
+                  </div>
+                  {b.payee_id && (
+                    <Link to={`/payees/${b.payee_id}`} className="mt-1 block text-xs font-medium text-indigo-700">
+                      {payeeName(payees.items, b.payee_id)}
+                    </Link>
+                  )}
+                  <div className="mt-1 flex items-center gap-2 text-sm">
+                    <BillStatusBadge bill={b} today={today} />
+                    <span className="text-xs text-slate-500">{dueHint(b, today)}</span>
+                  </div>
+                  {!!b.attachments?.length && <div className="mt-2"><AttachmentThumbs items={b.attachments} /></div>}
+
+                  <div className="mt-2 grid grid-cols-2 gap-2">
+                    {canWrite ? (
+                      <>
+                        {b.series_id && series[b.series_id] && (
+                          <button onClick={() => setEditingSeries(series[b.series_id!])} className={cx(s.btn, s.secondary, 'col-span-2')}>
+                            Edit series
+                          </button>
+                        )}
+                        <button onClick={() => (b.paid ? markUnpaid(b) : setSettlingId(b.id))} className={cx(s.btn, s.secondary)}>
+                          {b.paid ? 'Mark Unpaid' : 'Pay…'}
+                        </button>
+                        <button onClick={() => setPayingId(b.id)} className={cx(s.btn, s.secondary)}>
+                          Payments{b.payments?.length ? ` (${b.payments.length})` : ''}
+                        </button>
+                        <button onClick={() => setEditingId(b.id)} className={cx(s.btn, s.secondary)}>
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => del(b)}
+                          className={cx(s.btn, s.danger)}
+                          disabled={deletingId === b.id}
+                        >
+                          {deletingId === b.id ? 'Deleting…' : 'Delete'}
+                        </button>
+                      </>
+                    ) : (
+                      <div className="col-span-2 text-right text-slate-400">View only</div>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* ===== Desktop table ===== */}
+          <div className={cx(s.card, 'hidden md:block')}>
+            <div className="overflow-auto">
+              <table className="w-full min-w-[760px] text-sm">
+                <thead>
+                  <tr>
+                    <th className={s.th}>Due</th>
+                    <th className={s.th}>Category</th>
+                    <th className={cx(s.th, 'text-right')}>Amount</th>
+                    <th className={s.th}>Recurring</th>
+                    <th className={s.th}>Status</th>
+                    <th className={cx(s.th, 'text-right')}>Action</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.length === 0 ? (
+                    <tr>
+                      <td className={s.td} colSpan={6}>{emptyText}</td>
+                    </tr>
+                  ) : (
+                    shown.map(b => (
+                      <tr key={b.id} className="border-t hover:bg-slate-50/50">
+                        <td className={cx(s.td, 'whitespace-nowrap')}>{b.due_date}</td>
+                        <td className={s.td}>
+                          <div className="flex items-center gap-2">
+                            <span className="flex-1">
+                              {b.category}
+                              {b.payee_id && (
+                                <Link to={`/payees/${b.payee_id}`} className="block text-xs font-medium text-indigo-700">
+                                  {payeeName(payees.items, b.payee_id)}
+                                </Link>
+                              )}
+                              {b.account_id && <span className="block text-xs text-slate-500">{accountName(accounts.items, b.account_id)}</span>}
+                            </span>
+                            <AttachmentThumbs items={b.attachments} />
+                          </div>
+                        </td>
+                        <td className={cx(s.td, 'text-right')}>
+                          {spikes[b.id] && <span className="mr-2"><SpikeBadge spike={spikes[b.id]} to={historyLink(b)} /></span>}
+                          <span className="font-semibold">{fmtCurrency(Number(b.amount))}</span>
+                          {!b.paid && paidTotal(b) > 0 && (
+                            <span className="block text-xs text-slate-500">{fmtCurrency(remaining(b))} left</span>
+                          )}
+                          {variance(b) !== 0 && (
+                            <span className="block text-xs">
+                              Paid {fmtCurrency(paidTotal(b))} <Variance value={variance(b)} />
+                            </span>
+                          )}
+                        </td>
+                        <td className={s.td}>
+                          {recurLabel(b)}
+                          {canWrite && b.series_id && series[b.series_id] && (
+                            <button onClick={() => setEditingSeries(series[b.series_id!])} className="block text-xs font-medium text-indigo-700">
+                              Edit series
+                            </button>
+                          )}
+                        </td>
+                        <td className={s.td}>
+                          <BillStatusBadge bill={b} today={today} />
+                          <span className="block text-xs text-slate-500">{b.paid && b.paid_at ? `Paid ${formatISO(new Date(b.paid_at), { representation: 'date' })}` : dueHint(b, today)}</span>
+                        </td>
+                        <td className={cx(s.td, 'text-right space-x-2')}>
+                          {canWrite ? (
+                            <>
+                              <button onClick={() => (b.paid ? markUnpaid(b) : setSettlingId(b.id))} className={cx(s.btn, s.secondary)}>
+                                {b.paid ? 'Mark Unpaid' : 'Pay…'}
+                              </button>
+                              <button onClick={() => setPayingId(b.id)} className={cx(s.btn, s.secondary)}>
+                                Payments{b.payments?.length ? ` (${b.payments.length})` : ''}
+                              </button>
+                              <button onClick={() => setEditingId(b.id)} className={cx(s.btn, s.secondary)}>
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => del(b)}
+                                className={cx(s.btn, s.danger)}
+                                disabled={deletingId === b.id}
+                              >
+                                {deletingId === b.id ? 'Deleting…' : 'Delete'}
+                              </button>
+                            </>
+                          ) : (
+                            <span className="text-slate-400">View only</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {canWrite && <BillReminders />}
+
+      {settling && (
+        <PayDialog
+          bill={settling}
+          accounts={accounts.items}
+          today={today}
+          onPay={payment => pay(settling, payment)}
+          onCancel={() => setSettlingId(null)}
+        />
+      )}
+
+      {editing && (
+        <EditBillDialog
+          bill={editing}
+          series={editing.series_id ? series[editing.series_id] ?? null : null}
+          categories={activeNames(catalog.items, 'bill')}
+          accounts={accounts.items}
+          onSave={edit => saveEdit(editing, edit)}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+
+      {paying && (
+        <PaymentsDialog
+          bill={paying}
+          accounts={accounts.items}
+          canWrite={canWrite}
+          today={today}
+          onChanged={refresh}
+          onClose={() => setPayingId(null)}
+        />
+      )}
+
+      {editingSeries && (
+        <SeriesDialog series={editingSeries} onSave={terms => saveSeries(editingSeries, terms)} onCancel={() => setEditingSeries(null)} />
+      )}
+
+      {undo && (
+        <UndoToast
+          key={undo.id}
+          message={`Deleted bill ${undo.category} • ${fmtCurrency(Number(undo.amount))}`}
+          onUndo={() => undoDelete(undo)}
+          onClose={() => setUndo(null)}
+        />
+      )}
+    </section>
+  )
+}
+
+// All fields of one bill. A recurring bill's changes can stay on this bill or
+// carry over to its series; a paid bill's expenses can follow along.
+function EditBillDialog({
+  bill, series, categories, accounts, onSave, onCancel,
+}: {
+  bill: Bill
+  series: BillSeries | null
+  categories: string[]
+  accounts: Account[]
+  onSave: (edit: BillEdit) => Promise<string | null>
+  onCancel: () => void
+}) {
+  const [due, setDue] = useState(bill.due_date)
+  const [category, setCategory] = useState(bill.category)
+  const [amount, setAmount] = useState(String(bill.amount))
+  const [accountId, setAccountId] = useState(bill.account_id ?? activeAccounts(accounts)[0]?.id ?? '')
+  const [payeeId, setPayeeId] = useState(bill.payee_id ?? '')
+  const [repeats, setRepeats] = useState(!!bill.series_id || bill.recurring)
+  const [day, setDay] = useState(String(series?.recur_day ?? bill.recur_day ?? Number(bill.due_date.slice(8, 10))))
+  const [scope, setScope] = useState<'this' | 'series'>('this')
+  const [sync, setSync] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const amt = Number(amount)
+  const payments = bill.payments ?? []
+  const stopping = !!bill.series_id && !repeats
+  const changed = {
+    amount: amt > 0 && amt !== Number(bill.amount),
+    category: category !== bill.category,
+    payee: payeeId !== (bill.payee_id ?? ''),
+  }
+  // expenses only exist once something was paid
+  const offerSync = payments.length > 0 && (changed.amount || changed.category || changed.payee)
+  const choices = categories.includes(bill.category) ? categories : [bill.category, ...categories]
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const d = Number(day)
+    if (!(amt > 0)) return setError('Amount must be a positive number.')
+    if (!due) return setError('Pick a due date.')
+    if (!category) return setError('Pick a category.')
+    if (repeats && (!Number.isInteger(d) || d < 1 || d > 28)) return setError('Day must be between 1 and 28.')
+    if (stopping && !window.confirm(`Stop repeating after ${due}?\n\nLater unpaid bills of this series will be removed.`)) return
+    setSaving(true); setError(null)
+    const err = await onSave({
+      due_date: due,
+      category,
+      amount: amt,
+      account_id: accountId || null,
+      payee_id: payeeId || null,
+      recur_day: repeats ? d : null,
+      apply_to_series: !!bill.series_id && repeats && scope === 'series',
+      sync_expenses: offerSync && sync,
+    })
+    setSaving(false)
+    if (err) setError(err)
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 grid place-items-center bg-slate-900/40 p-4" role="dialog" aria-modal="true">
+      <form onSubmit={submit} className={cx(s.card, 'grid max-h-[90dvh] w-full max-w-md gap-3 overflow-auto p-4')}>
+        <h2 className="text-base font-semibold">Edit bill • {bill.category}</h2>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm text-slate-600">Due date</label>
+            <input type="date" value={due} onChange={e => setDue(e.target.value)} className={s.input} />
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">Amount</label>
+            <input type="number" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} className={s.input} autoFocus />
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">Category</label>
+            <select value={category} onChange={e => setCategory(e.target.value)} className={s.select}>
+              {choices.map(c => <option key={c}>{c}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">Pay from</label>
+            <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+          </div>
+          <div className="col-span-2">
+            <label className="text-sm text-slate-600">Payee</label>
+            <PayeeSelect value={payeeId} onChange={setPayeeId} />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={repeats} onChange={e => setRepeats(e.target.checked)} />
+            Recurring monthly
+          </label>
+          <div>
+            <label className="text-sm text-slate-600">Recur day (1–28)</label>
+            <input
+              type="number"
+              min={1}
+              max={28}
+              value={day}
+              onChange={e => setDay(e.target.value)}
+              className={s.input}
+              disabled={!repeats || (!!bill.series_id && scope === 'this')}
+            />
+          </div>
+        </div>
+
+        {bill.series_id && repeats && (
+          <fieldset className="grid gap-1 rounded-xl bg-slate-50 p-3 text-sm">
+            <legend className="sr-only">Apply changes to</legend>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="scope" checked={scope === 'this'} onChange={() => setScope('this')} />
+              This bill only
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="scope" checked={scope === 'series'} onChange={() => setScope('series')} />
+              This and future bills in the series
+            </label>
+            <span className="text-xs text-slate-500">
+              {scope === 'series'
+                ? 'Unpaid bills due today or later take the new category, amount, account, payee and day. Paid, past and separately edited ones keep theirs.'
+                : 'Later changes to the series leave this bill as it is.'}
+            </span>
+          </fieldset>
+        )}
+        {stopping && (
+          <p className="text-sm text-amber-800">The series stops after this bill; later unpaid bills are removed unless edited on their own.</p>
+        )}
+
+        {offerSync && (
+          <label className="flex items-start gap-2 rounded-xl bg-slate-50 p-3 text-sm">
+            <input type="checkbox" checked={sync} onChange={e => setSync(e.target.checked)} className="mt-1" />
+            <span>
+              Also update the linked expense{payments.length === 1 ? '' : 's'}
+              <span className="block text-xs text-slate-500">
+                {[
+                  (changed.category || changed.payee) && `${changed.category ? 'Category' : 'Payee'}${changed.category && changed.payee ? ' and payee' : ''} on ${payments.length === 1 ? 'the expense' : `all ${payments.length} expenses`}`,
+                  changed.amount && (payments.length === 1
+                    ? `Amount ${fmtCurrency(Number(payments[0].amount))} → ${fmtCurrency(amt)}`
+                    : `Amounts stay as paid; edit them under Payments`),
+                ].filter(Boolean).join('. ')}
+              </span>
+            </span>
+          </label>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+          <button type="button" onClick={onCancel} className={cx(s.btn, s.secondary)}>Cancel</button>
+          <button type="submit" className={cx(s.btn, s.primary)} disabled={saving}>{saving ? 'Saving…' : 'Save'}</button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+// Terms apply from today on: unpaid upcoming bills change, paid and past ones don't.
+function SeriesDialog({
+  series, onSave, onCancel,
+}: {
+  series: BillSeries
+  onSave: (terms: { amount: number; recur_day: number; stop_date: string | null }) => Promise<string | null>
+  onCancel: () => void
+}) {
+  const [amount, setAmount] = useState(String(series.amount))
+  const [day, setDay] = useState(String(series.recur_day))
+  const [stop, setStop] = useState(series.stop_date ?? '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amt = Number(amount)
+    const d = Number(day)
+    if (!(amt > 0)) return setError('Amount must be a positive number.')
+    if (!Number.isInteger(d) || d < 1 || d > 28) return setError('Day must be between 1 and 28.')
+    if (stop && stop < series.starts_on) return setError(`Stop date can't be before ${series.starts_on}.`)
+    setSaving(true); setError(null)
+    const err = await onSave({ amount: amt, recur_day: d, stop_date: stop || null })
+    setSaving(false)
+    if (err) setError(err)
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 grid place-items-center bg-slate-900/40 p-4" role="dialog" aria-modal="true">
+      <form onSubmit={submit} className={cx(s.card, 'grid max-h-[90dvh] w-full max-w-md gap-3 overflow-auto p-4')}>
+        <h2 className="text-base font-semibold">Edit series • {series.category}</h2>
+        <p className="text-sm text-slate-600">
+          Changes apply to unpaid bills due today or later. Paid and past bills keep their amounts.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm text-slate-600">Amount</label>
+            <input type="number" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} className={s.input} autoFocus />
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">Day of month (1–28)</label>
+            <input type="number" min={1} max={28} value={day} onChange={e => setDay(e.target.value)} className={s.input} />
+          </div>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Stop after (optional)</label>
+          <input type="date" value={stop} onChange={e => setStop(e.target.value)} className={s.input} />
+        </div>
+        <div className="flex items-center justify-end gap-2">
+          {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+          <button type="button" onClick={onCancel} className={cx(s.btn, s.secondary)}>Cancel</button>
+          <button type="submit" className={cx(s.btn, s.primary)} disabled={saving}>{saving ? 'Saving…' : 'Save series'}</button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+// Sub-ledger of one bill: each payment is its own expense. The bill is marked
+// paid by the server once the payments cover its amount.
+function PaymentsDialog({
+  bill, accounts, canWrite, today, onChanged, onClose,
+}: {
+  bill: Bill
+  accounts: Account[]
+  canWrite: boolean
+  today: string
+  onChanged: () => Promise<void>
+  onClose: () => void
+}) {
+  const left = remaining(bill)
+  const [date, setDate] = useState(today)
+  const [amount, setAmount] = useState(left ? String(left) : '')
+  const [note, setNote] = useState('')
+  const [accountId, setAccountId] = useState(bill.account_id ?? activeAccounts(accounts)[0]?.id ?? '')
+  const [reference, setReference] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const payments = [...(bill.payments ?? [])].sort((a, b) => a.paid_on.localeCompare(b.paid_on))
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amt = Number(amount)
+    if (!(amt > 0)) return setError('Amount must be a positive number.')
+    if (amt > left) return setError(`Only ${fmtCurrency(left)} is left to pay.`)
+    setBusy(true); setError(null)
+    const err = await addPayment(bill.id, { paid_on: date, amount: amt, note, account_id: accountId, reference })
+    if (!err) await onChanged()
+    setBusy(false)
+    if (err) return setError(err)
+    const next = Math.round((left - amt) * 100) / 100
+    setAmount(next ? String(next) : '')
+    setNote('')
+    setReference('')
+  }
+
+  const remove = async (p: BillPayment) => {
+    if (!window.confirm(`Remove the ${fmtCurrency(Number(p.amount))} payment of ${p.paid_on}?\n\nIts expense is deleted too.`)) return
+    setBusy(true); setError(null)
+    const err = await removePayment(p)
+    if (!err) await onChanged()
+    setBusy(false)
+    if (err) setError(err)
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 grid place-items-center bg-slate-900/40 p-4" role="dialog" aria-modal="true">
+      <div className={cx(s.card, 'grid max-h-[90dvh] w-full max-w-md gap-3 overflow-auto p-4')}>
+        <div className="flex items-start justify-between gap-2">
+          <h2 className="text-base font-semibold">Payments • {bill.category}</h2>
+          <BillStatusBadge bill={bill} today={today} />
+        </div>
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div>
+            <div className="text-xs text-slate-500">Bill</div>
+            <div className="font-semibold">{fmtCurrency(Number(bill.amount))}</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-500">Paid</div>
+            <div className="font-semibold">{fmtCurrency(paidTotal(bill))}</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-500">Remaining</div>
+            <div className={cx('font-semibold', left > 0 && 'text-rose-700')}>{fmtCurrency(left)}</div>
+          </div>
+        </div>
+
+        {payments.length === 0 ? (
+          <div className="text-sm text-slate-600">No payments yet.</div>
         ) : (
-          items.map(b => (
-            <div key={b.id} className={cx(s.card, 'p-3')}>
-              <div className="flex items-center justify-between">
-                <div className="text-sm font-medium">{b.category}</div>
-                <div className="text-sm font-semibold">{fmtCurrency(Number(b.amount))}</div>
+          <ul className="divide-y divide-slate-100 text-sm">
+            {payments.map(p => (
+              <li key={p.id} className="flex items-center gap-2 py-2">
+                <span className="flex-1">
+                  {p.paid_on}
+                  <span className="block text-xs text-slate-500">
+                    {[accountName(accounts, p.account_id), p.reference && `Ref ${p.reference}`, p.note].filter(Boolean).join(' • ')}
+                  </span>
+                </span>
+                <span className="font-semibold">{fmtCurrency(Number(p.amount))}</span>
+                {canWrite && (
+                  <button onClick={() => remove(p)} className="text-xs font-medium text-rose-700" disabled={busy}>Remove</button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canWrite && left > 0 && (
+          <form onSubmit={add} className="grid gap-3 rounded-xl bg-slate-50 p-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm text-slate-600">Date</label>
+                <input type="date" value={date} onChange={e => setDate(e.target.value)} className={s.input} />
               </div>
-              <div className="mt-1 text-xs text-slate-600">
-                Due {b.due_date} • {b.recurring ? `Recurring (day ${b.recur_day ?? '-'})` : 'One-time'}
+              <div>
+                <label className="text-sm text-slate-600">Amount</label>
+                <input type="number" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} className={s.input} />
               </div>
-              <div className="mt-1 text-sm">Status: {b.paid ? 'Paid' : 'Unpaid'}</div>
-
-              <div className="mt-2 grid grid-cols-2 gap-2">
-                {canWrite ? (
-                  <>
-                    <button onClick={() => togglePaid(b)} className={cx(s.btn, s.secondary)}>
-                      {b.paid ? 'Mark Unpaid' : 'Mark Paid'}
-                    </button>
-                    <button
-                      onClick={() => del(b)}
-                      className={cx(s.btn, s.danger)}
-                      disabled={deletingId === b.id}
-                    >
-                      {deletingId === b.id ? 'Deleting…' : 'Delete'}
-                    </button>
-                  </>
-                ) : (
-                  <div className="col-span-2 text-right text-slate-400">View only</div>
-                )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm text-slate-600">Pay from</label>
+                <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+              </div>
+              <div>
+                <label className="text-sm text-slate-600">Reference no.</label>
+                <input value={reference} onChange={e => setReference(e.target.value)} className={s.input} />
               </div>
             </div>
-          ))
+            <div>
+              <label className="text-sm text-slate-600">Note (optional)</label>
+              <input value={note} onChange={e => setNote(e.target.value)} className={s.input} placeholder="e.g., 2nd installment" />
+            </div>
+            <div className="flex justify-end">
+              <button type="submit" className={cx(s.btn, s.primary)} disabled={busy}>{busy ? 'Saving…' : 'Add payment'}</button>
+            </div>
+          </form>
         )}
-      </div>
 
-      {/* ===== Desktop table ===== */}
-      <div className={cx(s.card, 'hidden md:block')}>
-        <div className="overflow-auto">
-          <table className="w-full min-w-[760px] text-sm">
-            <thead>
-              <tr>
-                <th className={s.th}>Due</th>
-                <th className={s.th}>Category</th>
-                <th className={cx(s.th, 'text-right')}>Amount</th>
-                <th className={s.th}>Recurring</th>
-                <th className={s.th}>Status</th>
-                <th className={cx(s.th, 'text-right')}>Action</th>
-              </tr>
-            </thead>
-            <tbody>
-              {items.length === 0 ? (
-                <tr>
-                  <td className={s.td} colSpan={6}>No bills yet.</td>
-                </tr>
-              ) : (
-                items.map(b => (
-                  <tr key={b.id} className="border-t hover:bg-slate-50/50">
-                    <td className={cx(s.td, 'whitespace-nowrap')}>{b.due_date}</td>
-                    <td className={s.td}>{b.category}</td>
-                    <td className={cx(s.td, 'text-right font-semibold')}>{fmtCurrency(Number(b.amount))}</td>
-                    <td className={s.td}>{b.recurring ? `Yes (day ${b.recur_day ?? '-'})` : 'No'}</td>
-                    <td className={s.td}>{b.paid ? 'Paid' : 'Unpaid'}</td>
-                    <td className={cx(s.td, 'text-right space-x-2')}>
-                      {canWrite ? (
-                        <>
-                          <button onClick={() => togglePaid(b)} className={cx(s.btn, s.secondary)}>
-                            {b.paid ? 'Mark Unpaid' : 'Mark Paid'}
-                          </button>
-                          <button
-                            onClick={() => del(b)}
-                            className={cx(s.btn, s.danger)}
-                            disabled={deletingId === b.id}
-                          >
-                            {deletingId === b.id ? 'Deleting…' : 'Delete'}
-                          </button>
-                        </>
-                      ) : (
-                        <span className="text-slate-400">View only</span>
-                      )}
-                    </td>
-                  </tr>
-                ))
-              )}
-            </tbody>
-          </table>
+        <div className="flex items-center justify-end gap-2">
+          {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+          <button type="button" onClick={onClose} className={cx(s.btn, s.secondary)}>Close</button>
         </div>
       </div>
-    </section>
+    </div>
+  )
+}
+
+// Records what was actually paid: the expense is booked on this date, for this
+// amount, from this account, and the bill is closed even if the amount differs.
+function PayDialog({
+  bill, accounts, today, onPay, onCancel,
+}: {
+  bill: Bill
+  accounts: Account[]
+  today: string
+  onPay: (payment: NewPayment) => Promise<string | null>
+  onCancel: () => void
+}) {
+  const left = remaining(bill)
+  const [date, setDate] = useState(today)
+  const [amount, setAmount] = useState(String(left))
+  const [accountId, setAccountId] = useState(bill.account_id ?? activeAccounts(accounts)[0]?.id ?? '')
+  const [reference, setReference] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const amt = Number(amount)
+  const diff = amt > 0 ? Math.round((amt - left) * 100) / 100 : 0
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!(amt > 0)) return setError('Amount must be a positive number.')
+    if (!date) return setError('Pick the date it was paid.')
+    setSaving(true); setError(null)
+    const err = await onPay({ paid_on: date, amount: amt, account_id: accountId, reference })
+    setSaving(false)
+    if (err) setError(err)
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 grid place-items-center bg-slate-900/40 p-4" role="dialog" aria-modal="true">
+      <form onSubmit={submit} className={cx(s.card, 'grid max-h-[90dvh] w-full max-w-md gap-3 overflow-auto p-4')}>
+        <h2 className="text-base font-semibold">Pay bill • {bill.category}</h2>
+        <p className="text-sm text-slate-600">
+          Due {bill.due_date} • Billed {fmtCurrency(Number(bill.amount))}
+          {paidTotal(bill) > 0 && ` • ${fmtCurrency(paidTotal(bill))} already paid`}
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm text-slate-600">Paid on</label>
+            <input type="date" value={date} max={today} onChange={e => setDate(e.target.value)} className={s.input} />
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">Amount paid</label>
+            <input type="number" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} className={s.input} autoFocus />
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">Pay from</label>
+            <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+          </div>
+          <div>
+            <label className="text-sm text-slate-600">Reference no.</label>
+            <input value={reference} onChange={e => setReference(e.target.value)} className={s.input} placeholder="optional" />
+          </div>
+        </div>
+        {diff !== 0 && (
+          <div className="text-sm text-slate-600">
+            {diff > 0 ? 'More' : 'Less'} than billed by <Variance value={diff} />. The bill is marked paid either way.
+          </div>
+        )}
+        <div className="flex items-center justify-end gap-2">
+          {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+          <button type="button" onClick={onCancel} className={cx(s.btn, s.secondary)}>Cancel</button>
+          <button type="submit" className={cx(s.btn, s.primary)} disabled={saving}>{saving ? 'Saving…' : 'Mark paid'}</button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+function AccountSelect({ accounts, value, onChange }: { accounts: Account[]; value: string; onChange: (id: string) => void }) {
+  return (
+    <select value={value} onChange={e => onChange(e.target.value)} className={s.select}>
+      {activeAccounts(accounts).map(a => (
+        <option key={a.id} value={a.id}>{a.name}</option>
+      ))}
+    </select>
+  )
+}
+
+// Paid minus billed: over in rose, under in emerald.
+function Variance({ value }: { value: number }) {
+  return (
+    <span className={cx('font-medium', value > 0 ? 'text-rose-700' : 'text-emerald-700')}>
+      {value > 0 ? '+' : '−'}{fmtCurrency(Math.abs(value))}
+    </span>
   )
 }
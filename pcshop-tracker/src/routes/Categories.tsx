@@ -0,0 +1,328 @@
+// src/routes/Categories.tsx
+import { useState } from 'react'
+import { supabase } from '../lib/supabaseClient'
+import { fmtCurrency } from '../lib/currency'
+import { useSession } from '../lib/session'
+import { SPIKE_DEFAULT_PCT } from '../lib/billHistory'
+import { CATEGORY_KINDS, byKind, reloadCategories, useCategories, type Category, type CategoryKind } from '../lib/categories'
+import { styles as s, cx } from '../ui'
+
+const KIND_LABEL: Record<CategoryKind, string> = {
+  income: 'Income',
+  expense: 'Expense',
+  savings: 'Savings',
+  bill: 'Bills',
+}
+
+export default function Categories() {
+  const { profile } = useSession()
+  const isAdmin = profile?.role === 'admin'
+  const catalog = useCategories()
+
+  const [kind, setKind] = useState<CategoryKind>('income')
+  const [name, setName] = useState('')
+  const [color, setColor] = useState('#6366f1')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [msg, setMsg] = useState<string | null>(null)
+
+  // inline rename
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameTo, setRenameTo] = useState('')
+  // merge source -> target
+  const [mergeFrom, setMergeFrom] = useState<string>('')
+  const [mergeTo, setMergeTo] = useState<string>('')
+  // unit definition (income only): what one sale is and its default price
+  const [unitId, setUnitId] = useState<string | null>(null)
+  const [unitLabel, setUnitLabel] = useState('')
+  const [unitPrice, setUnitPrice] = useState('')
+  // spike alert (bills only): flag bills this % above their average
+  const [spikeId, setSpikeId] = useState<string | null>(null)
+  const [spikePct, setSpikePct] = useState('')
+
+  const list = byKind(catalog.items, kind, true)
+
+  // Run a write, surface its error, then refresh the shared catalog.
+  const run = async (fn: () => PromiseLike<{ error: { message: string } | null }>, done?: string) => {
+    setBusy(true); setError(null); setMsg(null)
+    const { error } = await fn()
+    await reloadCategories()
+    setBusy(false)
+    if (error) { setError(error.message); return false }
+    if (done) setMsg(done)
+    return true
+  }
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const n = name.trim()
+    if (!n) return
+    if (list.some(c => c.name.toLowerCase() === n.toLowerCase())) {
+      return setError(`"${n}" already exists under ${KIND_LABEL[kind]}.`)
+    }
+    const sort_order = list.reduce((m, c) => Math.max(m, c.sort_order), 0) + 1
+    const ok = await run(() => supabase.from('categories').insert({ kind, name: n, color, sort_order }), `Added "${n}".`)
+    if (ok) setName('')
+  }
+
+  const saveRename = async (c: Category) => {
+    const n = renameTo.trim()
+    if (!n || n === c.name) { setRenamingId(null); return }
+    const ok = window.confirm(
+      `Rename "${c.name}" to "${n}"?\n\nExisting ${c.kind === 'bill' ? 'bills and bill expenses' : `${c.kind} transactions`} will be updated too.`
+    )
+    if (!ok) return
+    const done = await run(() => supabase.rpc('rename_category', { cat_id: c.id, new_name: n }), `Renamed to "${n}".`)
+    if (done) setRenamingId(null)
+  }
+
+  const editUnit = (c: Category) => {
+    setUnitId(c.id); setUnitLabel(c.unit_label ?? ''); setUnitPrice(c.unit_price != null ? String(c.unit_price) : '')
+  }
+
+  // An empty label removes the unit; rows already entered by the unit keep their quantities.
+  const saveUnit = async (c: Category) => {
+    const label = unitLabel.trim()
+    const price = Number(unitPrice)
+    if (label && !(price > 0)) return setError('Enter a default price above zero.')
+    const patch = label ? { unit_label: label, unit_price: price } : { unit_label: null, unit_price: null }
+    const done = await run(
+      () => supabase.from('categories').update(patch).eq('id', c.id),
+      label ? `"${c.name}" now sells per ${label} at ${fmtCurrency(price)}.` : `Removed the unit from "${c.name}".`,
+    )
+    if (done) setUnitId(null)
+  }
+
+  // Empty goes back to the default percentage.
+  const saveSpike = async (c: Category) => {
+    const pct = spikePct.trim() ? Number(spikePct) : null
+    if (pct !== null && !(pct > 0 && pct < 1000)) return setError('Enter a percentage above zero.')
+    const done = await run(
+      () => supabase.from('categories').update({ spike_pct: pct }).eq('id', c.id),
+      `"${c.name}" bills are flagged ${pct ?? SPIKE_DEFAULT_PCT}% above their average.`,
+    )
+    if (done) setSpikeId(null)
+  }
+
+  const recolor = (c: Category, value: string) =>
+    run(() => supabase.from('categories').update({ color: value }).eq('id', c.id))
+
+  const toggleArchive = (c: Category) =>
+    run(
+      () => supabase.from('categories').update({ archived: !c.archived }).eq('id', c.id),
+      c.archived ? `Restored "${c.name}".` : `Archived "${c.name}". It stays on existing rows but is hidden from forms.`
+    )
+
+  // Swap with the neighbour, renumbering the whole list so gaps/duplicates heal.
+  const move = (index: number, dir: -1 | 1) => {
+    const j = index + dir
+    if (j < 0 || j >= list.length) return
+    const order = [...list]
+    ;[order[index], order[j]] = [order[j], order[index]]
+    const changed = order.map((c, i) => ({ c, sort: i + 1 })).filter(x => x.c.sort_order !== x.sort)
+    return run(async () => {
+      const results = await Promise.all(
+        changed.map(x => supabase.from('categories').update({ sort_order: x.sort }).eq('id', x.c.id))
+      )
+      return { error: results.find(r => r.error)?.error ?? null }
+    })
+  }
+
+  const merge = async () => {
+    const from = list.find(c => c.id === mergeFrom)
+    const to = list.find(c => c.id === mergeTo)
+    if (!from || !to || from.id === to.id) return setError('Pick two different categories to merge.')
+    const ok = window.confirm(
+      `Merge "${from.name}" into "${to.name}"?\n\n` +
+      `Every ${from.kind === 'bill' ? 'bill and bill expense' : `${from.kind} transaction`} in "${from.name}" moves to "${to.name}", ` +
+      `and "${from.name}" is removed from the catalog.\n\nThis cannot be undone.`
+    )
+    if (!ok) return
+    const done = await run(() => supabase.rpc('merge_category', { source_id: from.id, target_id: to.id }), `Merged "${from.name}" into "${to.name}".`)
+    if (done) { setMergeFrom(''); setMergeTo('') }
+  }
+
+  if (!profile) return <div className="p-4">Loading…</div>
+  if (!isAdmin) {
+    return <div className={cx(s.alert, 'm-4 border-rose-200 bg-rose-50 text-rose-700')}>Admins only.</div>
+  }
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold">Categories</h1>
+          <p className="text-sm text-slate-600">Used by every form, filter and report. Archived categories stay on old rows.</p>
+        </div>
+        <div className="inline-flex flex-wrap gap-1 rounded-xl bg-slate-100 p-1">
+          {CATEGORY_KINDS.map(k => (
+            <button
+              key={k}
+              type="button"
+              onClick={() => { setKind(k); setRenamingId(null); setUnitId(null); setMergeFrom(''); setMergeTo('') }}
+              className={cx('rounded-lg px-3 py-1 text-sm', kind === k ? 'bg-white font-medium shadow-sm' : 'text-slate-600')}
+            >
+              {KIND_LABEL[k]}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      {msg && <div className={cx(s.alert, 'border-emerald-200 bg-emerald-50 text-emerald-800')}>{msg}</div>}
+      {(error || catalog.error) && (
+        <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error || catalog.error}</div>
+      )}
+
+      {/* Add */}
+      <form onSubmit={add} className={cx(s.card, 'grid grid-cols-1 gap-3 p-4 sm:grid-cols-6')}>
+        <div className="sm:col-span-4">
+          <label className="text-sm text-slate-600">New {KIND_LABEL[kind].toLowerCase()} category</label>
+          <input value={name} onChange={e => setName(e.target.value)} placeholder="e.g., Laminating" className={s.input} />
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Color</label>
+          <input type="color" value={color} onChange={e => setColor(e.target.value)} className={cx(s.input, 'h-[38px] p-1')} />
+        </div>
+        <div className="flex items-end">
+          <button type="submit" disabled={busy || !name.trim()} className={cx(s.btn, s.primary, 'w-full')}>Add</button>
+        </div>
+      </form>
+
+      {/* List */}
+      <div className={cx(s.card, 'divide-y divide-slate-100')}>
+        {!catalog.loaded ? (
+          <div className="p-4 text-sm text-slate-600">Loading…</div>
+        ) : list.length === 0 ? (
+          <div className="p-4 text-sm text-slate-600">No categories yet.</div>
+        ) : (
+          list.map((c, i) => (
+            <div key={c.id} className={cx('flex flex-wrap items-center gap-3 p-3', c.archived && 'bg-slate-50 text-slate-500')}>
+              <input
+                type="color"
+                value={c.color}
+                onChange={e => recolor(c, e.target.value)}
+                disabled={busy}
+                className="h-8 w-8 cursor-pointer rounded border border-slate-200"
+                title="Change color"
+              />
+              {renamingId === c.id ? (
+                <input
+                  className={cx(s.input, 'w-auto flex-1')}
+                  value={renameTo}
+                  onChange={e => setRenameTo(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') saveRename(c); if (e.key === 'Escape') setRenamingId(null) }}
+                  autoFocus
+                />
+              ) : (
+                <div className="flex-1 text-sm font-medium">
+                  {c.name}
+                  {c.archived && <span className="ml-2 rounded bg-slate-200 px-2 py-0.5 text-xs">archived</span>}
+                  {c.unit_label && (
+                    <span className="ml-2 text-xs font-normal text-slate-500">per {c.unit_label} • {fmtCurrency(Number(c.unit_price))}</span>
+                  )}
+                  {c.kind === 'bill' && (
+                    <span className="ml-2 text-xs font-normal text-slate-500">alert at +{c.spike_pct ?? SPIKE_DEFAULT_PCT}%</span>
+                  )}
+                </div>
+              )}
+              <div className="inline-flex flex-wrap gap-2">
+                {renamingId === c.id ? (
+                  <>
+                    <button type="button" onClick={() => saveRename(c)} disabled={busy} className={cx(s.btn, s.primary)}>Save</button>
+                    <button type="button" onClick={() => setRenamingId(null)} className={cx(s.btn, s.secondary)}>Cancel</button>
+                  </>
+                ) : unitId === c.id ? (
+                  <>
+                    <input
+                      value={unitLabel}
+                      onChange={e => setUnitLabel(e.target.value)}
+                      placeholder="unit, e.g. page"
+                      className={cx(s.input, 'w-36')}
+                      autoFocus
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      value={unitPrice}
+                      onChange={e => setUnitPrice(e.target.value)}
+                      placeholder="price"
+                      className={cx(s.input, 'w-28')}
+                      disabled={!unitLabel.trim()}
+                    />
+                    <button type="button" onClick={() => saveUnit(c)} disabled={busy} className={cx(s.btn, s.primary)}>Save</button>
+                    <button type="button" onClick={() => setUnitId(null)} className={cx(s.btn, s.secondary)}>Cancel</button>
+                  </>
+                ) : spikeId === c.id ? (
+                  <>
+                    <input
+                      type="number"
+                      step="1"
+                      min={1}
+                      value={spikePct}
+                      onChange={e => setSpikePct(e.target.value)}
+                      placeholder={`${SPIKE_DEFAULT_PCT} (default)`}
+                      className={cx(s.input, 'w-36')}
+                      title="Flag bills this many percent above their average"
+                      autoFocus
+                    />
+                    <button type="button" onClick={() => saveSpike(c)} disabled={busy} className={cx(s.btn, s.primary)}>Save</button>
+                    <button type="button" onClick={() => setSpikeId(null)} className={cx(s.btn, s.secondary)}>Cancel</button>
+                  </>
+                ) : (
+                  <>
+                    <button type="button" onClick={() => move(i, -1)} disabled={busy || i === 0} className={cx(s.btn, s.secondary, 'px-3')} aria-label="Move up">↑</button>
+                    <button type="button" onClick={() => move(i, 1)} disabled={busy || i === list.length - 1} className={cx(s.btn, s.secondary, 'px-3')} aria-label="Move down">↓</button>
+                    <button type="button" onClick={() => { setRenamingId(c.id); setRenameTo(c.name) }} className={cx(s.btn, s.secondary)}>Rename</button>
+                    {c.kind === 'income' && (
+                      <button type="button" onClick={() => editUnit(c)} className={cx(s.btn, s.secondary)}>Unit</button>
+                    )}
+                    {c.kind === 'bill' && (
+                      <button
+                        type="button"
+                        onClick={() => { setSpikeId(c.id); setSpikePct(c.spike_pct != null ? String(c.spike_pct) : '') }}
+                        className={cx(s.btn, s.secondary)}
+                      >
+                        Alert %
+                      </button>
+                    )}
+                    <button type="button" onClick={() => toggleArchive(c)} disabled={busy} className={cx(s.btn, c.archived ? s.secondary : s.danger)}>
+                      {c.archived ? 'Unarchive' : 'Archive'}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Merge */}
+      <div className={cx(s.card, 'grid grid-cols-1 gap-3 p-4 sm:grid-cols-5')}>
+        <div className="sm:col-span-5">
+          <h2 className="text-base font-semibold">Merge categories</h2>
+          <p className="text-sm text-slate-600">Re-points existing rows from one category to another, then removes the first.</p>
+        </div>
+        <div className="sm:col-span-2">
+          <label className="text-sm text-slate-600">Merge</label>
+          <select value={mergeFrom} onChange={e => setMergeFrom(e.target.value)} className={s.select}>
+            <option value="">Select…</option>
+            {list.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+        <div className="sm:col-span-2">
+          <label className="text-sm text-slate-600">Into</label>
+          <select value={mergeTo} onChange={e => setMergeTo(e.target.value)} className={s.select}>
+            <option value="">Select…</option>
+            {list.filter(c => c.id !== mergeFrom).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+        <div className="flex items-end">
+          <button type="button" onClick={merge} disabled={busy || !mergeFrom || !mergeTo} className={cx(s.btn, s.danger, 'w-full')}>
+            Merge
+          </button>
+        </div>
+      </div>
+    </section>
+  )
+}
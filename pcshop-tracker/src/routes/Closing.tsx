@@ -0,0 +1,363 @@
+// src/routes/Closing.tsx
+import { useEffect, useState } from 'react'
+import { formatISO } from 'date-fns'
+import { supabase } from '../lib/supabaseClient'
+import { fmtCurrency } from '../lib/currency'
+import { useSession } from '../lib/session'
+import { activeNames, useCategories } from '../lib/categories'
+import {
+  CLOSING_COLUMNS, DENOMINATIONS, countRows, streamTotal, varianceLabel, varianceTone,
+  type CashCount, type Closing as ClosingRow, type ClosingStream,
+} from '../lib/closing'
+import { styles as s, cx } from '../ui'
+
+type CountRow = { stream: string; denomination: number; quantity: number }
+
+const today = () => formatISO(new Date(), { representation: 'date' })
+
+export default function Closing() {
+  const { profile } = useSession()
+  const isAdmin = profile?.role === 'admin'
+  const canWrite = isAdmin || profile?.role === 'editor'
+  const catalog = useCategories()
+
+  const [tab, setTab] = useState<'count' | 'history'>('count')
+  const [day, setDay] = useState(today())
+  const [closing, setClosing] = useState<ClosingRow | null>(null)
+  const [streams, setStreams] = useState<ClosingStream[]>([]) // saved, for a closed day
+  const [savedCounts, setSavedCounts] = useState<CountRow[]>([])
+  const [expected, setExpected] = useState<Record<string, number>>({}) // live, for an open day
+  const [counts, setCounts] = useState<CashCount>({})
+  const [notes, setNotes] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const refresh = () => setReloadKey(k => k + 1)
+
+  // history
+  const [history, setHistory] = useState<ClosingRow[]>([])
+  const [onlyVariance, setOnlyVariance] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      setLoading(true); setError(null)
+      const { data, error } = await supabase.from('daily_closings').select(CLOSING_COLUMNS).eq('date', day).maybeSingle()
+      if (cancelled) return
+      if (error) { setLoading(false); return setError(error.message) }
+      const found = data as unknown as ClosingRow | null
+      setClosing(found)
+      if (found) {
+        const [st, ct] = await Promise.all([
+          supabase.from('daily_closing_streams').select('stream,expected,counted,variance').eq('closing_id', found.id).order('stream'),
+          supabase.from('daily_closing_counts').select('stream,denomination,quantity').eq('closing_id', found.id),
+        ])
+        if (cancelled) return
+        setStreams((st.data || []) as ClosingStream[])
+        setSavedCounts((ct.data || []) as CountRow[])
+      } else {
+        const { data: exp, error: expErr } = await supabase.rpc('expected_cash_income', { day })
+        if (cancelled) return
+        if (expErr) setError(expErr.message)
+        setExpected(Object.fromEntries(((exp || []) as { stream: string; expected: number }[]).map(r => [r.stream, Number(r.expected)])))
+      }
+      setLoading(false)
+    }
+    load()
+    return () => { cancelled = true }
+  }, [day, reloadKey])
+
+  // a different day starts a fresh count
+  useEffect(() => { setCounts({}); setNotes('') }, [day])
+
+  useEffect(() => {
+    if (tab !== 'history') return
+    let cancelled = false
+    let q = supabase.from('daily_closings').select(CLOSING_COLUMNS).order('date', { ascending: false }).limit(200)
+    if (onlyVariance) q = q.neq('variance', 0)
+    q.then(({ data, error }) => {
+      if (cancelled) return
+      if (error) return setError(error.message)
+      setHistory((data || []) as unknown as ClosingRow[])
+    })
+    return () => { cancelled = true }
+  }, [tab, onlyVariance, reloadKey])
+
+  // every active income stream, plus any stream that has income that day
+  const openStreams = [...new Set([...activeNames(catalog.items, 'income'), ...Object.keys(expected)])]
+  const expectedTotal = Object.values(expected).reduce((a, v) => a + v, 0)
+  const countedTotal = openStreams.reduce((a, st) => a + streamTotal(counts[st]), 0)
+  const variance = countedTotal - expectedTotal
+
+  const setQty = (stream: string, denom: number, qty: number) =>
+    setCounts(prev => ({ ...prev, [stream]: { ...prev[stream], [denom]: qty } }))
+
+  const closeDay = async () => {
+    if (!canWrite) return
+    const ok = window.confirm(
+      `Close ${day}?\n\n` +
+      `Expected: ${fmtCurrency(expectedTotal)}\n` +
+      `Counted:  ${fmtCurrency(countedTotal)}\n` +
+      `Variance: ${fmtCurrency(variance)} (${varianceLabel(variance)})\n\n` +
+      `The closing is locked once saved.`
+    )
+    if (!ok) return
+    setBusy(true); setError(null)
+    const { error } = await supabase.rpc('close_day', { day, counts: countRows(counts), notes })
+    setBusy(false)
+    if (error) return setError(error.message)
+    refresh()
+  }
+
+  const reopen = async () => {
+    if (!isAdmin || !closing) return
+    if (!window.confirm(`Reopen ${closing.date}? The saved count for this day is deleted.`)) return
+    setBusy(true); setError(null)
+    const { error } = await supabase.rpc('reopen_day', { day: closing.date })
+    setBusy(false)
+    if (error) return setError(error.message)
+    refresh()
+  }
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold">Daily closing</h1>
+          <p className="text-sm text-slate-600">Count the cash per stream and compare it with the income recorded to cash accounts.</p>
+        </div>
+        <div className="inline-flex flex-wrap gap-1 rounded-xl bg-slate-100 p-1">
+          {(['count', 'history'] as const).map(t => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={cx('rounded-lg px-3 py-1 text-sm', tab === t ? 'bg-white font-medium shadow-sm' : 'text-slate-600')}
+            >
+              {t === 'count' ? 'Cash count' : 'History'}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      {tab === 'count' && (
+        <>
+          <div className={cx(s.card, 'flex flex-wrap items-end gap-3 p-4')}>
+            <div>
+              <label className="text-sm text-slate-600">Day</label>
+              <input type="date" value={day} max={today()} onChange={e => setDay(e.target.value)} className={s.input} />
+            </div>
+            {closing ? (
+              <div className="text-sm text-slate-600">
+                🔒 Closed {new Date(closing.closed_at).toLocaleString()}
+                {closing.closer?.full_name && <> by <span className="font-medium">{closing.closer.full_name}</span></>}
+              </div>
+            ) : (
+              <div className="text-sm text-slate-600">Not closed yet.</div>
+            )}
+            {closing && isAdmin && (
+              <button type="button" onClick={reopen} disabled={busy} className={cx(s.btn, s.danger, 'ml-auto')}>Reopen day</button>
+            )}
+          </div>
+
+          <Summary
+            expected={closing ? Number(closing.expected_total) : expectedTotal}
+            counted={closing ? Number(closing.counted_total) : countedTotal}
+          />
+
+          {loading ? (
+            <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>Loading…</div>
+          ) : closing ? (
+            <ClosedDay closing={closing} streams={streams} counts={savedCounts} />
+          ) : (
+            <>
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                {openStreams.map(st => (
+                  <StreamCount
+                    key={st}
+                    stream={st}
+                    expected={expected[st] ?? 0}
+                    value={counts[st] ?? {}}
+                    onChange={(denom, qty) => setQty(st, denom, qty)}
+                    disabled={!canWrite}
+                  />
+                ))}
+              </div>
+              <div className={cx(s.card, 'grid gap-3 p-4')}>
+                <div>
+                  <label className="text-sm text-slate-600">Notes</label>
+                  <textarea
+                    value={notes}
+                    onChange={e => setNotes(e.target.value)}
+                    rows={2}
+                    placeholder="e.g., ₱50 short on PisoNet, coin jam on unit 3"
+                    className={s.input}
+                    disabled={!canWrite}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <button type="button" onClick={closeDay} disabled={!canWrite || busy} className={cx(s.btn, s.primary, 'w-full sm:w-auto')}>
+                    {busy ? 'Closing…' : 'Close day'}
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      {tab === 'history' && (
+        <div className={cx(s.card, 'p-4')}>
+          <label className="mb-3 inline-flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={onlyVariance} onChange={e => setOnlyVariance(e.target.checked)} />
+            Only days with a shortage or overage
+          </label>
+          {history.length === 0 ? (
+            <div className="text-sm text-slate-500">No closings to show.</div>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full min-w-[640px] text-sm">
+                <thead>
+                  <tr>
+                    <th className={s.th}>Day</th>
+                    <th className={cx(s.th, 'text-right')}>Expected</th>
+                    <th className={cx(s.th, 'text-right')}>Counted</th>
+                    <th className={cx(s.th, 'text-right')}>Variance</th>
+                    <th className={s.th}>Closed by</th>
+                    <th className={s.th}>Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map(h => (
+                    <tr key={h.id} className="border-t hover:bg-slate-50/50">
+                      <td className={s.td}>
+                        <button type="button" onClick={() => { setDay(h.date); setTab('count') }} className="font-medium text-indigo-700">
+                          {h.date}
+                        </button>
+                      </td>
+                      <td className={cx(s.td, 'text-right')}>{fmtCurrency(Number(h.expected_total))}</td>
+                      <td className={cx(s.td, 'text-right')}>{fmtCurrency(Number(h.counted_total))}</td>
+                      <td className={cx(s.td, 'text-right font-semibold', varianceTone(Number(h.variance)))}>
+                        {fmtCurrency(Number(h.variance))} <span className="text-xs font-normal">{varianceLabel(Number(h.variance))}</span>
+                      </td>
+                      <td className={cx(s.td, 'text-xs text-slate-600')}>
+                        {h.closer?.full_name ?? '—'}
+                        <div>{new Date(h.closed_at).toLocaleString()}</div>
+                      </td>
+                      <td className={s.td}>{h.notes}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
+
+function Summary({ expected, counted }: { expected: number; counted: number }) {
+  const variance = counted - expected
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      <div className={cx(s.card, 'p-3')}>
+        <div className="text-xs text-slate-500">Expected</div>
+        <div className="text-lg font-semibold">{fmtCurrency(expected)}</div>
+      </div>
+      <div className={cx(s.card, 'p-3')}>
+        <div className="text-xs text-slate-500">Counted</div>
+        <div className="text-lg font-semibold">{fmtCurrency(counted)}</div>
+      </div>
+      <div className={cx(s.card, 'p-3')}>
+        <div className="text-xs text-slate-500">Variance • {varianceLabel(variance)}</div>
+        <div className={cx('text-lg font-semibold', varianceTone(variance))}>{fmtCurrency(variance)}</div>
+      </div>
+    </div>
+  )
+}
+
+function StreamCount({
+  stream, expected, value, onChange, disabled,
+}: {
+  stream: string
+  expected: number
+  value: Record<number, number>
+  onChange: (denom: number, qty: number) => void
+  disabled?: boolean
+}) {
+  const counted = streamTotal(value)
+  const variance = counted - expected
+  return (
+    <div className={cx(s.card, 'p-4')}>
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="font-semibold">{stream}</h2>
+        <span className={cx('text-sm font-medium', varianceTone(variance))}>
+          {fmtCurrency(counted)} / {fmtCurrency(expected)}
+        </span>
+      </div>
+      <div className="mt-3 grid grid-cols-2 gap-2 sm:grid-cols-5">
+        {DENOMINATIONS.map(d => (
+          <label key={d} className="grid gap-1 text-xs text-slate-500">
+            {d < 1 ? `${d * 100}¢` : fmtCurrency(d)}
+            <input
+              type="number"
+              min={0}
+              step={1}
+              inputMode="numeric"
+              value={value[d] || ''}
+              onChange={e => onChange(d, Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+              className={cx(s.input, 'px-2 py-1 text-right')}
+              disabled={disabled}
+              placeholder="0"
+            />
+          </label>
+        ))}
+      </div>
+      <div className={cx('mt-2 text-right text-xs', varianceTone(variance))}>
+        {varianceLabel(variance)}{Math.abs(variance) >= 0.005 && ` by ${fmtCurrency(Math.abs(variance))}`}
+      </div>
+    </div>
+  )
+}
+
+function ClosedDay({ closing, streams, counts }: { closing: ClosingRow; streams: ClosingStream[]; counts: CountRow[] }) {
+  return (
+    <div className={cx(s.card, 'p-4')}>
+      <div className="overflow-auto">
+        <table className="w-full min-w-[560px] text-sm">
+          <thead>
+            <tr>
+              <th className={s.th}>Stream</th>
+              <th className={s.th}>Counted cash</th>
+              <th className={cx(s.th, 'text-right')}>Expected</th>
+              <th className={cx(s.th, 'text-right')}>Counted</th>
+              <th className={cx(s.th, 'text-right')}>Variance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {streams.map(st => (
+              <tr key={st.stream} className="border-t">
+                <td className={cx(s.td, 'font-medium')}>{st.stream}</td>
+                <td className={cx(s.td, 'text-xs text-slate-500')}>
+                  {counts
+                    .filter(c => c.stream === st.stream)
+                    .sort((a, b) => Number(b.denomination) - Number(a.denomination))
+                    .map(c => `${c.quantity} × ${fmtCurrency(Number(c.denomination))}`)
+                    .join(', ') || '—'}
+                </td>
+                <td className={cx(s.td, 'text-right')}>{fmtCurrency(Number(st.expected))}</td>
+                <td className={cx(s.td, 'text-right')}>{fmtCurrency(Number(st.counted))}</td>
+                <td className={cx(s.td, 'text-right font-semibold', varianceTone(Number(st.variance)))}>{fmtCurrency(Number(st.variance))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {closing.notes && <div className="mt-3 rounded-xl bg-slate-50 p-3 text-sm text-slate-700">{closing.notes}</div>}
+    </div>
+  )
+}
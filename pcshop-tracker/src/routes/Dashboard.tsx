@@ -1,6 +1,16 @@
 import { useEffect, useMemo, useState } from 'react'
+import { addDays, formatISO, subYears } from 'date-fns'
+import { Link } from 'react-router-dom'
 import { supabase } from '../lib/supabaseClient'
 import { fmtCurrency } from '../lib/currency'
+import { colorOf, useCategories } from '../lib/categories'
+import { fetchBalances, type AccountBalance } from '../lib/accounts'
+import { useSession } from '../lib/session'
+import { PAYMENT_COLUMNS, dueHint, remaining, type Bill } from '../lib/bills'
+import { fetchBillHistory, findSpikes, historyGroup, type HistoryBill } from '../lib/billHistory'
+import { BillStatusBadge } from '../components/BillStatusBadge'
+import { SpikeBadge } from '../components/SpikeBadge'
+import { QuickAdd } from '../components/QuickAdd'
 import { styles as s, cx } from '../ui'
 
 type TxType = 'income' | 'expense' | 'savings'
@@ -9,20 +19,30 @@ type Row = { id?: string; date?: string; amount: number; type: TxType; category?
 export default function Dashboard() {
   const [rows, setRows] = useState<Row[]>([])
   const [loading, setLoading] = useState(false)
+  const [balances, setBalances] = useState<AccountBalance[]>([])
+  const catalog = useCategories()
+  const { profile } = useSession()
+  const canWrite = profile?.role === 'admin' || profile?.role === 'editor'
+  const [reloadKey, setReloadKey] = useState(0)
 
   useEffect(() => {
     const fetchIt = async () => {
       setLoading(true)
-      const { data } = await supabase
-        .from('transactions')
-        .select('id,date,amount,type,category,note')
-        .order('date', { ascending: false })
-        .limit(100)
+      const [{ data }, bal] = await Promise.all([
+        supabase
+          .from('transactions')
+          .select('id,date,amount,type,category,note')
+          .is('deleted_at', null)
+          .order('date', { ascending: false })
+          .limit(100),
+        fetchBalances(),
+      ])
       setRows((data as Row[]) || [])
+      setBalances(bal.rows.filter(b => !b.archived))
       setLoading(false)
     }
     fetchIt()
-  }, [])
+  }, [reloadKey])
 
   const totals = useMemo(() => {
     const acc = { income: 0, expense: 0, savings: 0 }
@@ -38,6 +58,8 @@ export default function Dashboard() {
 
   return (
     <section className="grid gap-6">
+      {canWrite && <QuickAdd onAdded={() => setReloadKey(k => k + 1)} />}
+
       {/* KPI cards — stack on mobile, 2 cols on small screens, 4 on md+ */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:grid-cols-4">
         <Card title="Income" value={fmtCurrency(totals.income)} accent="from-emerald-500 to-teal-500" />
@@ -51,6 +73,31 @@ export default function Dashboard() {
         />
       </div>
 
+      <Alerts />
+      <BillsAtRisk />
+
+      {/* Account balances */}
+      {balances.length > 0 && (
+        <div className={cx(s.card, 'p-4')}>
+          <div className="mb-3 flex items-center justify-between">
+            <h2 className="text-base font-semibold">Accounts</h2>
+            <Link to="/accounts" className="text-xs font-medium text-indigo-700">Transfers & details →</Link>
+          </div>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 md:grid-cols-4">
+            {balances.map(b => (
+              <Link
+                key={b.account_id}
+                to={`/accounts/${b.account_id}`}
+                className="rounded-xl border border-slate-200 bg-white p-3 shadow-sm ring-1 ring-black/5 hover:border-indigo-200"
+              >
+                <div className="text-sm text-slate-500">{b.name}</div>
+                <div className={cx('text-lg font-semibold', b.balance < 0 && 'text-rose-600')}>{fmtCurrency(b.balance)}</div>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent Activity */}
       <div className={cx(s.card, 'p-4')}>
         <div className="mb-3 flex items-center justify-between">
@@ -68,7 +115,10 @@ export default function Dashboard() {
             rows.slice(0, 12).map((r) => (
               <div key={r.id} className={cx('rounded-xl border border-slate-200 bg-white p-3 shadow-sm ring-1 ring-black/5')}>
                 <div className="flex items-center justify-between gap-2">
-                  <div className="text-sm font-medium">{r.category || r.type}</div>
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {r.category && <Dot color={colorOf(catalog.items, r.type, r.category)} />}
+                    {r.category || r.type}
+                  </div>
                   <div
                     className={cx(
                       'text-sm font-semibold',
@@ -108,7 +158,12 @@ export default function Dashboard() {
                     <tr key={r.id} className="border-t hover:bg-slate-50/50">
                       <td className={s.td}>{r.date}</td>
                       <td className={s.td}>{r.type}</td>
-                      <td className={s.td}>{r.category}</td>
+                      <td className={s.td}>
+                        <span className="inline-flex items-center gap-2">
+                          {r.category && <Dot color={colorOf(catalog.items, r.type, r.category)} />}
+                          {r.category}
+                        </span>
+                      </td>
                       <td className={s.td}>{r.note}</td>
                       <td
                         className={cx(
@@ -131,6 +186,138 @@ export default function Dashboard() {
   )
 }
 
+// Things that need a look. For now: bills well above their usual amount that
+// are still unpaid or came due in the last 30 days. Hidden when there's nothing.
+function Alerts() {
+  const catalog = useCategories()
+  const [bills, setBills] = useState<HistoryBill[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchIt = async () => {
+      // a year back is enough history for the rolling averages
+      const res = await fetchBillHistory(iso(subYears(new Date(), 1)))
+      if (cancelled) return
+      setBills(res.rows)
+    }
+    fetchIt()
+    return () => { cancelled = true }
+  }, [])
+
+  const spikes = useMemo(() => {
+    const all = findSpikes(bills, catalog.items)
+    const since = iso(addDays(new Date(), -30))
+    return bills
+      .filter(b => all[b.id] && (!b.paid || b.due_date >= since))
+      .map(b => ({ b, spike: all[b.id] }))
+      .reverse()
+  }, [bills, catalog.items])
+
+  if (spikes.length === 0) return null
+
+  return (
+    <div className={cx(s.card, 'border-amber-200 p-4')}>
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-base font-semibold">Alerts</h2>
+        <Link to="/bills/history" className="text-xs font-medium text-indigo-700">Amount history →</Link>
+      </div>
+      <ul className="divide-y divide-slate-100">
+        {spikes.map(({ b, spike }) => (
+          <li key={b.id} className="flex items-center gap-2 py-2 text-sm">
+            <SpikeBadge spike={spike} to={`/bills/history?group=${encodeURIComponent(historyGroup(b))}`} />
+            <span className="flex-1">
+              {b.category} bill of {fmtCurrency(Number(b.amount))} is {spike.pct}% above its {fmtCurrency(spike.average)} average
+              <span className="block text-xs text-slate-500">Due {b.due_date}{b.paid ? ' • paid' : ''}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+type DueBill = Pick<Bill, 'id' | 'due_date' | 'category' | 'amount' | 'paid' | 'paid_at' | 'payments'>
+
+const iso = (d: Date) => formatISO(d, { representation: 'date' })
+
+// Unpaid bills that are overdue or due within 30 days, at what is still owed.
+// Overdue bills count toward both horizons: that money still has to go out.
+function BillsAtRisk() {
+  const [bills, setBills] = useState<DueBill[]>([])
+  const [loaded, setLoaded] = useState(false)
+  const today = iso(new Date())
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchIt = async () => {
+      const { data } = await supabase
+        .from('bills')
+        .select(`id,due_date,category,amount,paid,paid_at,${PAYMENT_COLUMNS}`)
+        .is('deleted_at', null)
+        .eq('paid', false)
+        .lte('due_date', iso(addDays(new Date(), 30)))
+        .order('due_date', { ascending: true })
+      if (cancelled) return
+      setBills((data as unknown as DueBill[]) || [])
+      setLoaded(true)
+    }
+    fetchIt()
+    return () => { cancelled = true }
+  }, [])
+
+  const sumUntil = (day: string | null) =>
+    bills.filter(b => (day === null ? b.due_date < today : b.due_date <= day)).reduce((a, b) => a + remaining(b), 0)
+  const overdue = sumUntil(null)
+  const in7 = sumUntil(iso(addDays(new Date(), 7)))
+  const in30 = sumUntil(iso(addDays(new Date(), 30)))
+
+  if (!loaded) return null
+
+  return (
+    <div className={cx(s.card, 'p-4')}>
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-base font-semibold">Upcoming & overdue bills</h2>
+        <Link to="/bills" className="text-xs font-medium text-indigo-700">All bills →</Link>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <div className="text-xs text-slate-500">Overdue</div>
+          <div className={cx('text-lg font-semibold', overdue > 0 && 'text-rose-600')}>{fmtCurrency(overdue)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">Next 7 days</div>
+          <div className="text-lg font-semibold">{fmtCurrency(in7)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">Next 30 days</div>
+          <div className="text-lg font-semibold">{fmtCurrency(in30)}</div>
+        </div>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">Amounts at risk include overdue bills.</p>
+
+      {bills.length === 0 ? (
+        <div className="mt-3 text-sm text-slate-600">Nothing due in the next 30 days.</div>
+      ) : (
+        <ul className="mt-3 divide-y divide-slate-100">
+          {bills.slice(0, 8).map(b => (
+            <li key={b.id} className="flex items-center gap-2 py-2 text-sm">
+              <BillStatusBadge bill={b} today={today} />
+              <span className="flex-1">
+                {b.category}
+                <span className="block text-xs text-slate-500">{b.due_date} • {dueHint(b, today)}</span>
+              </span>
+              <span className="font-semibold">{fmtCurrency(remaining(b))}</span>
+            </li>
+          ))}
+          {bills.length > 8 && (
+            <li className="pt-2 text-xs text-slate-500">and {bills.length - 8} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
+
 function Card({ title, value, negative, accent }: { title: string; value: string; negative?: boolean; accent: string }) {
   return (
     <div className={cx(s.card, 'relative overflow-hidden p-4')}>
@@ -140,3 +327,7 @@ function Card({ title, value, negative, accent }: { title: string; value: string
     </div>
   )
 }
+
+function Dot({ color }: { color: string }) {
+  return <span className="inline-block h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: color }} />
+}
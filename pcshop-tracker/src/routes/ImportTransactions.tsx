@@ -0,0 +1,248 @@
+// src/routes/ImportTransactions.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { readSheet } from 'read-excel-file/browser'
+import { supabase } from '../lib/supabaseClient'
+import { fmtCurrency } from '../lib/currency'
+import { useSession } from '../lib/session'
+import { parseCSV } from '../lib/csv'
+import { useCategories, validCategoryMap } from '../lib/categories'
+import {
+  IMPORT_FIELDS, REQUIRED_FIELDS, buildRows, cellText, dupKey, guessMapping, normalizeDate,
+  type ImportRow, type Mapping,
+} from '../lib/txImport'
+import { styles as s, cx } from '../ui'
+
+export default function ImportTransactions() {
+  const { profile } = useSession()
+  const canWrite = profile?.role === 'admin' || profile?.role === 'editor'
+  const navigate = useNavigate()
+  const catalog = useCategories()
+  const cats = useMemo(() => validCategoryMap(catalog.items), [catalog.items])
+
+  const [fileName, setFileName] = useState('')
+  const [header, setHeader] = useState<string[]>([])
+  const [data, setData] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<Mapping | null>(null)
+  const [existing, setExisting] = useState<Set<string>>(new Set())
+  // per-line include/exclude chosen by the user; default is "valid and not a duplicate"
+  const [overrides, setOverrides] = useState<Record<number, boolean>>({})
+  const [reading, setReading] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    setReading(true)
+    try {
+      let table: string[][]
+      if (/\.xlsx$/i.test(file.name)) {
+        const sheet = await readSheet(file)
+        table = sheet.map(r => r.map(cellText)).filter(r => r.some(c => c !== ''))
+      } else {
+        table = parseCSV(await file.text())
+      }
+      if (table.length < 2) throw new Error('The file has no data rows.')
+      const [head, ...rest] = table
+      setFileName(file.name)
+      setHeader(head.map(h => h.trim()))
+      setData(rest)
+      setMapping(guessMapping(head))
+      setOverrides({})
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read the file.')
+    } finally {
+      setReading(false)
+    }
+  }
+
+  // Load existing rows in the file's date range for duplicate detection.
+  const dateCol = mapping?.date ?? -1
+  useEffect(() => {
+    if (dateCol < 0 || data.length === 0) { setExisting(new Set()); return }
+    const dates = data.map(r => normalizeDate(r[dateCol] ?? '')).filter(d => /^\d{4}-\d{2}-\d{2}$/.test(d)).sort()
+    if (dates.length === 0) { setExisting(new Set()); return }
+
+    let cancelled = false
+    const load = async () => {
+      const { data: rows, error } = await supabase
+        .from('transactions')
+        .select('date,type,category,amount,note')
+        .is('deleted_at', null)
+        .gte('date', dates[0])
+        .lte('date', dates[dates.length - 1])
+      if (cancelled) return
+      if (error) return setError(error.message)
+      setExisting(new Set((rows || []).map(dupKey)))
+    }
+    load()
+    return () => { cancelled = true }
+  }, [data, dateCol])
+
+  const missing = mapping ? REQUIRED_FIELDS.filter(f => mapping[f] < 0) : []
+  const rows = useMemo<ImportRow[]>(
+    () => (mapping && REQUIRED_FIELDS.every(f => mapping[f] >= 0) ? buildRows(data, mapping, existing, cats) : []),
+    [data, mapping, existing, cats]
+  )
+
+  const isIncluded = (r: ImportRow) => !r.error && (overrides[r.line] ?? !r.duplicate)
+  const accepted = rows.filter(isIncluded)
+  const summary = {
+    errors: rows.filter(r => r.error).length,
+    duplicates: rows.filter(r => r.duplicate).length,
+    total: accepted.reduce((a, r) => a + r.amount, 0),
+  }
+
+  const doImport = async () => {
+    if (!canWrite || accepted.length === 0) return
+    const ok = window.confirm(
+      `Import ${accepted.length} transaction(s) totalling ${fmtCurrency(summary.total)}?`
+    )
+    if (!ok) return
+    setImporting(true)
+    setError(null)
+    const payload = accepted.map(r => ({
+      date: r.date, type: r.type, category: r.category, amount: r.amount, note: r.note,
+    }))
+    const { error } = await supabase.from('transactions').insert(payload)
+    setImporting(false)
+    if (error) return setError(error.message)
+    navigate('/transactions')
+  }
+
+  if (!profile) return <div className="p-4">Loading…</div>
+  if (!canWrite) {
+    return (
+      <div className={cx(s.alert, 'm-4 border-amber-200 bg-amber-50 text-amber-800')}>
+        Read-only access. Ask an admin to upgrade your role to <span className="font-medium">Editor</span> to import transactions.
+      </div>
+    )
+  }
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold">Import Transactions</h1>
+          <p className="text-sm text-slate-600">
+            CSV or Excel (.xlsx). Files exported from Reports import as-is.
+          </p>
+        </div>
+        <Link to="/transactions" className={cx(s.btn, s.secondary)}>Back</Link>
+      </header>
+
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      {/* File */}
+      <div className={cx(s.card, 'p-4')}>
+        <label className="mb-1 block text-sm text-slate-600">File</label>
+        <input
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={e => onFile(e.target.files?.[0])}
+          className={s.input}
+          disabled={reading || importing}
+        />
+        {reading && <div className="mt-2 text-sm text-slate-600">Reading…</div>}
+        {fileName && !reading && (
+          <div className="mt-2 text-sm text-slate-600">{fileName} • {data.length} data row(s)</div>
+        )}
+      </div>
+
+      {/* Column mapping */}
+      {mapping && (
+        <div className={cx(s.card, 'grid grid-cols-1 gap-3 p-4 sm:grid-cols-2 md:grid-cols-5')}>
+          {IMPORT_FIELDS.map(f => (
+            <div key={f}>
+              <label className="text-sm capitalize text-slate-600">
+                {f}{REQUIRED_FIELDS.includes(f) && ' *'}
+              </label>
+              <select
+                value={mapping[f]}
+                onChange={e => { setMapping({ ...mapping, [f]: Number(e.target.value) }); setOverrides({}) }}
+                className={s.select}
+              >
+                <option value={-1}>— not mapped —</option>
+                {header.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+              </select>
+            </div>
+          ))}
+          {missing.length > 0 && (
+            <div className="text-sm text-rose-700 sm:col-span-2 md:col-span-5">
+              Map the required column(s): {missing.join(', ')}.
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Preview */}
+      {rows.length > 0 && (
+        <div className={cx(s.card, 'p-4')}>
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm text-slate-600">
+              <span className="font-medium text-slate-900">{accepted.length}</span> to import
+              ({fmtCurrency(summary.total)}) • {summary.errors} with errors • {summary.duplicates} likely duplicate(s)
+            </div>
+            <button
+              type="button"
+              onClick={doImport}
+              disabled={importing || accepted.length === 0}
+              className={cx(s.btn, s.primary, 'w-full sm:w-auto')}
+            >
+              {importing ? 'Importing…' : `Import ${accepted.length} row(s)`}
+            </button>
+          </div>
+
+          <div className="overflow-auto">
+            <table className="w-full min-w-[760px] text-sm">
+              <thead>
+                <tr>
+                  <th className={s.th}>Include</th>
+                  <th className={s.th}>Line</th>
+                  <th className={s.th}>Date</th>
+                  <th className={s.th}>Type</th>
+                  <th className={s.th}>Category</th>
+                  <th className={s.th}>Note</th>
+                  <th className={cx(s.th, 'text-right')}>Amount</th>
+                  <th className={s.th}>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => (
+                  <tr key={r.line} className={cx('border-t', r.error && 'bg-rose-50/60', !r.error && r.duplicate && 'bg-amber-50/60')}>
+                    <td className={s.td}>
+                      <input
+                        type="checkbox"
+                        checked={isIncluded(r)}
+                        disabled={!!r.error}
+                        onChange={e => setOverrides(prev => ({ ...prev, [r.line]: e.target.checked }))}
+                      />
+                    </td>
+                    <td className={cx(s.td, 'text-slate-500')}>{r.line}</td>
+                    <td className={cx(s.td, 'whitespace-nowrap')}>{r.date}</td>
+                    <td className={s.td}>{r.type}</td>
+                    <td className={s.td}>{r.category}</td>
+                    <td className={s.td}>{r.note}</td>
+                    <td className={cx(s.td, 'text-right')}>
+                      {Number.isFinite(r.amount) ? fmtCurrency(r.amount) : '—'}
+                    </td>
+                    <td className={s.td}>
+                      {r.error ? (
+                        <span className="text-rose-700">{r.error}</span>
+                      ) : r.duplicate ? (
+                        <span className="text-amber-700">Likely duplicate</span>
+                      ) : (
+                        <span className="text-emerald-700">OK</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
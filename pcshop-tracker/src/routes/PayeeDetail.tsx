@@ -0,0 +1,138 @@
+// src/routes/PayeeDetail.tsx
+import { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { supabase } from '../lib/supabaseClient'
+import { fmtCurrency } from '../lib/currency'
+import { accountName, useAccounts } from '../lib/accounts'
+import { BILL_COLUMNS, paidTotal, type Bill } from '../lib/bills'
+import { fetchPayeeTotals, usePayees, type PayeeYear } from '../lib/payees'
+import { BillStatusBadge } from '../components/BillStatusBadge'
+import { styles as s, cx } from '../ui'
+
+const HISTORY_LIMIT = 200
+
+export default function PayeeDetail() {
+  const { id = '' } = useParams()
+  const payees = usePayees()
+  const accounts = useAccounts()
+  const payee = payees.items.find(p => p.id === id)
+
+  const [bills, setBills] = useState<Bill[]>([])
+  const [years, setYears] = useState<PayeeYear[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      setLoading(true); setError(null)
+      const [b, totals] = await Promise.all([
+        supabase
+          .from('bills')
+          .select(BILL_COLUMNS)
+          .eq('payee_id', id)
+          .is('deleted_at', null)
+          .order('due_date', { ascending: false })
+          .limit(HISTORY_LIMIT),
+        fetchPayeeTotals(id),
+      ])
+      if (cancelled) return
+      setLoading(false)
+      if (b.error) return setError(b.error.message)
+      if (totals.error) return setError(totals.error)
+      setBills((b.data || []) as unknown as Bill[])
+      setYears(totals.rows)
+    }
+    load()
+    return () => { cancelled = true }
+  }, [id])
+
+  if (payees.loaded && !payee) {
+    return <div className={cx(s.alert, 'm-4 border-rose-200 bg-rose-50 text-rose-700')}>Payee not found.</div>
+  }
+
+  const allTime = years.reduce((a, y) => a + y.total, 0)
+
+  return (
+    <section className="grid gap-6">
+      <header>
+        <Link to="/payees" className="text-sm text-indigo-700">← Payees</Link>
+        <h1 className="text-lg font-semibold">{payee?.name ?? 'Payee'}</h1>
+        {payee && (
+          <p className="text-sm text-slate-600">
+            {[
+              payee.account_number && `Account #${payee.account_number}`,
+              payee.contact,
+              payee.default_category,
+              payee.default_account_id && `Pays from ${accountName(accounts.items, payee.default_account_id)}`,
+            ].filter(Boolean).join(' • ')}
+          </p>
+        )}
+        {payee?.notes && <p className="mt-1 text-sm text-slate-500">{payee.notes}</p>}
+      </header>
+
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      {/* Totals per year */}
+      <div className={cx(s.card, 'p-4')}>
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-base font-semibold">Paid per year</h2>
+          <span className="text-xs text-slate-500">All time {fmtCurrency(allTime)}</span>
+        </div>
+        {years.length === 0 ? (
+          <div className="text-sm text-slate-600">{loading ? 'Loading…' : 'No expenses linked to this payee yet.'}</div>
+        ) : (
+          <div className="overflow-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className={s.th}>Year</th>
+                  <th className={cx(s.th, 'text-right')}>Total paid</th>
+                  <th className={cx(s.th, 'text-right')}>Payments</th>
+                  <th className={cx(s.th, 'text-right')} title="Total divided by the months that had a payment">Avg / month</th>
+                </tr>
+              </thead>
+              <tbody>
+                {years.map(y => (
+                  <tr key={y.year} className="border-t">
+                    <td className={s.td}>{y.year}</td>
+                    <td className={cx(s.td, 'text-right font-semibold')}>{fmtCurrency(y.total)}</td>
+                    <td className={cx(s.td, 'text-right')}>{y.payments} in {y.months} month{y.months === 1 ? '' : 's'}</td>
+                    <td className={cx(s.td, 'text-right')}>{fmtCurrency(y.avg_monthly)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Bill history */}
+      <div className={cx(s.card, 'p-4')}>
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-base font-semibold">Bills</h2>
+          {bills.length >= HISTORY_LIMIT && <span className="text-xs text-slate-500">Latest {HISTORY_LIMIT}</span>}
+        </div>
+        {bills.length === 0 ? (
+          <div className="text-sm text-slate-600">{loading ? 'Loading…' : 'No bills for this payee.'}</div>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {bills.map(b => (
+              <li key={b.id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                <span className="w-24 whitespace-nowrap text-slate-600">{b.due_date}</span>
+                <span className="flex-1">{b.category}</span>
+                <BillStatusBadge bill={b} />
+                <span className="w-28 text-right">
+                  <span className="font-semibold">{fmtCurrency(Number(b.amount))}</span>
+                  {paidTotal(b) > 0 && paidTotal(b) !== Number(b.amount) && (
+                    <span className="block text-xs text-slate-500">paid {fmtCurrency(paidTotal(b))}</span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  )
+}
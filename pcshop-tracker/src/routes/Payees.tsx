@@ -0,0 +1,234 @@
+// src/routes/Payees.tsx
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { supabase } from '../lib/supabaseClient'
+import { useSession } from '../lib/session'
+import { activeNames, useCategories } from '../lib/categories'
+import { accountName, activeAccounts, useAccounts } from '../lib/accounts'
+import { reloadPayees, usePayees, type Payee } from '../lib/payees'
+import { styles as s, cx } from '../ui'
+
+type PayeeDraft = Omit<Payee, 'id' | 'archived'>
+
+const EMPTY: PayeeDraft = {
+  name: '', account_number: null, contact: null, default_category: null, default_account_id: null, notes: null,
+}
+
+// blank text fields are stored as null
+const clean = (d: PayeeDraft): PayeeDraft => ({
+  name: d.name.trim(),
+  account_number: d.account_number?.trim() || null,
+  contact: d.contact?.trim() || null,
+  default_category: d.default_category || null,
+  default_account_id: d.default_account_id || null,
+  notes: d.notes?.trim() || null,
+})
+
+export default function Payees() {
+  const { profile } = useSession()
+  const canWrite = profile?.role === 'admin' || profile?.role === 'editor'
+  const payees = usePayees()
+  const accounts = useAccounts()
+
+  const [editing, setEditing] = useState<Payee | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const shown = payees.items.filter(p => showArchived || !p.archived)
+
+  const add = async (d: PayeeDraft) => {
+    const { error } = await supabase.from('payees').insert(clean(d))
+    if (error) return error.message
+    await reloadPayees()
+    return null
+  }
+
+  const save = async (p: Payee, d: PayeeDraft) => {
+    const { error } = await supabase.from('payees').update(clean(d)).eq('id', p.id)
+    if (error) return error.message
+    setEditing(null)
+    await reloadPayees()
+    return null
+  }
+
+  const toggleArchive = async (p: Payee) => {
+    setError(null)
+    const { error } = await supabase.from('payees').update({ archived: !p.archived }).eq('id', p.id)
+    if (error) return setError(error.message)
+    reloadPayees()
+  }
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-end justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold">Payees</h1>
+          <p className="text-sm text-slate-600">Who bills and expenses are paid to, with our account number and how we pay them.</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+          Show archived
+        </label>
+      </header>
+
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      {/* ===== Mobile cards ===== */}
+      <div className="grid gap-3 md:hidden">
+        {shown.length === 0 ? (
+          <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>{payees.loaded ? 'No payees yet.' : 'Loading…'}</div>
+        ) : (
+          shown.map(p => (
+            <div key={p.id} className={cx(s.card, 'p-3', p.archived && 'opacity-60')}>
+              <div className="flex items-center justify-between gap-2">
+                <Link to={`/payees/${p.id}`} className="text-sm font-medium text-slate-800 hover:text-indigo-700">{p.name}</Link>
+                {p.account_number && <span className="text-xs text-slate-500">#{p.account_number}</span>}
+              </div>
+              <div className="mt-1 text-xs text-slate-600">
+                {[p.default_category, accountName(accounts.items, p.default_account_id), p.contact].filter(Boolean).join(' • ') || '—'}
+              </div>
+              {canWrite && (
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  <button onClick={() => setEditing(p)} className={cx(s.btn, s.secondary)}>Edit</button>
+                  <button onClick={() => toggleArchive(p)} className={cx(s.btn, s.secondary)}>{p.archived ? 'Restore' : 'Archive'}</button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* ===== Desktop table ===== */}
+      <div className={cx(s.card, 'hidden md:block')}>
+        <div className="overflow-auto">
+          <table className="w-full min-w-[760px] text-sm">
+            <thead>
+              <tr>
+                <th className={s.th}>Payee</th>
+                <th className={s.th}>Account no.</th>
+                <th className={s.th}>Contact</th>
+                <th className={s.th}>Default category</th>
+                <th className={s.th}>Pays from</th>
+                {canWrite && <th className={cx(s.th, 'text-right')}>Action</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {shown.length === 0 ? (
+                <tr><td className={s.td} colSpan={6}>{payees.loaded ? 'No payees yet.' : 'Loading…'}</td></tr>
+              ) : (
+                shown.map(p => (
+                  <tr key={p.id} className={cx('border-t hover:bg-slate-50/50', p.archived && 'opacity-60')}>
+                    <td className={s.td}>
+                      <Link to={`/payees/${p.id}`} className="font-medium text-slate-800 hover:text-indigo-700">{p.name}</Link>
+                      {p.archived && <span className="ml-2 text-xs text-slate-500">archived</span>}
+                    </td>
+                    <td className={s.td}>{p.account_number}</td>
+                    <td className={s.td}>{p.contact}</td>
+                    <td className={s.td}>{p.default_category}</td>
+                    <td className={s.td}>{accountName(accounts.items, p.default_account_id)}</td>
+                    {canWrite && (
+                      <td className={cx(s.td, 'whitespace-nowrap text-right space-x-2')}>
+                        <button onClick={() => setEditing(p)} className={cx(s.btn, s.secondary)}>Edit</button>
+                        <button onClick={() => toggleArchive(p)} className={cx(s.btn, s.secondary)}>{p.archived ? 'Restore' : 'Archive'}</button>
+                      </td>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {canWrite && (
+        <div className={cx(s.card, 'p-4')}>
+          <h2 className="mb-3 text-sm font-semibold">New payee</h2>
+          <PayeeForm initial={EMPTY} submitLabel="Add payee" onSubmit={add} resetOnSave />
+        </div>
+      )}
+
+      {editing && (
+        <div className="fixed inset-0 z-40 grid place-items-center bg-slate-900/40 p-4" role="dialog" aria-modal="true">
+          <div className={cx(s.card, 'grid max-h-[90dvh] w-full max-w-md gap-3 overflow-auto p-4')}>
+            <h2 className="text-base font-semibold">Edit payee • {editing.name}</h2>
+            <PayeeForm
+              initial={editing}
+              submitLabel="Save"
+              onSubmit={d => save(editing, d)}
+              onCancel={() => setEditing(null)}
+              narrow
+            />
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
+
+function PayeeForm({
+  initial, submitLabel, onSubmit, onCancel, resetOnSave, narrow,
+}: {
+  initial: PayeeDraft
+  submitLabel: string
+  onSubmit: (d: PayeeDraft) => Promise<string | null>
+  onCancel?: () => void
+  resetOnSave?: boolean
+  narrow?: boolean
+}) {
+  const catalog = useCategories()
+  const accounts = useAccounts()
+  const [d, setD] = useState<PayeeDraft>(initial)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const set = (p: Partial<PayeeDraft>) => setD(prev => ({ ...prev, ...p }))
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!d.name.trim()) return setError('Name is required.')
+    setSaving(true); setError(null)
+    const err = await onSubmit(d)
+    setSaving(false)
+    if (err) return setError(err)
+    if (resetOnSave) setD(initial)
+  }
+
+  return (
+    <form onSubmit={submit} className={cx('grid grid-cols-1 gap-3', !narrow && 'md:grid-cols-3')}>
+      <div>
+        <label className="text-sm text-slate-600">Name</label>
+        <input value={d.name} onChange={e => set({ name: e.target.value })} className={s.input} placeholder="e.g., PLDT" />
+      </div>
+      <div>
+        <label className="text-sm text-slate-600">Account / reference no.</label>
+        <input value={d.account_number ?? ''} onChange={e => set({ account_number: e.target.value })} className={s.input} />
+      </div>
+      <div>
+        <label className="text-sm text-slate-600">Contact</label>
+        <input value={d.contact ?? ''} onChange={e => set({ contact: e.target.value })} className={s.input} placeholder="phone, email or branch" />
+      </div>
+      <div>
+        <label className="text-sm text-slate-600">Default category</label>
+        <select value={d.default_category ?? ''} onChange={e => set({ default_category: e.target.value })} className={s.select}>
+          <option value="">—</option>
+          {activeNames(catalog.items, 'bill').map(c => <option key={c}>{c}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="text-sm text-slate-600">Default payment method</label>
+        <select value={d.default_account_id ?? ''} onChange={e => set({ default_account_id: e.target.value })} className={s.select}>
+          <option value="">—</option>
+          {activeAccounts(accounts.items).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="text-sm text-slate-600">Notes</label>
+        <input value={d.notes ?? ''} onChange={e => set({ notes: e.target.value })} className={s.input} />
+      </div>
+      <div className={cx('flex items-center justify-end gap-2', !narrow && 'md:col-span-3')}>
+        {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+        {onCancel && <button type="button" onClick={onCancel} className={cx(s.btn, s.secondary)}>Cancel</button>}
+        <button type="submit" className={cx(s.btn, s.primary)} disabled={saving}>{saving ? 'Saving…' : submitLabel}</button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,542 @@
+// src/routes/Recurring.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { addDays, formatISO } from 'date-fns'
+import { supabase } from '../lib/supabaseClient'
+import { fmtCurrency } from '../lib/currency'
+import { useSession } from '../lib/session'
+import { TX_TYPES, validateTx, type TxType } from '../lib/transactions'
+import { activeNames, useCategories, validCategoryMap } from '../lib/categories'
+import { accountName, activeAccounts, useAccounts } from '../lib/accounts'
+import { useTagNames } from '../lib/tags'
+import {
+  FREQUENCIES, INTERVAL_UNITS, TEMPLATE_COLUMNS, describeRule, fetchUpcoming, postDueRecurring,
+  type Frequency, type IntervalUnit, type Occurrence, type RecurringTemplate,
+} from '../lib/recurring'
+import { TagInput } from '../components/TagInput'
+import { styles as s, cx } from '../ui'
+
+const iso = (d: Date) => formatISO(d, { representation: 'date' })
+const RANGES = [7, 30, 90]
+
+type Draft = {
+  type: TxType
+  category: string
+  amount: string
+  note: string
+  account_id: string
+  tags: string[]
+  frequency: Frequency
+  interval_count: string
+  interval_unit: IntervalUnit
+  start_date: string
+  end_date: string
+}
+
+const emptyDraft = (): Draft => ({
+  type: 'expense', category: '', amount: '', note: '', account_id: '', tags: [],
+  frequency: 'monthly', interval_count: '1', interval_unit: 'day', start_date: iso(new Date()), end_date: '',
+})
+
+const toDraft = (t: RecurringTemplate): Draft => ({
+  type: t.type, category: t.category, amount: String(t.amount), note: t.note ?? '', account_id: t.account_id ?? '',
+  tags: t.tags ?? [], frequency: t.frequency, interval_count: String(t.interval_count), interval_unit: t.interval_unit,
+  start_date: t.start_date, end_date: t.end_date ?? '',
+})
+
+const STATUS_TONE: Record<Occurrence['status'], string> = {
+  pending: 'bg-slate-100 text-slate-700',
+  posted: 'bg-emerald-100 text-emerald-800',
+  skipped: 'bg-amber-100 text-amber-800',
+}
+
+export default function Recurring() {
+  const { profile } = useSession()
+  const canWrite = profile?.role === 'admin' || profile?.role === 'editor'
+  const catalog = useCategories()
+  const validCats = useMemo(() => validCategoryMap(catalog.items), [catalog.items])
+  const accounts = useAccounts()
+
+  const [tab, setTab] = useState<'upcoming' | 'templates'>('upcoming')
+  const [days, setDays] = useState(30)
+  const [templates, setTemplates] = useState<RecurringTemplate[]>([])
+  const [upcoming, setUpcoming] = useState<Occurrence[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [msg, setMsg] = useState<string | null>(null)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [editingOcc, setEditingOcc] = useState<Occurrence | null>(null)
+
+  // template form; editId null = new template
+  const [draft, setDraft] = useState<Draft>(emptyDraft)
+  const [editId, setEditId] = useState<string | null>(null)
+  const set = <K extends keyof Draft>(k: K, v: Draft[K]) => setDraft(d => ({ ...d, [k]: v }))
+
+  const [reloadKey, setReloadKey] = useState(0)
+  const refresh = () => setReloadKey(k => k + 1)
+  const tagNames = useTagNames(reloadKey)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      setLoading(true)
+      const today = new Date()
+      const [tpl, occ] = await Promise.all([
+        supabase.from('recurring_templates').select(TEMPLATE_COLUMNS).order('active', { ascending: false }).order('start_date'),
+        fetchUpcoming(iso(today), iso(addDays(today, days))),
+      ])
+      if (cancelled) return
+      setLoading(false)
+      if (tpl.error) return setError(tpl.error.message)
+      if (occ.error) return setError(occ.error)
+      setTemplates(((tpl.data || []) as RecurringTemplate[]).map(t => ({ ...t, amount: Number(t.amount) })))
+      setUpcoming(occ.rows)
+    }
+    load()
+    return () => { cancelled = true }
+  }, [days, reloadKey])
+
+  // keep the category valid for the chosen type
+  useEffect(() => {
+    const names = activeNames(catalog.items, draft.type)
+    setDraft(d => (names.includes(d.category) || validCats[d.type].includes(d.category) ? d : { ...d, category: names[0] ?? '' }))
+  }, [draft.type, catalog.items, validCats])
+
+  const byId = useMemo(() => new Map(templates.map(t => [t.id, t])), [templates])
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canWrite) return
+    setError(null); setMsg(null)
+    const amount = Number(draft.amount)
+    const problem = validateTx({ date: draft.start_date, type: draft.type, category: draft.category, amount }, validCats)
+    if (problem) return setError(problem)
+    if (draft.end_date && draft.end_date < draft.start_date) return setError('End date must be on or after the start date.')
+    const every = Number(draft.interval_count)
+    if (draft.frequency === 'custom' && !(Number.isInteger(every) && every >= 1)) return setError('Repeat interval must be a whole number of at least 1.')
+
+    const row = {
+      type: draft.type,
+      category: draft.category,
+      amount,
+      note: draft.note.trim() || null,
+      account_id: draft.account_id || null,
+      tags: draft.tags,
+      frequency: draft.frequency,
+      interval_count: draft.frequency === 'custom' ? every : 1,
+      interval_unit: draft.interval_unit,
+      start_date: draft.start_date,
+      end_date: draft.end_date || null,
+    }
+    const { error } = editId
+      ? await supabase.from('recurring_templates').update(row).eq('id', editId)
+      : await supabase.from('recurring_templates').insert(row)
+    if (error) return setError(error.message)
+    setMsg(editId ? 'Template updated. Already-posted entries are unchanged.' : 'Template added.')
+    setDraft(emptyDraft()); setEditId(null)
+    refresh()
+  }
+
+  const startEdit = (t: RecurringTemplate) => {
+    setEditId(t.id); setDraft(toDraft(t)); setTab('templates'); setMsg(null)
+  }
+
+  const toggleActive = async (t: RecurringTemplate) => {
+    const { error } = await supabase.from('recurring_templates').update({ active: !t.active }).eq('id', t.id)
+    if (error) return setError(error.message)
+    refresh()
+  }
+
+  const delTemplate = async (t: RecurringTemplate) => {
+    const ok = window.confirm(
+      `Delete this recurring template?\n\n` +
+      `${t.category} • ${fmtCurrency(t.amount)}\n` +
+      `${describeRule(t)}\n\n` +
+      `Transactions it already posted are kept.`
+    )
+    if (!ok) return
+    const { error } = await supabase.from('recurring_templates').delete().eq('id', t.id)
+    if (error) return setError(error.message)
+    if (editId === t.id) { setEditId(null); setDraft(emptyDraft()) }
+    refresh()
+  }
+
+  const runDue = async () => {
+    setBusyKey('due'); setError(null); setMsg(null)
+    const res = await postDueRecurring()
+    setBusyKey(null)
+    if (res.error) return setError(res.error)
+    setMsg(res.posted ? `Posted ${res.posted} due ${res.posted === 1 ? 'entry' : 'entries'}.` : 'Nothing due to post.')
+    refresh()
+  }
+
+  const occKey = (o: Occurrence) => `${o.template_id}:${o.occurs_on}`
+
+  const post = async (o: Occurrence) => {
+    if (o.occurs_on > iso(new Date())) {
+      const ok = window.confirm(`Post "${o.category}" (${fmtCurrency(o.amount)}) now?\n\nIt is recorded on its scheduled date, ${o.occurs_on}.`)
+      if (!ok) return
+    }
+    setBusyKey(occKey(o)); setError(null); setMsg(null)
+    const { error } = await supabase.rpc('post_recurring_occurrence', { tpl: o.template_id, day: o.occurs_on })
+    setBusyKey(null)
+    if (error) return setError(error.message)
+    refresh()
+  }
+
+  const skip = async (o: Occurrence, skipIt: boolean) => {
+    setBusyKey(occKey(o)); setError(null); setMsg(null)
+    const { error } = await supabase.rpc('skip_recurring_occurrence', { tpl: o.template_id, day: o.occurs_on, skip: skipIt })
+    setBusyKey(null)
+    if (error) return setError(error.message)
+    refresh()
+  }
+
+  const OccActions = ({ o }: { o: Occurrence }) => {
+    const busy = busyKey === occKey(o)
+    if (o.status === 'posted') return <span className="text-xs text-slate-500">Posted</span>
+    if (o.status === 'skipped') {
+      return (
+        <button onClick={() => skip(o, false)} className={cx(s.btn, s.secondary, 'px-3')} disabled={!!busyKey}>
+          {busy ? 'Working…' : 'Unskip'}
+        </button>
+      )
+    }
+    return (
+      <>
+        <button onClick={() => post(o)} className={cx(s.btn, s.primary, 'px-3')} disabled={!!busyKey}>
+          {busy ? 'Working…' : 'Post'}
+        </button>
+        <button onClick={() => setEditingOcc(o)} className={cx(s.btn, s.secondary, 'px-3')} disabled={!!busyKey}>Edit</button>
+        <button onClick={() => skip(o, true)} className={cx(s.btn, s.secondary, 'px-3')} disabled={!!busyKey}>Skip</button>
+      </>
+    )
+  }
+
+  const Status = ({ o }: { o: Occurrence }) => (
+    <span className={cx('rounded-full px-2 py-0.5 text-xs', STATUS_TONE[o.status])}>
+      {o.status}{o.edited && o.status === 'pending' ? ' • edited' : ''}
+    </span>
+  )
+
+  const pendingTotal = (t: TxType) =>
+    upcoming.filter(o => o.status === 'pending' && o.type === t).reduce((a, o) => a + o.amount, 0)
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold">Recurring</h1>
+          <p className="text-sm text-slate-600">
+            Templates post a transaction on each scheduled date. Each date posts once, even if posting runs again.
+          </p>
+        </div>
+        <div className="inline-flex gap-1 rounded-xl bg-slate-100 p-1">
+          {(['upcoming', 'templates'] as const).map(t => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={cx('rounded-lg px-3 py-1 text-sm', tab === t ? 'bg-white font-medium shadow-sm' : 'text-slate-600')}
+            >
+              {t === 'upcoming' ? 'Upcoming' : `Templates (${templates.length})`}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      {msg && <div className={cx(s.alert, 'border-emerald-200 bg-emerald-50 text-emerald-800')}>{msg}</div>}
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      {tab === 'upcoming' ? (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="inline-flex gap-1 rounded-xl bg-slate-100 p-1">
+              {RANGES.map(n => (
+                <button
+                  key={n}
+                  type="button"
+                  onClick={() => setDays(n)}
+                  className={cx('rounded-lg px-3 py-1 text-sm', days === n ? 'bg-white font-medium shadow-sm' : 'text-slate-600')}
+                >
+                  Next {n} days
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-3 text-sm">
+              <span className="text-slate-600">
+                Pending: <span className="text-emerald-700">+{fmtCurrency(pendingTotal('income'))}</span>{' '}
+                <span className="text-rose-700">−{fmtCurrency(pendingTotal('expense') + pendingTotal('savings'))}</span>
+              </span>
+              {canWrite && (
+                <button onClick={runDue} className={cx(s.btn, s.secondary)} disabled={!!busyKey}>
+                  {busyKey === 'due' ? 'Posting…' : 'Post due now'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Mobile cards */}
+          <div className="grid gap-3 md:hidden">
+            {loading ? (
+              <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>Loading…</div>
+            ) : upcoming.length === 0 ? (
+              <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>Nothing scheduled in this period.</div>
+            ) : (
+              upcoming.map(o => (
+                <div key={occKey(o)} className={cx(s.card, 'p-3', o.status === 'skipped' && 'opacity-60')}>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-sm font-medium">{o.category}</div>
+                    <div className="text-sm font-semibold">{fmtCurrency(o.amount)}</div>
+                  </div>
+                  <div className="mt-1 flex items-center justify-between text-xs text-slate-600">
+                    <span>{o.occurs_on} • {o.type}</span>
+                    <Status o={o} />
+                  </div>
+                  {o.note && <div className="mt-1 text-sm">{o.note}</div>}
+                  {canWrite && <div className="mt-2 flex justify-end gap-2"><OccActions o={o} /></div>}
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Desktop table */}
+          <div className={cx(s.card, 'hidden md:block')}>
+            <div className="overflow-auto">
+              <table className="w-full min-w-[760px] text-sm">
+                <thead>
+                  <tr>
+                    <th className={s.th}>Date</th>
+                    <th className={s.th}>Entry</th>
+                    <th className={s.th}>Note</th>
+                    <th className={cx(s.th, 'text-right')}>Amount</th>
+                    <th className={s.th}>Status</th>
+                    {canWrite && <th className={cx(s.th, 'text-right')}>Action</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {loading ? (
+                    <tr><td className={s.td} colSpan={6}>Loading…</td></tr>
+                  ) : upcoming.length === 0 ? (
+                    <tr><td className={s.td} colSpan={6}>Nothing scheduled in this period.</td></tr>
+                  ) : (
+                    upcoming.map(o => (
+                      <tr key={occKey(o)} className={cx('border-t hover:bg-slate-50/50', o.status === 'skipped' && 'opacity-60')}>
+                        <td className={cx(s.td, 'whitespace-nowrap')}>{o.occurs_on}</td>
+                        <td className={s.td}>
+                          <div>{o.category}</div>
+                          <div className="text-xs text-slate-500">{o.type}</div>
+                        </td>
+                        <td className={s.td}>{o.note}</td>
+                        <td className={cx(s.td, 'text-right font-semibold')}>{fmtCurrency(o.amount)}</td>
+                        <td className={s.td}><Status o={o} /></td>
+                        {canWrite && (
+                          <td className={cx(s.td, 'whitespace-nowrap text-right space-x-2')}>
+                            <OccActions o={o} />
+                          </td>
+                        )}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      ) : (
+        <>
+          {canWrite && (
+            <form onSubmit={save} className={cx(s.card, 'grid grid-cols-1 gap-3 p-4 md:grid-cols-6')}>
+              <h2 className="text-sm font-semibold md:col-span-6">{editId ? 'Edit template' : 'New recurring entry'}</h2>
+              <div>
+                <label className="text-sm text-slate-600">Type</label>
+                <select value={draft.type} onChange={e => set('type', e.target.value as TxType)} className={s.select}>
+                  {TX_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm text-slate-600">Category</label>
+                <select value={draft.category} onChange={e => set('category', e.target.value)} className={s.select}>
+                  {!activeNames(catalog.items, draft.type).includes(draft.category) && draft.category && (
+                    <option value={draft.category}>{draft.category}</option>
+                  )}
+                  {activeNames(catalog.items, draft.type).map(c => <option key={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm text-slate-600">Amount</label>
+                <input type="number" step="0.01" value={draft.amount} onChange={e => set('amount', e.target.value)} className={s.input} placeholder="e.g., 2500" />
+              </div>
+              <div>
+                <label className="text-sm text-slate-600">Account</label>
+                <select value={draft.account_id} onChange={e => set('account_id', e.target.value)} className={s.select}>
+                  <option value="">Default</option>
+                  {activeAccounts(accounts.items).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="text-sm text-slate-600">Note</label>
+                <input value={draft.note} onChange={e => set('note', e.target.value)} className={s.input} placeholder="e.g., shop rent" />
+              </div>
+              <div>
+                <label className="text-sm text-slate-600">Repeats</label>
+                <select value={draft.frequency} onChange={e => set('frequency', e.target.value as Frequency)} className={s.select}>
+                  {FREQUENCIES.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                </select>
+              </div>
+              {draft.frequency === 'custom' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-sm text-slate-600">Every</label>
+                    <input type="number" min={1} value={draft.interval_count} onChange={e => set('interval_count', e.target.value)} className={s.input} />
+                  </div>
+                  <div>
+                    <label className="text-sm text-slate-600">Unit</label>
+                    <select value={draft.interval_unit} onChange={e => set('interval_unit', e.target.value as IntervalUnit)} className={s.select}>
+                      {INTERVAL_UNITS.map(u => <option key={u} value={u}>{u}s</option>)}
+                    </select>
+                  </div>
+                </div>
+              )}
+              <div>
+                <label className="text-sm text-slate-600">Starts</label>
+                <input type="date" value={draft.start_date} onChange={e => set('start_date', e.target.value)} className={s.input} />
+              </div>
+              <div>
+                <label className="text-sm text-slate-600">Ends (optional)</label>
+                <input type="date" value={draft.end_date} onChange={e => set('end_date', e.target.value)} className={s.input} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="text-sm text-slate-600">Tags</label>
+                <TagInput value={draft.tags} onChange={v => set('tags', v)} suggestions={tagNames} placeholder="optional" />
+              </div>
+              <div className="flex flex-wrap items-center justify-end gap-2 md:col-span-6">
+                <span className="mr-auto text-sm text-slate-600">{describeRule({ ...draft, interval_count: Number(draft.interval_count) || 1, end_date: draft.end_date || null })}</span>
+                {editId && (
+                  <button type="button" onClick={() => { setEditId(null); setDraft(emptyDraft()) }} className={cx(s.btn, s.secondary)}>
+                    Cancel
+                  </button>
+                )}
+                <button type="submit" className={cx(s.btn, s.primary, 'w-full sm:w-auto')} disabled={!(Number(draft.amount) > 0) || !draft.category}>
+                  {editId ? 'Save template' : 'Add template'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className={cx(s.card, 'p-4')}>
+            <h2 className="mb-3 text-sm font-semibold">Templates</h2>
+            {templates.length === 0 ? (
+              <div className="text-sm text-slate-500">No recurring entries yet.</div>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {templates.map(t => (
+                  <li key={t.id} className={cx('flex flex-wrap items-center justify-between gap-2 py-2 text-sm', !t.active && 'opacity-60')}>
+                    <div>
+                      <div className="font-medium">
+                        {t.category} <span className="text-xs font-normal text-slate-500">• {t.type}{!t.active && ' • paused'}</span>
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {describeRule(t)}
+                        {t.account_id && ` • ${accountName(accounts.items, t.account_id)}`}
+                        {t.note && ` • ${t.note}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{fmtCurrency(t.amount)}</span>
+                      {canWrite && (
+                        <>
+                          <button onClick={() => startEdit(t)} className={cx(s.btn, s.secondary, 'px-3')}>Edit</button>
+                          <button onClick={() => toggleActive(t)} className={cx(s.btn, s.secondary, 'px-3')}>
+                            {t.active ? 'Pause' : 'Resume'}
+                          </button>
+                          <button onClick={() => delTemplate(t)} className={cx(s.btn, s.danger, 'px-3')}>Delete</button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+
+      {editingOcc && (
+        <OccurrenceDialog
+          occ={editingOcc}
+          template={byId.get(editingOcc.template_id)}
+          options={activeNames(catalog.items, editingOcc.type)}
+          validCats={validCats[editingOcc.type]}
+          onClose={() => setEditingOcc(null)}
+          onSaved={() => { setEditingOcc(null); refresh() }}
+        />
+      )}
+    </section>
+  )
+}
+
+// Changes one upcoming date only; the template and other dates stay as they are.
+function OccurrenceDialog({
+  occ, template, options, validCats, onClose, onSaved,
+}: {
+  occ: Occurrence
+  template?: RecurringTemplate
+  options: string[]
+  validCats: string[]
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const [amount, setAmount] = useState(String(occ.amount))
+  const [category, setCategory] = useState(occ.category)
+  const [note, setNote] = useState(occ.note ?? '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amt = Number(amount)
+    if (!(amt > 0)) return setError('Amount must be a positive number.')
+    if (!validCats.includes(category)) return setError(`Category "${category}" is not valid for ${occ.type}.`)
+    setSaving(true); setError(null)
+    // store only what differs from the template, so later template edits still apply
+    const { error } = await supabase.rpc('edit_recurring_occurrence', {
+      tpl: occ.template_id,
+      day: occ.occurs_on,
+      new_amount: template && amt === template.amount ? null : amt,
+      new_category: template && category === template.category ? null : category,
+      new_note: template && note.trim() === (template.note ?? '') ? null : note.trim(),
+    })
+    setSaving(false)
+    if (error) return setError(error.message)
+    onSaved()
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 grid place-items-center bg-slate-900/40 p-4" role="dialog" aria-modal="true">
+      <form onSubmit={submit} className={cx(s.card, 'grid max-h-[90dvh] w-full max-w-md gap-3 overflow-auto p-4')}>
+        <h2 className="text-base font-semibold">Edit {occ.occurs_on}</h2>
+        <p className="text-sm text-slate-600">Only this date changes. The template keeps its amount and category.</p>
+        <div>
+          <label className="text-sm text-slate-600">Category</label>
+          <select value={category} onChange={e => setCategory(e.target.value)} className={s.select}>
+            {!options.includes(category) && <option value={category}>{category}</option>}
+            {options.map(c => <option key={c}>{c}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Amount</label>
+          <input type="number" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} className={s.input} />
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Note</label>
+          <input value={note} onChange={e => setNote(e.target.value)} className={s.input} />
+        </div>
+        <div className="flex items-center justify-end gap-2">
+          {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+          <button type="button" onClick={onClose} className={cx(s.btn, s.secondary)}>Cancel</button>
+          <button type="submit" className={cx(s.btn, s.primary)} disabled={saving}>{saving ? 'Saving…' : 'Save'}</button>
+        </div>
+      </form>
+    </div>
+  )
+}
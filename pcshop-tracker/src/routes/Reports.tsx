@@ -3,6 +3,9 @@ import { useEffect, useMemo, useState } from 'react'
 import { supabase } from '../lib/supabaseClient'
 import { styles as s, cx } from '../ui'
 import { fmtCurrency } from '../lib/currency'
+import { downloadCSV } from '../lib/csv'
+import { colorOf, useCategories } from '../lib/categories'
+import { TX_TYPES, unitCount, type TxType } from '../lib/transactions'
 import { format } from 'date-fns'
 import {
   ResponsiveContainer,
@@ -22,6 +25,19 @@ const startOfYear = () => new Date(new Date().getFullYear(), 0, 1)
 
 type Row = { month: string; income: number; expenses: number; profit: number }
 type RpcRow = { month: string; income: number; expenses: number; profit: number }
+type CatRow = { type: TxType; category: string; total: number; line_count: number }
+type TagRow = { tag: string; income: number; expense: number; savings: number; tx_count: number }
+type UnitRow = {
+  month: string
+  category: string
+  unit_label: string | null
+  list_price: number | null
+  units: number
+  unit_revenue: number
+  avg_price: number | null // unit_revenue / units
+  total_revenue: number
+  revenue_per_unit: number | null // all of the stream's income / units
+}
 type Txn = { date: string; type: string; category: string; amount: number; note: string | null }
 
 export default function Reports() {
@@ -31,16 +47,45 @@ export default function Reports() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [exporting, setExporting] = useState<'summary' | 'txns' | null>(null)
+  const [byCategory, setByCategory] = useState<CatRow[]>([])
+  const [byTag, setByTag] = useState<TagRow[]>([])
+  const [byUnit, setByUnit] = useState<UnitRow[]>([])
+  const [breakdown, setBreakdown] = useState<'category' | 'tag' | 'units'>('category')
+  const catalog = useCategories()
 
   const fetchData = async () => {
     setLoading(true)
     setError(null)
-    const { data, error } = await supabase.rpc('monthly_profit', {
-      from_date: fromDate,
-      to_date: toDate,
-    })
+    const range = { from_date: fromDate, to_date: toDate }
+    const [{ data, error }, cats, tags, units] = await Promise.all([
+      supabase.rpc('monthly_profit', range),
+      supabase.rpc('category_breakdown', range), // split transactions count per line
+      supabase.rpc('tag_breakdown', range),
+      supabase.rpc('unit_sales', range),
+    ])
     setLoading(false)
     if (error) return setError(error.message)
+    if (cats.error) return setError(cats.error.message)
+    if (tags.error) return setError(tags.error.message)
+    if (units.error) return setError(units.error.message)
+    const num = (v: unknown) => (v === null || v === undefined ? null : Number(v))
+    setByUnit(((units.data || []) as UnitRow[]).map(r => ({
+      ...r,
+      month: format(new Date(r.month), 'yyyy-MM'),
+      list_price: num(r.list_price),
+      units: Number(r.units) || 0,
+      unit_revenue: Number(r.unit_revenue) || 0,
+      avg_price: num(r.avg_price),
+      total_revenue: Number(r.total_revenue) || 0,
+      revenue_per_unit: num(r.revenue_per_unit),
+    })))
+    setByCategory(((cats.data || []) as CatRow[]).map(r => ({ ...r, total: Number(r.total) || 0 })))
+    setByTag(((tags.data || []) as TagRow[]).map(r => ({
+      ...r,
+      income: Number(r.income) || 0,
+      expense: Number(r.expense) || 0,
+      savings: Number(r.savings) || 0,
+    })))
 
     const mapped: Row[] = (data as RpcRow[]).map(r => ({
       month: format(new Date(r.month), 'yyyy-MM'),
@@ -68,29 +113,6 @@ export default function Reports() {
     return { income, expenses, profit, avgProfit, mom }
   }, [rows])
 
-  // ---------- CSV helpers ----------
-  const csvEscape = (val: unknown) => {
-    if (val === null || val === undefined) return ''
-    const s = String(val)
-    const mustQuote = /[",\n\r]/.test(s)
-    const body = s.replace(/"/g, '""')
-    return mustQuote ? `"${body}"` : body
-  }
-
-  const downloadCSV = (filename: string, rows: string[][]) => {
-    const bom = '\uFEFF'
-    const csv = rows.map(r => r.map(csvEscape).join(',')).join('\r\n')
-    const blob = new Blob([bom + csv], { type: 'text/csv;charset=utf-8;' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = filename
-    document.body.appendChild(a)
-    a.click()
-    a.remove()
-    URL.revokeObjectURL(url)
-  }
-
   const exportMonthlyCSV = () => {
     const filename = `monthly_summary_${fromDate}_to_${toDate}.csv`
     const header = ['Month', 'Income', 'Expenses', 'Profit']
@@ -104,6 +126,7 @@ export default function Reports() {
       const { data, error } = await supabase
         .from('transactions')
         .select('date,type,category,amount,note')
+        .is('deleted_at', null)
         .gte('date', fromDate)
         .lte('date', toDate)
         .order('date', { ascending: true })
@@ -228,6 +251,68 @@ export default function Reports() {
         </div>
       </div>
 
+      {/* Breakdown: by category or by tag */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold text-slate-700">Breakdown</h2>
+        <div className="inline-flex gap-1 rounded-xl bg-slate-100 p-1">
+          {(['category', 'tag', 'units'] as const).map(b => (
+            <button
+              key={b}
+              type="button"
+              onClick={() => setBreakdown(b)}
+              className={cx('rounded-lg px-3 py-1 text-sm', breakdown === b ? 'bg-white font-medium shadow-sm' : 'text-slate-600')}
+            >
+              {b === 'units' ? 'Units sold' : `By ${b}`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {breakdown === 'tag' ? (
+        <TagBreakdown rows={byTag} />
+      ) : breakdown === 'units' ? (
+        <UnitSales rows={byUnit} />
+      ) : (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          {TX_TYPES.map(t => {
+            const list = byCategory.filter(r => r.type === t)
+            const sum = list.reduce((a, r) => a + r.total, 0)
+            return (
+              <div key={t} className={cx(s.card, 'p-4')}>
+                <div className="mb-2 flex items-center justify-between">
+                  <h2 className="text-sm font-semibold capitalize">{t} by category</h2>
+                  <span className="text-xs text-slate-500">{fmtCurrency(sum)}</span>
+                </div>
+                {list.length === 0 ? (
+                  <div className="text-sm text-slate-500">No {t} in this period.</div>
+                ) : (
+                  <ul className="grid gap-2">
+                    {list.map(r => {
+                      const pct = sum ? Math.round((r.total / sum) * 100) : 0
+                      const color = colorOf(catalog.items, t, r.category)
+                      return (
+                        <li key={r.category} className="text-sm">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="inline-flex items-center gap-2">
+                              <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: color }} />
+                              {r.category}
+                            </span>
+                            <span className="font-medium">{fmtCurrency(r.total)}</span>
+                          </div>
+                          <div className="mt-1 h-1.5 w-full rounded-full bg-slate-100">
+                            <div className="h-1.5 rounded-full" style={{ width: `${pct}%`, backgroundColor: color }} />
+                          </div>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
       {/* Mobile monthly cards */}
       <div className="grid gap-3 md:hidden">
         {loading ? (
@@ -311,6 +396,129 @@ export default function Reports() {
   )
 }
 
+// Whole-transaction amounts per tag; a row with two tags shows under both.
+function TagBreakdown({ rows }: { rows: TagRow[] }) {
+  if (rows.length === 0) {
+    return <div className={cx(s.card, 'p-4 text-sm text-slate-500')}>No tagged transactions in this period.</div>
+  }
+  return (
+    <>
+      <div className="grid gap-3 md:hidden">
+        {rows.map(r => (
+          <div key={r.tag} className={cx(s.card, 'p-3')}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">#{r.tag}</span>
+              <span className="text-xs text-slate-500">{r.tx_count} {r.tx_count === 1 ? 'entry' : 'entries'}</span>
+            </div>
+            <div className="mt-1 grid grid-cols-3 gap-2 text-xs">
+              <div><div className="text-slate-500">Income</div><div className="font-medium text-emerald-700">{fmtCurrency(r.income)}</div></div>
+              <div><div className="text-slate-500">Expenses</div><div className="font-medium text-rose-700">{fmtCurrency(r.expense)}</div></div>
+              <div><div className="text-slate-500">Savings</div><div className="font-medium text-indigo-700">{fmtCurrency(r.savings)}</div></div>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className={cx(s.card, 'hidden md:block')}>
+        <div className="overflow-auto">
+          <table className="w-full min-w-[760px] text-sm">
+            <thead>
+              <tr>
+                <th className={s.th}>Tag</th>
+                <th className={cx(s.th, 'text-right')}>Entries</th>
+                <th className={cx(s.th, 'text-right')}>Income</th>
+                <th className={cx(s.th, 'text-right')}>Expenses</th>
+                <th className={cx(s.th, 'text-right')}>Savings</th>
+                <th className={cx(s.th, 'text-right')}>Net</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => (
+                <tr key={r.tag} className="border-t hover:bg-slate-50/50">
+                  <td className={cx(s.td, 'font-medium')}>#{r.tag}</td>
+                  <td className={cx(s.td, 'text-right')}>{r.tx_count}</td>
+                  <td className={cx(s.td, 'text-right')}>{fmtCurrency(r.income)}</td>
+                  <td className={cx(s.td, 'text-right')}>{fmtCurrency(r.expense)}</td>
+                  <td className={cx(s.td, 'text-right')}>{fmtCurrency(r.savings)}</td>
+                  <td className={cx(s.td, 'text-right', r.income - r.expense >= 0 ? 'text-emerald-700' : 'text-rose-700')}>
+                    {fmtCurrency(r.income - r.expense)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  )
+}
+
+// Volume and price per income stream and month. Avg price covers rows entered
+// by the unit; revenue per unit spreads the stream's whole income over them.
+function UnitSales({ rows }: { rows: UnitRow[] }) {
+  if (rows.length === 0) {
+    return (
+      <div className={cx(s.card, 'p-4 text-sm text-slate-500')}>
+        No unit sales in this period. Give an income category a unit in Categories, then enter quantities on income rows.
+      </div>
+    )
+  }
+  const price = (v: number | null) => (v === null ? '—' : fmtCurrency(v))
+  const units = (r: UnitRow) => unitCount(r.units, r.unit_label ?? 'unit')
+  const priceTone = (r: UnitRow) =>
+    r.avg_price === null || r.list_price === null || Math.abs(r.avg_price - r.list_price) < 0.005
+      ? ''
+      : r.avg_price < r.list_price ? 'text-rose-700' : 'text-emerald-700'
+  return (
+    <>
+      <div className="grid gap-3 md:hidden">
+        {rows.map(r => (
+          <div key={`${r.month}-${r.category}`} className={cx(s.card, 'p-3')}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">{r.category}</span>
+              <span className="text-xs text-slate-500">{r.month}</span>
+            </div>
+            <div className="mt-1 grid grid-cols-3 gap-2 text-xs">
+              <div><div className="text-slate-500">Sold</div><div className="font-medium">{units(r)}</div></div>
+              <div><div className="text-slate-500">Avg price</div><div className={cx('font-medium', priceTone(r))}>{price(r.avg_price)}</div></div>
+              <div><div className="text-slate-500">Revenue / unit</div><div className="font-medium">{price(r.revenue_per_unit)}</div></div>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className={cx(s.card, 'hidden md:block')}>
+        <div className="overflow-auto">
+          <table className="w-full min-w-[760px] text-sm">
+            <thead>
+              <tr>
+                <th className={s.th}>Month</th>
+                <th className={s.th}>Stream</th>
+                <th className={cx(s.th, 'text-right')}>Units sold</th>
+                <th className={cx(s.th, 'text-right')}>List price</th>
+                <th className={cx(s.th, 'text-right')}>Avg realized price</th>
+                <th className={cx(s.th, 'text-right')}>Stream revenue</th>
+                <th className={cx(s.th, 'text-right')}>Revenue / unit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => (
+                <tr key={`${r.month}-${r.category}`} className="border-t hover:bg-slate-50/50">
+                  <td className={s.td}>{r.month}</td>
+                  <td className={cx(s.td, 'font-medium')}>{r.category}</td>
+                  <td className={cx(s.td, 'text-right')}>{units(r)}</td>
+                  <td className={cx(s.td, 'text-right text-slate-500')}>{price(r.list_price)}</td>
+                  <td className={cx(s.td, 'text-right', priceTone(r))}>{price(r.avg_price)}</td>
+                  <td className={cx(s.td, 'text-right')}>{fmtCurrency(r.total_revenue)}</td>
+                  <td className={cx(s.td, 'text-right')}>{price(r.revenue_per_unit)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  )
+}
+
 function Kpi({
   title, value, sub, tone,
 }: { title: string; value: string; sub?: string; tone?: 'pos' | 'neg' }) {
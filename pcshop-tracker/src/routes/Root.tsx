@@ -1,7 +1,8 @@
 import { Link, NavLink, Outlet, useLocation } from 'react-router-dom'
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useSession } from '../lib/session'
 import { supabase } from '../lib/supabaseClient'
+import { postDueRecurring } from '../lib/recurring'
 import { cx, styles as s } from '../ui'
 
 type NavItem = { to: string; label: string; admin?: boolean }
@@ -15,6 +16,21 @@ export default function Root() {
   // close menu on route change
   useEffect(() => setOpen(false), [pathname])
 
+  // catch up recurring entries once per sign-in (no-op when pg_cron already posted them)
+  const canWrite = isAdmin || profile?.role === 'editor'
+  const userId = session?.user?.id ?? null
+  const caughtUpFor = useRef<string | null>(null)
+  const [recurringError, setRecurringError] = useState<string | null>(null)
+  useEffect(() => {
+    if (!canWrite || !userId || caughtUpFor.current === userId) return
+    caughtUpFor.current = userId
+    const catchUp = async () => {
+      const res = await postDueRecurring()
+      if (res.error) setRecurringError(`Recurring entries were not posted: ${res.error}`)
+    }
+    catchUp()
+  }, [canWrite, userId])
+
   const displayName =
     profile?.full_name ||
     ((session?.user?.user_metadata as Record<string, any> | undefined)?.full_name ??
@@ -24,12 +40,19 @@ export default function Root() {
   const nav: NavItem[] = [
     { to: '/',              label: 'Dashboard' },
     { to: '/transactions',  label: 'Transactions' },
+    { to: '/recurring',     label: 'Recurring' },
     { to: '/bills',         label: 'Bills' },
+    { to: '/payees',        label: 'Payees' },
     { to: '/savings',       label: 'Savings' },
+    { to: '/accounts',      label: 'Accounts' },
+    { to: '/closing',       label: 'Closing' },
     { to: '/reports',       label: 'Reports' },
+    { to: '/trash',         label: 'Trash' },
     // admin-only items:
     { to: '/admin/invite',  label: 'Invite', admin: true },
     { to: '/audit',         label: 'Audit',  admin: true },
+    { to: '/admin/categories', label: 'Categories', admin: true },
+    { to: '/admin/bill-check', label: 'Bill check', admin: true },
   ]
 
   const NavBtn = ({ to, label }: { to: string; label: string }) => (
@@ -137,6 +160,12 @@ export default function Root() {
 
       {/* Content */}
       <main className="mx-auto max-w-5xl px-4 pb-20 pt-6">
+        {recurringError && (
+          <div className={cx(s.alert, 'mb-4 flex items-start justify-between gap-3 border-rose-200 bg-rose-50 text-rose-700')}>
+            {recurringError}
+            <button type="button" onClick={() => setRecurringError(null)} className="text-sm font-medium">Dismiss</button>
+          </div>
+        )}
         <Outlet />
       </main>
 
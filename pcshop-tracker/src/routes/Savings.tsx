@@ -3,10 +3,13 @@ import { formatISO } from 'date-fns'
 import { supabase } from '../lib/supabaseClient'
 import { fmtCurrency } from '../lib/currency'
 import { useSession } from '../lib/session'
+import { activeAccounts, useAccounts } from '../lib/accounts'
+import { restoreRecord, trashRecord } from '../lib/trash'
+import { UndoToast } from '../components/UndoToast'
 import { styles as s, cx } from '../ui'
 
 type Goal = { id: string; name: string; target: number }
-type Contrib = { id: string; goal_id: string; date: string; amount: number; note?: string }
+type Contrib = { id: string; goal_id: string; date: string; amount: number; note?: string; account_id?: string | null }
 
 export default function Savings() {
   const { profile } = useSession()
@@ -20,17 +23,26 @@ export default function Savings() {
   const [date, setDate] = useState(formatISO(new Date(), { representation: 'date' }))
   const [amount, setAmount] = useState('')
   const [note, setNote] = useState('')
+  const accounts = useAccounts()
+  const [accountId, setAccountId] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [undo, setUndo] = useState<Contrib | null>(null)
 
   const refresh = async () => {
     const [g, c] = await Promise.all([
       supabase.from('savings_goals').select('*').order('created_at', { ascending: false }),
-      supabase.from('savings_contributions').select('*').order('date', { ascending: false }),
+      supabase.from('savings_contributions').select('*').is('deleted_at', null).order('date', { ascending: false }),
     ])
     setGoals((g.data || []) as Goal[])
     setContribs((c.data || []) as Contrib[])
   }
   useEffect(() => { refresh() }, [])
   useEffect(() => { if (goals.length && !goalId) setGoalId(goals[0].id) }, [goals, goalId])
+  useEffect(() => {
+    const ids = activeAccounts(accounts.items).map(a => a.id)
+    setAccountId(prev => (ids.includes(prev) ? prev : ids[0] ?? ''))
+  }, [accounts.items])
 
   const addGoal = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -46,16 +58,42 @@ export default function Savings() {
     if (!canWrite || !goalId) return
     const amt = Number(amount)
     if (!Number.isFinite(amt) || amt <= 0) return
-    await supabase.from('savings_contributions').insert({ goal_id: goalId, date, amount: amt, note })
-    await supabase.from('transactions').insert({
+    setError(null)
+    // book the savings transaction first so the contribution can point at it
+    const tx = await supabase.from('transactions').insert({
       date, type: 'savings',
       category: (goals.find(g => g.id === goalId)?.name) || 'Savings',
       amount: amt,
       note: note ? `Contribution: ${note}` : 'Savings contribution',
+      account_id: accountId || undefined,
+    }).select('id').single()
+    if (tx.error) return setError(tx.error.message)
+    const { error } = await supabase.from('savings_contributions').insert({
+      goal_id: goalId, date, amount: amt, note, transaction_id: tx.data.id, account_id: accountId || null,
     })
+    if (error) return setError(error.message)
     setAmount(''); setNote(''); refresh()
   }
 
+  // Moves the contribution (and its savings transaction) to the Trash.
+  const del = async (c: Contrib) => {
+    if (!canWrite) return
+    if (!window.confirm(`Delete this contribution of ${fmtCurrency(Number(c.amount))} (${c.date})?\n\nIt can be restored from the Trash.`)) return
+    setError(null)
+    setDeletingId(c.id)
+    const err = await trashRecord('savings_contributions', c.id)
+    setDeletingId(null)
+    if (err) return setError(err)
+    setContribs(prev => prev.filter(x => x.id !== c.id))
+    setUndo(c)
+  }
+
+  const undoDelete = async (c: Contrib) => {
+    const err = await restoreRecord('savings_contributions', c.id)
+    if (err) return setError(err)
+    refresh()
+  }
+
   const totals = useMemo(() => {
     const map: Record<string, number> = {}
     for (const c of contribs) map[c.goal_id] = (map[c.goal_id] || 0) + Number(c.amount)
@@ -128,11 +166,18 @@ export default function Savings() {
           <label className="text-sm text-slate-600">Amount</label>
           <input type="number" step="0.01" value={amount} onChange={(e)=>setAmount(e.target.value)} className={s.input} disabled={!canWrite}/>
         </div>
-        <div className="md:col-span-2">
+        <div>
+          <label className="text-sm text-slate-600">From account</label>
+          <select value={accountId} onChange={(e)=>setAccountId(e.target.value)} className={s.select} disabled={!canWrite}>
+            {activeAccounts(accounts.items).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        </div>
+        <div>
           <label className="text-sm text-slate-600">Note</label>
           <input value={note} onChange={(e)=>setNote(e.target.value)} placeholder="optional" className={s.input} disabled={!canWrite}/>
         </div>
-        <div className="md:col-span-6 flex items-end justify-end">
+        <div className="md:col-span-6 flex items-end justify-end gap-2">
+          {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
           <button className={cx(s.btn, s.primary, 'w-full sm:w-auto')} type="submit" disabled={!canWrite}>Add Contribution</button>
         </div>
       </form>
@@ -152,6 +197,13 @@ export default function Savings() {
                 </div>
                 <div className="mt-1 text-xs text-slate-600">{c.date}</div>
                 {c.note && <div className="mt-1 text-sm">{c.note}</div>}
+                {canWrite && (
+                  <div className="mt-2 flex justify-end">
+                    <button onClick={() => del(c)} className={cx(s.btn, s.danger)} disabled={deletingId === c.id}>
+                      {deletingId === c.id ? 'Deleting…' : 'Delete'}
+                    </button>
+                  </div>
+                )}
               </div>
             )
           })
@@ -168,11 +220,12 @@ export default function Savings() {
                 <th className={s.th}>Goal</th>
                 <th className={cx(s.th, 'text-right')}>Amount</th>
                 <th className={s.th}>Note</th>
+                {canWrite && <th className={cx(s.th, 'text-right')}>Action</th>}
               </tr>
             </thead>
             <tbody>
               {contribs.length === 0 ? (
-                <tr><td className={s.td} colSpan={4}>No contributions yet.</td></tr>
+                <tr><td className={s.td} colSpan={canWrite ? 5 : 4}>No contributions yet.</td></tr>
               ) : (
                 contribs.map(c => {
                   const g = goals.find(x => x.id === c.goal_id)
@@ -182,6 +235,13 @@ export default function Savings() {
                       <td className={s.td}>{g?.name || c.goal_id}</td>
                       <td className={cx(s.td, 'text-right font-semibold')}>{fmtCurrency(Number(c.amount))}</td>
                       <td className={s.td}>{c.note}</td>
+                      {canWrite && (
+                        <td className={cx(s.td, 'text-right')}>
+                          <button onClick={() => del(c)} className={cx(s.btn, s.danger)} disabled={deletingId === c.id}>
+                            {deletingId === c.id ? 'Deleting…' : 'Delete'}
+                          </button>
+                        </td>
+                      )}
                     </tr>
                   )
                 })
@@ -190,6 +250,15 @@ export default function Savings() {
           </table>
         </div>
       </div>
+
+      {undo && (
+        <UndoToast
+          key={undo.id}
+          message={`Deleted contribution • ${fmtCurrency(Number(undo.amount))}`}
+          onUndo={() => undoDelete(undo)}
+          onClose={() => setUndo(null)}
+        />
+      )}
     </section>
   )
 }
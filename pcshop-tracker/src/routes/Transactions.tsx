@@ -1,73 +1,169 @@
-import { useEffect, useMemo, useState } from 'react'
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
 import { formatISO } from 'date-fns'
 import { supabase } from '../lib/supabaseClient'
 import { fmtCurrency } from '../lib/currency'
 import { useSession } from '../lib/session'
+import { TX_TYPES, unitAmount, unitCount, validateSplits, validateTx, type Tx, type TxSplit, type TxType } from '../lib/transactions'
+import { activeNames, byKind, colorOf, unitOf, useCategories, validCategoryMap, type Category } from '../lib/categories'
+import { EMPTY_FILTERS, applyTxFilters, filtersFromParams, filtersToParams, splitMatchIds, totalsArgs, type TxFilters } from '../lib/txFilters'
+import { bulkUpdate, filteredTargets, toTarget, type BulkAction, type BulkKind, type BulkTarget } from '../lib/txBulk'
+import { useTagNames } from '../lib/tags'
+import { accountName, activeAccounts, useAccounts } from '../lib/accounts'
+import { payeeName, usePayees } from '../lib/payees'
+import { ATTACHMENT_COLUMNS, uploadAll, type Attachment } from '../lib/attachments'
+import { restoreRecord, trashRecord } from '../lib/trash'
+import { AttachmentManager, AttachmentThumbs, PendingFiles } from '../components/Attachments'
+import { UndoToast } from '../components/UndoToast'
+import { TagInput } from '../components/TagInput'
+import { QuickAdd } from '../components/QuickAdd'
+import { PayeeSelect } from '../components/PayeeSelect'
 import { styles as s, cx } from '../ui'
 
-type TxType = 'income' | 'expense' | 'savings'
-type Tx = { id: string; date: string; type: TxType; category: string; amount: number; note?: string }
+const PAGE_SIZE = 50
 
-const CATS: Record<TxType, string[]> = {
-  income: ['PisoNet', 'Water Refilling', 'Printing', 'Other'],
-  expense: ['Salaries', 'Foods', 'Business Permit', 'Other'],
-  savings: ['Emergency Fund', 'Store Upgrade', 'Marketing Fund', 'New Tools', 'Other'],
-}
+type TxPatch = Pick<Tx, 'date' | 'type' | 'category' | 'amount' | 'note' | 'tags' | 'account_id' | 'payee_id' | 'quantity' | 'unit_price'>
+type LineDraft = { category: string; amount: string; note: string }
+
+type Totals = { income: number; expense: number; savings: number; net: number; row_count: number }
 
 export default function Transactions() {
   const { profile } = useSession()
   const canWrite = profile?.role === 'admin' || profile?.role === 'editor'
+  const catalog = useCategories()
+  const validCats = useMemo(() => validCategoryMap(catalog.items), [catalog.items])
+  const accounts = useAccounts()
+  const payees = usePayees()
 
   const [items, setItems] = useState<Tx[]>([])
   const [type, setType] = useState<TxType>('income')
   const [date, setDate] = useState<string>(formatISO(new Date(), { representation: 'date' }))
   const [amount, setAmount] = useState('')
-  const [category, setCategory] = useState(CATS['income'][0])
+  const [category, setCategory] = useState('')
   const [note, setNote] = useState('')
+  const [tags, setTags] = useState<string[]>([])
+  const [accountId, setAccountId] = useState('')
+  const [payeeId, setPayeeId] = useState('')
+  const [qty, setQty] = useState('')
+  const [unitPrice, setUnitPrice] = useState<string | null>(null) // null = the stream's default price
+  const [files, setFiles] = useState<File[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Search
-  const [q, setQ] = useState('')
+  // Filters + page live in the URL so a filtered view can be bookmarked/shared
+  const [params, setParams] = useSearchParams()
+  const paramKey = params.toString()
+  const filters = useMemo(() => filtersFromParams(new URLSearchParams(paramKey)), [paramKey])
+  const page = Math.max(1, Number(params.get('page')) || 1)
+  const [draft, setDraft] = useState<TxFilters>(filters)
+  const [totals, setTotals] = useState<Totals | null>(null)
+  const [count, setCount] = useState(0)
 
-  // Inline edit amount
-  const [editingId, setEditingId] = useState<string | null>(null)
-  const [editAmount, setEditAmount] = useState<string>('')
+  // Edit dialog
+  const [editing, setEditing] = useState<Tx | null>(null)
   const [savingEdit, setSavingEdit] = useState(false)
+  const [editError, setEditError] = useState<string | null>(null)
+
+  // split rows expanded in the ledger
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({})
+  const toggleExpanded = (id: string) => setExpanded(prev => ({ ...prev, [id]: !prev[id] }))
 
   // NEW: delete busy state
   const [deletingId, setDeletingId] = useState<string | null>(null)
+  // last delete (single or bulk), for the Undo toast
+  const [undo, setUndo] = useState<{ key: string; message: string; restore: () => Promise<string | null> } | null>(null)
 
-  const valid = Number(amount) > 0 && !!date && !!category
+  // Bulk selection: checked rows on this page, or every row matching the filters
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [allMatching, setAllMatching] = useState(false)
+  const [anchor, setAnchor] = useState<number | null>(null) // last clicked row, for shift-click ranges
+  const [bulk, setBulk] = useState<{ kind: BulkKind; targets: BulkTarget[] } | null>(null)
+  const [bulkBusy, setBulkBusy] = useState(false)
+  const [bulkError, setBulkError] = useState<string | null>(null)
 
-  const refresh = async () => {
-    setLoading(true)
-    const { data, error } = await supabase
-      .from('transactions')
-      .select('*')
-      .order('date', { ascending: false })
-      .limit(200)
-    setLoading(false)
-    if (error) return setError(error.message)
-    setItems((data || []) as Tx[])
-  }
+  // income streams sold by the unit compute the amount from quantity × price
+  const unit = type === 'income' ? unitOf(catalog.items, category) : null
+  const price = unitPrice ?? (unit ? String(unit.price) : '')
+  const fromUnits = unit ? unitAmount(qty, price) : null
+  const effAmount = fromUnits ?? Number(amount)
+  const valid = effAmount > 0 && !!date && !!category
+
+  // bump to re-run the ledger query after writes
+  const [reloadKey, setReloadKey] = useState(0)
+  const refresh = () => setReloadKey(k => k + 1)
+  const tagNames = useTagNames(reloadKey)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      setLoading(true)
+      const offset = (page - 1) * PAGE_SIZE
+      // split rows match a category filter through any of their lines
+      const splitIds = await splitMatchIds(filters.cats)
+      const [list, sums] = await Promise.all([
+        applyTxFilters(
+          supabase.from('transactions').select(`*, transaction_splits(id,position,category,amount,note), ${ATTACHMENT_COLUMNS}`, { count: 'exact' }),
+          filters,
+          splitIds,
+        )
+          .order('date', { ascending: false })
+          .order('id', { ascending: false })
+          .range(offset, offset + PAGE_SIZE - 1),
+        supabase.rpc('transaction_totals', totalsArgs(filters)).single(),
+      ])
+      if (cancelled) return
+      setLoading(false)
+      if (list.error) return setError(list.error.message)
+      setItems((list.data || []) as Tx[])
+      setCount(list.count ?? 0)
+      if (sums.error) return setError(sums.error.message)
+      setTotals(sums.data as Totals)
+    }
+    load()
+    return () => { cancelled = true }
+  }, [filters, page, reloadKey])
+  useEffect(() => { setDraft(filters) }, [filters])
+  // a selection only makes sense for the view it was made in
+  useEffect(() => { setSelected(new Set()); setAllMatching(false); setAnchor(null) }, [filters, page])
+  useEffect(() => { setCategory(activeNames(catalog.items, type)[0] ?? '') }, [type, catalog.items])
+  useEffect(() => { setQty(''); setUnitPrice(null) }, [type, category])
+  useEffect(() => {
+    const ids = activeAccounts(accounts.items).map(a => a.id)
+    setAccountId(prev => (ids.includes(prev) ? prev : ids[0] ?? ''))
+  }, [accounts.items])
 
-  useEffect(() => { refresh() }, [])
-  useEffect(() => { setCategory(CATS[type][0]) }, [type])
+  // a payee's usual payment method becomes the account
+  const pickPayee = (id: string) => {
+    setPayeeId(id)
+    const acc = payees.items.find(p => p.id === id)?.default_account_id
+    if (acc && activeAccounts(accounts.items).some(a => a.id === acc)) setAccountId(acc)
+  }
 
   const add = async (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
     if (!canWrite) return setError('You do not have permission to add transactions.')
-    const amt = Number(amount)
+    const amt = effAmount
     if (!valid) return setError('Please enter a positive amount.')
-    const { error } = await supabase.from('transactions').insert({ date, type, category, amount: amt, note })
+    const problem = validateTx({ date, type, category, amount: amt }, validCats)
+    if (problem) return setError(problem)
+    const units = fromUnits !== null ? { quantity: Number(qty), unit_price: Number(price) } : {}
+    const { data, error } = await supabase
+      .from('transactions')
+      .insert({
+        date, type, category, amount: amt, note, tags, account_id: accountId || undefined,
+        payee_id: type === 'expense' ? payeeId || null : null, ...units,
+      })
+      .select('id')
+      .single()
     if (error) return setError(error.message)
-    setAmount(''); setNote('')
+    const uploadErr = files.length ? await uploadAll({ transaction_id: data.id as string }, files) : null
+    if (uploadErr) setError(`Saved, but an attachment failed: ${uploadErr}`)
+    setAmount(''); setQty(''); setNote(''); setTags([]); setFiles([]); setPayeeId('')
     refresh()
   }
 
-  // UPDATED: ask for confirmation before deleting
+  // UPDATED: ask for confirmation, then move to the Trash (restorable)
   const del = async (row: Tx) => {
     if (!canWrite) return
     const ok = window.confirm(
@@ -75,52 +171,141 @@ export default function Transactions() {
       `Category: ${row.category}\n` +
       `Date:     ${row.date}\n` +
       `Amount:   ${fmtCurrency(Number(row.amount))}\n\n` +
-      `This cannot be undone.`
+      `It will be moved to the Trash.`
     )
     if (!ok) return
 
     setDeletingId(row.id)
-    const { error } = await supabase.from('transactions').delete().eq('id', row.id)
+    const err = await trashRecord('transactions', row.id)
     setDeletingId(null)
-    if (error) return setError(error.message)
+    if (err) return setError(err)
     setItems(prev => prev.filter(x => x.id !== row.id))
+    setUndo({
+      key: row.id,
+      message: `Deleted ${row.category} • ${fmtCurrency(Number(row.amount))}`,
+      restore: () => restoreRecord('transactions', row.id),
+    })
+    refresh()
+  }
+
+  const undoDelete = async (restore: () => Promise<string | null>) => {
+    const err = await restore()
+    if (err) return setError(err)
+    refresh()
+  }
+
+  // Bulk selection
+  const clearSelection = () => { setSelected(new Set()); setAllMatching(false); setAnchor(null) }
+  const pageSelected = items.length > 0 && items.every(r => selected.has(r.id))
+  const selectedCount = allMatching ? count : selected.size
+  const selectedTotal = allMatching
+    ? (totals ? Number(totals.income) + Number(totals.expense) + Number(totals.savings) : 0)
+    : items.filter(r => selected.has(r.id)).reduce((a, r) => a + Number(r.amount), 0)
+
+  // shift-click extends from the last clicked row to this one
+  const toggleRow = (index: number, shift: boolean) => {
+    const id = items[index].id
+    const on = !selected.has(id)
+    const [lo, hi] = shift && anchor !== null ? [Math.min(anchor, index), Math.max(anchor, index)] : [index, index]
+    setSelected(prev => {
+      const next = new Set(prev)
+      for (const r of items.slice(lo, hi + 1)) {
+        if (on) next.add(r.id)
+        else next.delete(r.id)
+      }
+      return next
+    })
+    setAllMatching(false)
+    setAnchor(index)
+  }
+  const togglePage = () => {
+    setSelected(pageSelected ? new Set() : new Set(items.map(r => r.id)))
+    setAllMatching(false)
+    setAnchor(null)
+  }
+
+  const openBulk = async (kind: BulkKind) => {
+    if (!canWrite) return
+    setBulkError(null)
+    if (!allMatching) return setBulk({ kind, targets: items.filter(r => selected.has(r.id)).map(toTarget) })
+    setBulkBusy(true)
+    const res = await filteredTargets(filters)
+    setBulkBusy(false)
+    if (res.error) return setError(res.error)
+    setBulk({ kind, targets: res.targets })
+  }
+
+  const runBulk = async (action: BulkAction) => {
+    if (!canWrite || !bulk) return
+    const ids = bulk.targets.map(t => t.id)
+    setBulkBusy(true); setBulkError(null)
+    const res = await bulkUpdate(ids, action)
+    setBulkBusy(false)
+    if (res.error) return setBulkError(res.error)
+    if (action.kind === 'delete') {
+      const total = bulk.targets.reduce((a, t) => a + t.amount, 0)
+      // the server keeps expenses that pay a bill; they go with the bill or its payment
+      const kept = ids.length - res.changed
+      setUndo({
+        key: ids.join(','),
+        message: `Deleted ${res.changed} ${res.changed === 1 ? 'entry' : 'entries'}${kept ? '' : ` • ${fmtCurrency(total)}`}`,
+        restore: async () => (await bulkUpdate(ids, { kind: 'restore' })).error,
+      })
+      if (kept) setError(`${kept} bill payment ${kept === 1 ? 'expense was' : 'expenses were'} kept. Remove the payment from its bill instead.`)
+    }
+    setBulk(null)
+    clearSelection()
+    refresh()
   }
 
-  // Inline amount edit
+  // Full-record edit (dialog)
   const startEdit = (row: Tx) => {
     if (!canWrite) return
-    setEditingId(row.id)
-    setEditAmount(String(row.amount ?? ''))
-    setError(null)
+    setEditing(row)
+    setEditError(null)
   }
-  const cancelEdit = () => { setEditingId(null); setEditAmount('') }
-  const saveEdit = async (row: Tx) => {
+  const cancelEdit = () => { setEditing(null); setEditError(null) }
+  const saveEdit = async (row: Tx, patch: TxPatch, lines: TxSplit[]) => {
     if (!canWrite) return
-    const newAmt = Number(editAmount)
-    if (!Number.isFinite(newAmt) || newAmt <= 0) {
-      setError('Amount must be a positive number.')
-      return
-    }
+    // a split row's headline category is its largest line (same rule as set_transaction_splits)
+    const fields = lines.length ? { ...patch, category: [...lines].sort((a, b) => b.amount - a.amount)[0].category } : patch
+    const problem = validateTx(fields, validCats) ?? validateSplits(fields.type, fields.amount, lines, validCats)
+    if (problem) return setEditError(problem)
     setSavingEdit(true)
     const prev = items
-    setItems(prev => prev.map(r => r.id === row.id ? { ...r, amount: newAmt } : r))
-    const { error } = await supabase.from('transactions').update({ amount: newAmt }).eq('id', row.id)
+    setItems(prev => prev.map(r => r.id === row.id ? { ...r, ...fields, transaction_splits: lines } : r))
+    const { error } = await supabase.rpc('update_transaction', {
+      tx_id: row.id,
+      fields,
+      lines: lines.map(l => ({ category: l.category, amount: l.amount, note: l.note ?? null })),
+    })
     setSavingEdit(false)
     if (error) {
-      setError(error.message)
+      setEditError(error.message)
       setItems(prev)
       return
     }
-    setEditingId(null)
-    setEditAmount('')
+    setEditing(null)
+    refresh()
   }
 
-  // Filter
-  const filtered = useMemo(() => {
-    const term = q.trim().toLowerCase()
-    if (!term) return items
-    return items.filter(t => `${t.category} ${t.note ?? ''} ${t.type}`.toLowerCase().includes(term))
-  }, [items, q])
+  // Filters
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault()
+    setParams(filtersToParams(draft))
+  }
+  const clearFilters = () => setParams(filtersToParams(EMPTY_FILTERS))
+  const goPage = (n: number) => setParams(filtersToParams(filters, n))
+  const pages = Math.max(1, Math.ceil(count / PAGE_SIZE))
+  const cols = canWrite ? 7 : 6 // desktop table columns
+
+  // category choices follow the type filter, or all categories when no type is picked
+  // archived categories stay filterable so older rows can still be found
+  const filterCats = [...new Set(
+    (draft.type ? [draft.type] : TX_TYPES).flatMap(t => byKind(catalog.items, t, true).map(c => c.name))
+  )]
+  const toggleCat = (c: string) =>
+    setDraft(d => ({ ...d, cats: d.cats.includes(c) ? d.cats.filter(x => x !== c) : [...d.cats, c] }))
 
   return (
     <section className="grid gap-6">
@@ -130,12 +315,14 @@ export default function Transactions() {
         </div>
       )}
 
+      {canWrite && <QuickAdd onAdded={refresh} />}
+
       {/* Form */}
       <form onSubmit={add} className={cx(s.card, 'grid grid-cols-1 gap-3 p-4 md:grid-cols-6')} aria-disabled={!canWrite}>
         <div>
           <label className="text-sm text-slate-600">Type</label>
           <select value={type} onChange={(e)=>setType(e.target.value as TxType)} className={s.select} disabled={!canWrite}>
-            {(['income','expense','savings'] as const).map(t => <option key={t} value={t}>{t}</option>)}
+            {TX_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
           </select>
         </div>
         <div>
@@ -144,91 +331,254 @@ export default function Transactions() {
         </div>
         <div>
           <label className="text-sm text-slate-600">Amount</label>
-          <input type="number" step="0.01" value={amount} onChange={(e)=>setAmount(e.target.value)} className={s.input} placeholder="e.g., 1500" disabled={!canWrite}/>
+          <input
+            type="number" step="0.01"
+            value={fromUnits ?? amount}
+            onChange={(e)=>setAmount(e.target.value)}
+            readOnly={fromUnits !== null}
+            className={cx(s.input, fromUnits !== null && 'bg-slate-50')}
+            placeholder="e.g., 1500"
+            disabled={!canWrite}
+          />
         </div>
         <div>
           <label className="text-sm text-slate-600">Category</label>
           <select value={category} onChange={(e)=>setCategory(e.target.value)} className={s.select} disabled={!canWrite}>
-            {CATS[type].map(c => <option key={c}>{c}</option>)}
+            {activeNames(catalog.items, type).map(c => <option key={c}>{c}</option>)}
           </select>
         </div>
+        {unit && (
+          <>
+            <div>
+              <label className="text-sm text-slate-600">Quantity ({unit.label}s)</label>
+              <input type="number" step="any" min={0} value={qty} onChange={(e)=>setQty(e.target.value)} className={s.input} placeholder="optional" disabled={!canWrite}/>
+            </div>
+            <div>
+              <label className="text-sm text-slate-600">Price per {unit.label}</label>
+              <input type="number" step="0.01" min={0} value={price} onChange={(e)=>setUnitPrice(e.target.value)} className={s.input} disabled={!canWrite}/>
+            </div>
+          </>
+        )}
         <div className="md:col-span-2">
           <label className="text-sm text-slate-600">Note</label>
           <input value={note} onChange={(e)=>setNote(e.target.value)} placeholder="details…" className={s.input} disabled={!canWrite}/>
         </div>
+        <div className="md:col-span-2">
+          <label className="text-sm text-slate-600">Account</label>
+          <select value={accountId} onChange={(e)=>setAccountId(e.target.value)} className={s.select} disabled={!canWrite}>
+            {activeAccounts(accounts.items).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        </div>
+        {type === 'expense' && (
+          <div className="md:col-span-2">
+            <label className="text-sm text-slate-600">Payee</label>
+            <PayeeSelect value={payeeId} onChange={pickPayee} disabled={!canWrite} />
+          </div>
+        )}
+        <div className={type === 'expense' ? 'md:col-span-6' : 'md:col-span-4'}>
+          <label className="text-sm text-slate-600">Tags</label>
+          <TagInput value={tags} onChange={setTags} suggestions={tagNames} disabled={!canWrite} placeholder="e.g., march promo" />
+        </div>
+        <div className="md:col-span-6">
+          <label className="text-sm text-slate-600">Receipt / invoice</label>
+          <PendingFiles files={files} onChange={setFiles} disabled={!canWrite} />
+        </div>
         <div className="md:col-span-6 flex items-end justify-end gap-2">
           {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+          {canWrite && (
+            <Link to="/transactions/batch" className={cx(s.btn, s.secondary, 'w-full sm:w-auto')}>
+              Batch entry
+            </Link>
+          )}
+          {canWrite && (
+            <Link to="/transactions/import" className={cx(s.btn, s.secondary, 'w-full sm:w-auto')}>
+              Import CSV/Excel
+            </Link>
+          )}
           <button type="submit" disabled={!valid || !canWrite} className={cx(s.btn, s.primary, 'w-full sm:w-auto')}>
             Add
           </button>
         </div>
       </form>
 
-      {/* Search */}
-      <div className={cx(s.card, 'p-3 sm:p-4')}>
-        <label className="mb-1 block text-sm text-slate-600">Search</label>
-        <input className={s.input} value={q} onChange={(e)=>setQ(e.target.value)} placeholder="Find by category, note, or type…"/>
+      {/* Filters */}
+      <form onSubmit={applyFilters} className={cx(s.card, 'grid grid-cols-1 gap-3 p-3 sm:grid-cols-2 sm:p-4 md:grid-cols-6')}>
+        <div>
+          <label className="text-sm text-slate-600">From</label>
+          <input type="date" value={draft.from} onChange={(e)=>setDraft({ ...draft, from: e.target.value })} className={s.input}/>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">To</label>
+          <input type="date" value={draft.to} onChange={(e)=>setDraft({ ...draft, to: e.target.value })} className={s.input}/>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Type</label>
+          <select
+            value={draft.type}
+            onChange={(e)=>setDraft({ ...draft, type: e.target.value as TxType | '', cats: [] })}
+            className={s.select}
+          >
+            <option value="">All types</option>
+            {TX_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Min amount</label>
+          <input type="number" step="0.01" value={draft.min} onChange={(e)=>setDraft({ ...draft, min: e.target.value })} className={s.input}/>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Max amount</label>
+          <input type="number" step="0.01" value={draft.max} onChange={(e)=>setDraft({ ...draft, max: e.target.value })} className={s.input}/>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Note contains</label>
+          <input value={draft.q} onChange={(e)=>setDraft({ ...draft, q: e.target.value })} placeholder="e.g., bond paper" className={s.input}/>
+        </div>
+        <div className="sm:col-span-2 md:col-span-6">
+          <div className="text-sm text-slate-600">Categories</div>
+          <div className="mt-1 flex flex-wrap gap-2">
+            {filterCats.map(c => (
+              <label
+                key={c}
+                className={cx(
+                  'inline-flex cursor-pointer items-center gap-1 rounded-full px-3 py-1 text-xs ring-1',
+                  draft.cats.includes(c) ? 'bg-indigo-50 text-indigo-700 ring-indigo-200' : 'bg-white text-slate-600 ring-slate-200'
+                )}
+              >
+                <input type="checkbox" className="sr-only" checked={draft.cats.includes(c)} onChange={()=>toggleCat(c)}/>
+                {c}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="sm:col-span-2 md:col-span-6">
+          <label className="text-sm text-slate-600">Tags</label>
+          <TagInput value={draft.tags} onChange={(t)=>setDraft({ ...draft, tags: t })} suggestions={tagNames} placeholder="Only rows with every tag…" />
+        </div>
+        <div className="sm:col-span-2 md:col-span-6 flex flex-wrap justify-end gap-2">
+          <button type="button" onClick={clearFilters} className={cx(s.btn, s.secondary, 'w-full sm:w-auto')}>Clear</button>
+          <button type="submit" className={cx(s.btn, s.primary, 'w-full sm:w-auto')}>Apply filters</button>
+        </div>
+      </form>
+
+      {/* Totals for the filtered set */}
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <TotalCard label="Income" value={totals?.income} tone="text-emerald-700" />
+        <TotalCard label="Expenses" value={totals?.expense} tone="text-rose-700" />
+        <TotalCard label="Savings" value={totals?.savings} tone="text-indigo-700" />
+        <TotalCard label="Net (income − expenses)" value={totals?.net} tone={(totals?.net ?? 0) >= 0 ? 'text-emerald-700' : 'text-rose-700'} />
       </div>
 
+      {/* Bulk selection toolbar */}
+      {canWrite && items.length > 0 && (
+        <div className={cx(s.card, 'grid gap-2 p-3')}>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="mr-auto inline-flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={pageSelected} onChange={togglePage} />
+              {selectedCount > 0
+                ? <span><span className="font-medium text-slate-800">{selectedCount} selected</span> • {fmtCurrency(selectedTotal)}</span>
+                : 'Select page'}
+            </label>
+            {selectedCount > 0 && (
+              <>
+                <button type="button" onClick={()=>openBulk('category')} disabled={bulkBusy} className={cx(s.btn, s.secondary, 'px-3')}>Recategorize</button>
+                <button type="button" onClick={()=>openBulk('type')} disabled={bulkBusy} className={cx(s.btn, s.secondary, 'px-3')}>Change type</button>
+                <button type="button" onClick={()=>openBulk('date')} disabled={bulkBusy} className={cx(s.btn, s.secondary, 'px-3')}>Change date</button>
+                <button type="button" onClick={()=>openBulk('add_tags')} disabled={bulkBusy} className={cx(s.btn, s.secondary, 'px-3')}>Tags</button>
+                <button type="button" onClick={()=>openBulk('delete')} disabled={bulkBusy} className={cx(s.btn, s.danger, 'px-3')}>Delete</button>
+                <button type="button" onClick={clearSelection} className="text-sm text-slate-500 hover:text-slate-800">Clear</button>
+              </>
+            )}
+          </div>
+          {pageSelected && !allMatching && count > items.length && (
+            <div className="text-sm text-slate-600">
+              All {items.length} on this page are selected.{' '}
+              <button type="button" onClick={()=>setAllMatching(true)} className="font-medium text-indigo-700">
+                Select all {count} matching entries
+              </button>
+            </div>
+          )}
+          {allMatching && (
+            <div className="text-sm text-slate-600">All {count} matching entries are selected, across every page.</div>
+          )}
+          {bulkBusy && !bulk && <div className="text-xs text-slate-500">Collecting matching entries…</div>}
+        </div>
+      )}
+
       {/* Mobile cards */}
       <div className="grid gap-3 md:hidden">
         {loading ? (
           <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>Loading…</div>
-        ) : filtered.length === 0 ? (
+        ) : items.length === 0 ? (
           <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>No matching entries.</div>
         ) : (
-          filtered.map((row) => {
-            const isEditing = editingId === row.id
-            return (
-              <div key={row.id} className={cx(s.card, 'p-3')}>
-                <div className="flex items-center justify-between gap-2">
-                  <div className="text-sm font-medium">{row.category}</div>
-                  {isEditing ? (
+          items.map((row, i) => (
+            <div key={row.id} className={cx(s.card, 'p-3', (allMatching || selected.has(row.id)) && 'ring-2 ring-indigo-200')}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {canWrite && (
                     <input
-                      className={cx(s.input, 'w-28 text-right')}
-                      type="number" step="0.01"
-                      value={editAmount}
-                      onChange={(e)=>setEditAmount(e.target.value)}
-                      autoFocus
+                      type="checkbox"
+                      checked={allMatching || selected.has(row.id)}
+                      onChange={(e)=>toggleRow(i, (e.nativeEvent as MouseEvent).shiftKey)}
+                      aria-label={`Select ${row.category} on ${row.date}`}
                     />
-                  ) : (
-                    <div className={cx('text-sm font-semibold',
-                      row.type === 'income' ? 'text-emerald-700' : row.type === 'expense' ? 'text-rose-700' : 'text-indigo-700')}>
-                      {fmtCurrency(Number(row.amount))}
-                    </div>
                   )}
+                  <CategoryDot color={colorOf(catalog.items, row.type, row.category)} />
+                  {row.category}
+                </div>
+                <div className={cx('text-sm font-semibold',
+                  row.type === 'income' ? 'text-emerald-700' : row.type === 'expense' ? 'text-rose-700' : 'text-indigo-700')}>
+                  {fmtCurrency(Number(row.amount))}
                 </div>
-                <div className="mt-1 text-xs text-slate-600">{row.date} • {row.type}</div>
-                {row.note && <div className="mt-1 text-sm">{row.note}</div>}
-
-                <div className="mt-2 grid grid-cols-2 gap-2">
-                  {canWrite ? (
-                    isEditing ? (
-                      <>
-                        <button onClick={()=>saveEdit(row)} className={cx(s.btn, s.primary, 'w-full')} disabled={savingEdit}>
-                          {savingEdit ? 'Saving…' : 'Save'}
-                        </button>
-                        <button onClick={cancelEdit} className={cx(s.btn, s.secondary, 'w-full')}>Cancel</button>
-                      </>
-                    ) : (
-                      <>
-                        <button onClick={()=>startEdit(row)} className={cx(s.btn, s.secondary, 'w-full')}>Edit</button>
-                        <button
-                          onClick={()=>del(row)}
-                          className={cx(s.btn, s.danger, 'w-full')}
-                          disabled={deletingId === row.id}
-                        >
-                          {deletingId === row.id ? 'Deleting…' : 'Delete'}
-                        </button>
-                      </>
-                    )
-                  ) : (
-                    <div className="col-span-2 text-right text-slate-400">View only</div>
+              </div>
+              <div className="mt-1 text-xs text-slate-600">
+                {row.date} • {row.type}{row.account_id && ` • ${accountName(accounts.items, row.account_id)}`}
+                {row.payee_id && ` • ${payeeName(payees.items, row.payee_id)}`}
+              </div>
+              {row.note && <div className="mt-1 text-sm">{row.note}</div>}
+              {row.quantity != null && <div className="mt-1 text-xs text-slate-500">{unitLine(row, catalog.items)}</div>}
+              {!!row.tags?.length && <div className="mt-1"><TagList tags={row.tags} /></div>}
+              {!!row.attachments?.length && <div className="mt-2"><AttachmentThumbs items={row.attachments} /></div>}
+              {!!row.transaction_splits?.length && (
+                <div className="mt-2">
+                  <button type="button" onClick={()=>toggleExpanded(row.id)} className="text-xs font-medium text-indigo-700">
+                    {expanded[row.id] ? '▾' : '▸'} Split into {row.transaction_splits.length} lines
+                  </button>
+                  {expanded[row.id] && (
+                    <ul className="mt-1 grid gap-1 rounded-lg bg-slate-50 p-2 text-xs">
+                      {sortedLines(row).map((l, i) => (
+                        <li key={l.id ?? i} className="flex items-center justify-between gap-2">
+                          <span className="inline-flex items-center gap-2">
+                            <CategoryDot color={colorOf(catalog.items, row.type, l.category)} />
+                            {l.category}{l.note && <span className="text-slate-500">• {l.note}</span>}
+                          </span>
+                          <span className="font-medium">{fmtCurrency(Number(l.amount))}</span>
+                        </li>
+                      ))}
+                    </ul>
                   )}
                 </div>
+              )}
+
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                {canWrite ? (
+                  <>
+                    <button onClick={()=>startEdit(row)} className={cx(s.btn, s.secondary, 'w-full')}>Edit</button>
+                    <button
+                      onClick={()=>del(row)}
+                      className={cx(s.btn, s.danger, 'w-full')}
+                      disabled={deletingId === row.id}
+                    >
+                      {deletingId === row.id ? 'Deleting…' : 'Delete'}
+                    </button>
+                  </>
+                ) : (
+                  <div className="col-span-2 text-right text-slate-400">View only</div>
+                )}
               </div>
-            )
-          })
+            </div>
+          ))
         )}
       </div>
 
@@ -238,6 +588,11 @@ export default function Transactions() {
           <table className="w-full min-w-[720px] text-sm">
             <thead>
               <tr>
+                {canWrite && (
+                  <th className={cx(s.th, 'w-8')}>
+                    <input type="checkbox" checked={pageSelected} onChange={togglePage} aria-label="Select page" />
+                  </th>
+                )}
                 <th className={s.th}>Date</th>
                 <th className={s.th}>Type</th>
                 <th className={s.th}>Category</th>
@@ -248,70 +603,541 @@ export default function Transactions() {
             </thead>
             <tbody>
               {loading ? (
-                <tr><td className={s.td} colSpan={6}>Loading…</td></tr>
-              ) : filtered.length === 0 ? (
-                <tr><td className={s.td} colSpan={6}>No matching entries.</td></tr>
+                <tr><td className={s.td} colSpan={cols}>Loading…</td></tr>
+              ) : items.length === 0 ? (
+                <tr><td className={s.td} colSpan={cols}>No matching entries.</td></tr>
               ) : (
-                filtered.map(row => {
-                  const isEditing = editingId === row.id
-                  return (
-                    <tr key={row.id} className="border-t hover:bg-slate-50/50">
-                      <td className={cx(s.td, 'whitespace-nowrap')}>{row.date}</td>
-                      <td className={s.td}>{row.type}</td>
-                      <td className={s.td}>{row.category}</td>
-                      <td className={s.td}>{row.note}</td>
-
-                      <td className={cx(s.td, 'text-right align-middle')}>
-                        {isEditing ? (
+                items.map((row, i) => (
+                  <Fragment key={row.id}>
+                    <tr className={cx('border-t hover:bg-slate-50/50', (allMatching || selected.has(row.id)) && 'bg-indigo-50/40')}>
+                      {canWrite && (
+                        <td className={s.td}>
                           <input
-                            className={cx(s.input, 'w-28 text-right')}
-                            type="number" step="0.01"
-                            value={editAmount}
-                            onChange={(e)=>setEditAmount(e.target.value)}
-                            autoFocus
+                            type="checkbox"
+                            checked={allMatching || selected.has(row.id)}
+                            onChange={(e)=>toggleRow(i, (e.nativeEvent as MouseEvent).shiftKey)}
+                            aria-label={`Select ${row.category} on ${row.date}`}
                           />
+                        </td>
+                      )}
+                      <td className={cx(s.td, 'whitespace-nowrap')}>{row.date}</td>
+                      <td className={s.td}>
+                        {row.type}
+                        {row.account_id && <div className="text-xs text-slate-500">{accountName(accounts.items, row.account_id)}</div>}
+                        {row.payee_id && (
+                          <Link to={`/payees/${row.payee_id}`} className="block text-xs font-medium text-indigo-700">
+                            {payeeName(payees.items, row.payee_id)}
+                          </Link>
+                        )}
+                      </td>
+                      <td className={s.td}>
+                        {row.transaction_splits?.length ? (
+                          <button type="button" onClick={()=>toggleExpanded(row.id)} className="inline-flex items-center gap-2 text-left">
+                            <span className="text-slate-400">{expanded[row.id] ? '▾' : '▸'}</span>
+                            Split • {row.transaction_splits.length} lines
+                          </button>
                         ) : (
-                          <span className={cx('font-semibold',
-                            row.type === 'income' ? 'text-emerald-700' : row.type === 'expense' ? 'text-rose-700' : 'text-indigo-700')}>
-                            {fmtCurrency(Number(row.amount))}
+                          <span className="inline-flex items-center gap-2">
+                            <CategoryDot color={colorOf(catalog.items, row.type, row.category)} />
+                            {row.category}
                           </span>
                         )}
                       </td>
-
+                      <td className={s.td}>
+                        <div className="flex items-center gap-2">
+                          <span className="flex-1">
+                            {row.note}
+                            {!!row.tags?.length && <span className="ml-1"><TagList tags={row.tags} /></span>}
+                            {row.quantity != null && <span className="block text-xs text-slate-500">{unitLine(row, catalog.items)}</span>}
+                          </span>
+                          <AttachmentThumbs items={row.attachments} />
+                        </div>
+                      </td>
+                      <td className={cx(s.td, 'text-right align-middle')}>
+                        <span className={cx('font-semibold',
+                          row.type === 'income' ? 'text-emerald-700' : row.type === 'expense' ? 'text-rose-700' : 'text-indigo-700')}>
+                          {fmtCurrency(Number(row.amount))}
+                        </span>
+                      </td>
                       <td className={cx(s.td, 'text-right')}>
                         {canWrite ? (
-                          isEditing ? (
-                            <div className="inline-flex gap-2">
-                              <button onClick={()=>saveEdit(row)} disabled={savingEdit} className={cx(s.btn, s.primary)} type="button">
-                                {savingEdit ? 'Saving…' : 'Save'}
-                              </button>
-                              <button onClick={cancelEdit} type="button" className={cx(s.btn, s.secondary)}>Cancel</button>
-                            </div>
-                          ) : (
-                            <div className="inline-flex gap-2">
-                              <button onClick={()=>startEdit(row)} type="button" className={cx(s.btn, s.secondary)}>Edit</button>
-                              <button
-                                onClick={()=>del(row)}
-                                className={cx(s.btn, s.danger)}
-                                type="button"
-                                disabled={deletingId === row.id}
-                              >
-                                {deletingId === row.id ? 'Deleting…' : 'Delete'}
-                              </button>
-                            </div>
-                          )
+                          <div className="inline-flex gap-2">
+                            <button onClick={()=>startEdit(row)} type="button" className={cx(s.btn, s.secondary)}>Edit</button>
+                            <button
+                              onClick={()=>del(row)}
+                              className={cx(s.btn, s.danger)}
+                              type="button"
+                              disabled={deletingId === row.id}
+                            >
+                              {deletingId === row.id ? 'Deleting…' : 'Delete'}
+                            </button>
+                          </div>
                         ) : (
                           <span className="text-slate-400">View only</span>
                         )}
                       </td>
                     </tr>
-                  )
-                })
+                    {expanded[row.id] && sortedLines(row).map((l, i) => (
+                      <tr key={l.id ?? i} className="bg-slate-50/60 text-slate-600">
+                        <td className={s.td} colSpan={canWrite ? 3 : 2}></td>
+                        <td className={s.td}>
+                          <span className="inline-flex items-center gap-2 pl-5">
+                            <CategoryDot color={colorOf(catalog.items, row.type, l.category)} />
+                            {l.category}
+                          </span>
+                        </td>
+                        <td className={s.td}>{l.note}</td>
+                        <td className={cx(s.td, 'text-right')}>{fmtCurrency(Number(l.amount))}</td>
+                        <td className={s.td}></td>
+                      </tr>
+                    ))}
+                  </Fragment>
+                ))
               )}
             </tbody>
           </table>
         </div>
       </div>
+
+      {/* Pagination */}
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-slate-600">
+        <span>{count} matching {count === 1 ? 'entry' : 'entries'} • Page {page} of {pages}</span>
+        <div className="inline-flex gap-2">
+          <button type="button" onClick={()=>goPage(page - 1)} disabled={page <= 1 || loading} className={cx(s.btn, s.secondary, 'disabled:opacity-50')}>
+            Previous
+          </button>
+          <button type="button" onClick={()=>goPage(page + 1)} disabled={page >= pages || loading} className={cx(s.btn, s.secondary, 'disabled:opacity-50')}>
+            Next
+          </button>
+        </div>
+      </div>
+
+      {undo && (
+        <UndoToast
+          key={undo.key}
+          message={undo.message}
+          onUndo={() => undoDelete(undo.restore)}
+          onClose={() => setUndo(null)}
+        />
+      )}
+
+      {bulk && (
+        <BulkDialog
+          kind={bulk.kind}
+          targets={bulk.targets}
+          tagNames={tagNames}
+          busy={bulkBusy}
+          error={bulkError}
+          onApply={runBulk}
+          onCancel={() => setBulk(null)}
+        />
+      )}
+
+      {editing && (
+        <EditDialog
+          key={editing.id}
+          row={editing}
+          tagNames={tagNames}
+          saving={savingEdit}
+          error={editError}
+          onSave={(patch, lines) => saveEdit(editing, patch, lines)}
+          onAttachmentsChange={(list) => setItems(prev => prev.map(r => r.id === editing.id ? { ...r, attachments: list } : r))}
+          onCancel={cancelEdit}
+        />
+      )}
     </section>
   )
 }
+
+function TotalCard({ label, value, tone }: { label: string; value: number | undefined; tone: string }) {
+  return (
+    <div className={cx(s.card, 'p-3')}>
+      <div className="text-xs text-slate-500">{label}</div>
+      <div className={cx('text-lg font-semibold', tone)}>{value === undefined ? '—' : fmtCurrency(Number(value))}</div>
+    </div>
+  )
+}
+
+function EditDialog({
+  row, tagNames, saving, error, onSave, onCancel, onAttachmentsChange,
+}: {
+  row: Tx
+  tagNames: string[]
+  saving: boolean
+  error: string | null
+  onSave: (patch: TxPatch, lines: TxSplit[]) => void
+  onCancel: () => void
+  onAttachmentsChange: (items: Attachment[]) => void
+}) {
+  const [type, setType] = useState<TxType>(row.type)
+  const [date, setDate] = useState(row.date)
+  const [amount, setAmount] = useState(String(row.amount ?? ''))
+  const [category, setCategory] = useState(row.category)
+  const [note, setNote] = useState(row.note ?? '')
+  const [tags, setTags] = useState<string[]>(row.tags ?? [])
+  const [accountId, setAccountId] = useState(row.account_id ?? '')
+  const [payeeId, setPayeeId] = useState(row.payee_id ?? '')
+  const [qty, setQty] = useState(row.quantity != null ? String(row.quantity) : '')
+  const [unitPrice, setUnitPrice] = useState<string | null>(row.unit_price != null ? String(row.unit_price) : null)
+  const [attachments, setAttachments] = useState<Attachment[]>(row.attachments ?? [])
+  const [lines, setLines] = useState<LineDraft[]>(() =>
+    sortedLines(row).map(l => ({ category: l.category, amount: String(l.amount), note: l.note ?? '' }))
+  )
+  const catalog = useCategories()
+  const accounts = useAccounts()
+  const options = activeNames(catalog.items, type)
+  const retired = (c: string) => !!c && !options.includes(c) // archived or no longer in the catalog
+  const isSplit = lines.length > 0
+  const unit = type === 'income' && !isSplit ? unitOf(catalog.items, category) : null
+  const price = unitPrice ?? (unit ? String(unit.price) : '')
+  const fromUnits = unit ? unitAmount(qty, price) : null
+  const effAmount = fromUnits !== null ? String(fromUnits) : amount
+
+  // keep the category when it also exists under the new type
+  const changeType = (t: TxType) => {
+    setType(t)
+    const next = activeNames(catalog.items, t)
+    const fix = (c: string) => (next.includes(c) ? c : next[0] ?? '')
+    setCategory(fix)
+    setLines(prev => prev.map(l => ({ ...l, category: fix(l.category) })))
+  }
+
+  // Splitting starts with the whole amount on the current category plus an empty line.
+  const startSplit = () =>
+    setLines([{ category, amount: effAmount, note: '' }, { category: options.find(c => c !== category) ?? category, amount: '', note: '' }])
+  const setLine = (i: number, patch: Partial<LineDraft>) =>
+    setLines(prev => prev.map((l, j) => (j === i ? { ...l, ...patch } : l)))
+  const removeLine = (i: number) => {
+    const next = lines.filter((_, j) => j !== i)
+    // one line left = no longer a split; fold it back into the row
+    if (next.length === 1) { setCategory(next[0].category); setLines([]) }
+    else setLines(next)
+  }
+
+  const cents = (v: string) => Math.round(Number(v || 0) * 100)
+  const remaining = (cents(effAmount) - lines.reduce((a, l) => a + cents(l.amount), 0)) / 100
+
+  const valid = Number(effAmount) > 0 && !!date && !!category && (!isSplit || remaining === 0)
+    && !(isSplit ? lines.some(l => retired(l.category)) : retired(category))
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave(
+      {
+        date, type, category, amount: Number(effAmount), note, tags, account_id: accountId || undefined,
+        payee_id: type === 'expense' ? payeeId || null : null,
+        quantity: fromUnits !== null ? Number(qty) : null,
+        unit_price: fromUnits !== null ? Number(price) : null,
+      },
+      lines.map(l => ({ category: l.category, amount: Number(l.amount), note: l.note.trim() || null })),
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 grid place-items-center bg-slate-900/40 p-4" role="dialog" aria-modal="true">
+      <form onSubmit={submit} className={cx(s.card, 'grid max-h-[90dvh] w-full max-w-lg grid-cols-1 gap-3 overflow-auto p-4 sm:grid-cols-2')}>
+        <h2 className="text-base font-semibold sm:col-span-2">Edit transaction</h2>
+        <div>
+          <label className="text-sm text-slate-600">Type</label>
+          <select value={type} onChange={(e)=>changeType(e.target.value as TxType)} className={s.select}>
+            {TX_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Date</label>
+          <input type="date" value={date} onChange={(e)=>setDate(e.target.value)} className={s.input}/>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Amount</label>
+          <input
+            type="number" step="0.01"
+            value={effAmount}
+            onChange={(e)=>setAmount(e.target.value)}
+            readOnly={fromUnits !== null}
+            className={cx(s.input, fromUnits !== null && 'bg-slate-50')}
+            autoFocus
+          />
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Category</label>
+          {isSplit ? (
+            <div className={cx(s.input, 'bg-slate-50 text-slate-500')}>Split • {lines.length} lines</div>
+          ) : (
+            <select value={category} onChange={(e)=>setCategory(e.target.value)} className={s.select}>
+              {/* a retired category is shown, not offered, so opening the dialog never silently changes it */}
+              {retired(category) && <option value={category} disabled>{category} (archived)</option>}
+              {options.map(c => <option key={c}>{c}</option>)}
+            </select>
+          )}
+          {!isSplit && retired(category) && <p className="mt-1 text-xs text-amber-700">Pick an active category to save.</p>}
+        </div>
+        {unit && (
+          <>
+            <div>
+              <label className="text-sm text-slate-600">Quantity ({unit.label}s)</label>
+              <input type="number" step="any" min={0} value={qty} onChange={(e)=>setQty(e.target.value)} className={s.input} placeholder="optional"/>
+            </div>
+            <div>
+              <label className="text-sm text-slate-600">Price per {unit.label}</label>
+              <input type="number" step="0.01" min={0} value={price} onChange={(e)=>setUnitPrice(e.target.value)} className={s.input}/>
+            </div>
+          </>
+        )}
+        <div>
+          <label className="text-sm text-slate-600">Account</label>
+          <select value={accountId} onChange={(e)=>setAccountId(e.target.value)} className={s.select}>
+            {/* an archived account stays selectable so opening the dialog never moves the row */}
+            {accountId && !activeAccounts(accounts.items).some(a => a.id === accountId) && (
+              <option value={accountId}>{accountName(accounts.items, accountId) || 'Archived account'}</option>
+            )}
+            {activeAccounts(accounts.items).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-slate-600">Note</label>
+          <input value={note} onChange={(e)=>setNote(e.target.value)} placeholder="details…" className={s.input}/>
+        </div>
+        {type === 'expense' && (
+          <div className="sm:col-span-2">
+            <label className="text-sm text-slate-600">Payee</label>
+            <PayeeSelect value={payeeId} onChange={setPayeeId} />
+          </div>
+        )}
+        <div className="sm:col-span-2">
+          <label className="text-sm text-slate-600">Tags</label>
+          <TagInput value={tags} onChange={setTags} suggestions={tagNames} />
+        </div>
+
+        {/* Split lines */}
+        <div className="sm:col-span-2">
+          {isSplit ? (
+            <div className="grid gap-2 rounded-xl border border-slate-200 p-3">
+              {lines.map((l, i) => (
+                <div key={i} className="grid grid-cols-12 gap-2">
+                  <select value={l.category} onChange={(e)=>setLine(i, { category: e.target.value })} className={cx(s.select, 'col-span-5')}>
+                    {retired(l.category) && <option value={l.category} disabled>{l.category} (archived)</option>}
+                    {options.map(c => <option key={c}>{c}</option>)}
+                  </select>
+                  <input
+                    type="number" step="0.01" value={l.amount} placeholder="0.00"
+                    onChange={(e)=>setLine(i, { amount: e.target.value })}
+                    className={cx(s.input, 'col-span-3 text-right')}
+                  />
+                  <input value={l.note} onChange={(e)=>setLine(i, { note: e.target.value })} placeholder="line note" className={cx(s.input, 'col-span-3')}/>
+                  <button type="button" onClick={()=>removeLine(i)} className="col-span-1 text-slate-400 hover:text-rose-600" aria-label="Remove line">✕</button>
+                </div>
+              ))}
+              {lines.some(l => retired(l.category)) && (
+                <p className="text-xs text-amber-700">Move archived lines to an active category to save.</p>
+              )}
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <button
+                  type="button"
+                  onClick={()=>setLines(prev => [...prev, { category: options[0] ?? '', amount: remaining > 0 ? String(remaining) : '', note: '' }])}
+                  className="font-medium text-indigo-700"
+                >
+                  + Add line
+                </button>
+                <span className={remaining === 0 ? 'text-emerald-700' : 'text-rose-700'}>
+                  {remaining === 0 ? 'Lines add up' : `Remaining ${fmtCurrency(remaining)}`}
+                </span>
+              </div>
+            </div>
+          ) : (
+            <button type="button" onClick={startSplit} disabled={!(Number(effAmount) > 0)} className="text-sm font-medium text-indigo-700 disabled:opacity-50">
+              Split across categories…
+            </button>
+          )}
+        </div>
+        <div className="sm:col-span-2">
+          <label className="text-sm text-slate-600">Receipt / invoice</label>
+          <AttachmentManager
+            parent={{ transaction_id: row.id }}
+            items={attachments}
+            onChange={(list) => { setAttachments(list); onAttachmentsChange(list) }}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2 sm:col-span-2">
+          {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+          <button type="button" onClick={onCancel} className={cx(s.btn, s.secondary, 'w-full sm:w-auto')}>Cancel</button>
+          <button type="submit" disabled={!valid || saving} className={cx(s.btn, s.primary, 'w-full sm:w-auto')}>
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+const BULK_TITLE: Record<BulkKind, string> = {
+  category: 'Recategorize',
+  type: 'Change type',
+  date: 'Change date',
+  add_tags: 'Tags',
+  remove_tags: 'Tags',
+  delete: 'Delete',
+  restore: 'Restore',
+}
+
+// Collects the new value for a bulk action and summarises what it will touch.
+function BulkDialog({
+  kind, targets, tagNames, busy, error, onApply, onCancel,
+}: {
+  kind: BulkKind
+  targets: BulkTarget[]
+  tagNames: string[]
+  busy: boolean
+  error: string | null
+  onApply: (action: BulkAction) => void
+  onCancel: () => void
+}) {
+  const catalog = useCategories()
+  const [type, setType] = useState<TxType>(targets[0]?.type ?? 'income')
+  const [category, setCategory] = useState('')
+  const [date, setDate] = useState(formatISO(new Date(), { representation: 'date' }))
+  const [tagMode, setTagMode] = useState<'add_tags' | 'remove_tags'>('add_tags')
+  const [tags, setTags] = useState<string[]>([])
+
+  // split rows keep their category lines, so type/category changes pass them by
+  const skipsSplits = kind === 'category' || kind === 'type'
+  const affected = skipsSplits ? targets.filter(t => !t.split) : targets
+  const skipped = targets.length - affected.length
+  const total = affected.reduce((a, t) => a + t.amount, 0)
+
+  // recategorize offers only categories valid for every selected type
+  const types = [...new Set(affected.map(t => t.type))]
+  const options = kind === 'type'
+    ? activeNames(catalog.items, type)
+    : types.reduce<string[]>((acc, t, i) => {
+        const names = activeNames(catalog.items, t)
+        return i === 0 ? names : acc.filter(c => names.includes(c))
+      }, [])
+  const chosen = options.includes(category) ? category : options[0] ?? ''
+  const existingTags = [...new Set(targets.flatMap(t => t.tags))].sort()
+
+  const action: BulkAction | null =
+    kind === 'category' ? (chosen ? { kind, category: chosen } : null)
+    : kind === 'type' ? (chosen ? { kind, type, category: chosen } : null)
+    : kind === 'date' ? (date ? { kind, date } : null)
+    : kind === 'add_tags' || kind === 'remove_tags' ? (tags.length ? { kind: tagMode, tags } : null)
+    : kind === 'delete' ? { kind }
+    : null
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (action && affected.length) onApply(action)
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 grid place-items-center bg-slate-900/40 p-4" role="dialog" aria-modal="true">
+      <form onSubmit={submit} className={cx(s.card, 'grid max-h-[90dvh] w-full max-w-md gap-3 overflow-auto p-4')}>
+        <h2 className="text-base font-semibold">{BULK_TITLE[kind]}</h2>
+
+        {kind === 'category' && (
+          <div>
+            <label className="text-sm text-slate-600">New category</label>
+            {options.length ? (
+              <select value={chosen} onChange={(e)=>setCategory(e.target.value)} className={s.select}>
+                {options.map(c => <option key={c}>{c}</option>)}
+              </select>
+            ) : (
+              <div className="text-sm text-rose-700">The selected types share no category. Change their type first.</div>
+            )}
+          </div>
+        )}
+
+        {kind === 'type' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm text-slate-600">New type</label>
+              <select value={type} onChange={(e)=>setType(e.target.value as TxType)} className={s.select}>
+                {TX_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-slate-600">Category</label>
+              <select value={chosen} onChange={(e)=>setCategory(e.target.value)} className={s.select}>
+                {options.map(c => <option key={c}>{c}</option>)}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {kind === 'date' && (
+          <div>
+            <label className="text-sm text-slate-600">New date</label>
+            <input type="date" value={date} onChange={(e)=>setDate(e.target.value)} className={s.input}/>
+          </div>
+        )}
+
+        {(kind === 'add_tags' || kind === 'remove_tags') && (
+          <div className="grid gap-2">
+            <div className="inline-flex gap-1 rounded-xl bg-slate-100 p-1 text-sm">
+              {(['add_tags', 'remove_tags'] as const).map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={()=>setTagMode(m)}
+                  className={cx('flex-1 rounded-lg px-3 py-1', tagMode === m ? 'bg-white font-medium shadow-sm' : 'text-slate-600')}
+                >
+                  {m === 'add_tags' ? 'Add tags' : 'Remove tags'}
+                </button>
+              ))}
+            </div>
+            {/* removing only offers tags the selection actually has */}
+            <TagInput
+              value={tags}
+              onChange={setTags}
+              suggestions={tagMode === 'add_tags' ? tagNames : existingTags}
+              placeholder="e.g., march promo"
+            />
+          </div>
+        )}
+
+        <div className="rounded-xl bg-slate-50 p-3 text-sm text-slate-700">
+          {kind === 'delete' ? 'Move' : 'Update'}{' '}
+          <span className="font-semibold">{affected.length} {affected.length === 1 ? 'entry' : 'entries'}</span>{' '}
+          totalling <span className="font-semibold">{fmtCurrency(total)}</span>
+          {kind === 'delete' && ' to the Trash'}.
+          {skipped > 0 && (
+            <div className="mt-1 text-xs text-amber-700">
+              {skipped} split {skipped === 1 ? 'entry is' : 'entries are'} skipped; edit {skipped === 1 ? 'it' : 'them'} individually.
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {error && <span className="mr-auto text-sm text-rose-700">{error}</span>}
+          <button type="button" onClick={onCancel} className={cx(s.btn, s.secondary, 'w-full sm:w-auto')}>Cancel</button>
+          <button
+            type="submit"
+            disabled={!action || !affected.length || busy}
+            className={cx(s.btn, kind === 'delete' ? s.danger : s.primary, 'w-full sm:w-auto')}
+          >
+            {busy ? 'Working…' : kind === 'delete' ? `Delete ${affected.length}` : `Apply to ${affected.length}`}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+function TagList({ tags }: { tags: string[] }) {
+  return (
+    <span className="inline-flex flex-wrap gap-1 align-middle">
+      {tags.map(t => <span key={t} className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] text-slate-600">#{t}</span>)}
+    </span>
+  )
+}
+
+const sortedLines = (row: Tx) =>
+  [...(row.transaction_splits ?? [])].sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+
+function CategoryDot({ color }: { color: string }) {
+  return <span className="inline-block h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: color }} />
+}
+
+// "12 pages × ₱5.00" for rows entered by the unit
+const unitLine = (row: Tx, items: Category[]) =>
+  `${unitCount(Number(row.quantity), unitOf(items, row.category)?.label ?? 'unit')} × ${fmtCurrency(Number(row.unit_price))}`
@@ -0,0 +1,247 @@
+// src/routes/Trash.tsx
+import { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabaseClient'
+import { fmtCurrency } from '../lib/currency'
+import { useSession } from '../lib/session'
+import { DEFAULT_RETENTION_DAYS, TRASH_TABLES, purgeTrash, restoreRecord, type TrashTable } from '../lib/trash'
+import { styles as s, cx } from '../ui'
+
+// One shape for every table so the list below stays the same.
+type TrashRow = {
+  id: string
+  date: string
+  title: string
+  detail: string
+  amount: number
+  deleted_at: string
+  deleted_by: string | null
+}
+
+// Union of the columns selected below; each table fills in its own subset.
+type RawRow = {
+  id: string
+  amount: number
+  deleted_at: string
+  date?: string
+  due_date?: string
+  type?: string
+  category?: string
+  note?: string | null
+  paid?: boolean
+  goal?: { name: string } | null
+  deleter?: { full_name: string | null } | null
+}
+
+const SELECTS: Record<TrashTable, string> = {
+  transactions: 'id,date,type,category,amount,note,deleted_at,deleter:profiles!transactions_deleted_by_fkey(full_name)',
+  bills: 'id,due_date,category,amount,paid,deleted_at,deleter:profiles!bills_deleted_by_fkey(full_name)',
+  savings_contributions: 'id,date,amount,note,deleted_at,goal:savings_goals(name),deleter:profiles!savings_contributions_deleted_by_fkey(full_name)',
+}
+
+function toRow(table: TrashTable, r: RawRow): TrashRow {
+  const base = { id: r.id, amount: Number(r.amount), deleted_at: r.deleted_at, deleted_by: r.deleter?.full_name ?? null }
+  if (table === 'bills') {
+    return { ...base, date: r.due_date ?? '', title: r.category ?? '', detail: `Bill • ${r.paid ? 'Paid' : 'Unpaid'}` }
+  }
+  if (table === 'savings_contributions') {
+    return { ...base, date: r.date ?? '', title: r.goal?.name ?? 'Savings goal', detail: r.note || 'Contribution' }
+  }
+  return { ...base, date: r.date ?? '', title: r.category ?? '', detail: [r.type, r.note].filter(Boolean).join(' • ') }
+}
+
+export default function Trash() {
+  const { profile } = useSession()
+  const isAdmin = profile?.role === 'admin'
+  const canWrite = isAdmin || profile?.role === 'editor'
+
+  const [table, setTable] = useState<TrashTable>('transactions')
+  const [rows, setRows] = useState<TrashRow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [msg, setMsg] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [days, setDays] = useState(String(DEFAULT_RETENTION_DAYS))
+  const [reloadKey, setReloadKey] = useState(0)
+  const refresh = () => setReloadKey(k => k + 1)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true); setError(null)
+    supabase
+      .from(table)
+      .select(SELECTS[table])
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .limit(500)
+      .then(({ data, error }) => {
+        if (cancelled) return
+        setLoading(false)
+        if (error) return setError(error.message)
+        setRows(((data ?? []) as unknown as RawRow[]).map(r => toRow(table, r)))
+      })
+    return () => { cancelled = true }
+  }, [table, reloadKey])
+
+  const restore = async (r: TrashRow) => {
+    setBusyId(r.id); setError(null); setMsg(null)
+    const err = await restoreRecord(table, r.id)
+    setBusyId(null)
+    if (err) return setError(err)
+    setMsg(`Restored "${r.title}".`)
+    refresh()
+  }
+
+  const destroy = async (r: TrashRow) => {
+    const ok = window.confirm(
+      `Delete "${r.title}" (${fmtCurrency(r.amount)}) forever?\n\n` +
+      `Its attachments${table === 'transactions' ? '' : ' and linked transaction'} are removed too. This cannot be undone.`
+    )
+    if (!ok) return
+    setBusyId(r.id); setError(null); setMsg(null)
+    const res = await purgeTrash(0, { table, id: r.id })
+    setBusyId(null)
+    if (res.error) return setError(res.error)
+    setMsg(`Deleted "${r.title}" permanently.`)
+    refresh()
+  }
+
+  const purgeOld = async () => {
+    const n = Number(days)
+    if (!Number.isInteger(n) || n < 0) return setError('Retention must be a whole number of days.')
+    const ok = window.confirm(
+      `Permanently delete everything that has been in the Trash for more than ${n} day${n === 1 ? '' : 's'}?\n\n` +
+      `This covers transactions, bills and savings. This cannot be undone.`
+    )
+    if (!ok) return
+    setBusyId('purge'); setError(null); setMsg(null)
+    const res = await purgeTrash(n)
+    setBusyId(null)
+    if (res.error) return setError(res.error)
+    setMsg(`Trash emptied (${res.purgedFiles} attached file${res.purgedFiles === 1 ? '' : 's'} removed).`)
+    refresh()
+  }
+
+  const deletedInfo = (r: TrashRow) =>
+    `Deleted ${new Date(r.deleted_at).toLocaleString()}${r.deleted_by ? ` by ${r.deleted_by}` : ''}`
+
+  const Actions = ({ r }: { r: TrashRow }) => (
+    <>
+      <button onClick={() => restore(r)} className={cx(s.btn, s.secondary)} disabled={!!busyId}>
+        {busyId === r.id ? 'Working…' : 'Restore'}
+      </button>
+      {isAdmin && (
+        <button onClick={() => destroy(r)} className={cx(s.btn, s.danger)} disabled={!!busyId}>
+          Delete forever
+        </button>
+      )}
+    </>
+  )
+
+  return (
+    <section className="grid gap-6">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold">Trash</h1>
+          <p className="text-sm text-slate-600">
+            Deleted items stay here until an admin empties the Trash. Restoring a bill brings back its payment expenses.
+          </p>
+        </div>
+        <div className="inline-flex flex-wrap gap-1 rounded-xl bg-slate-100 p-1">
+          {TRASH_TABLES.map(t => (
+            <button
+              key={t.table}
+              type="button"
+              onClick={() => { setTable(t.table); setMsg(null) }}
+              className={cx('rounded-lg px-3 py-1 text-sm', table === t.table ? 'bg-white font-medium shadow-sm' : 'text-slate-600')}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      {msg && <div className={cx(s.alert, 'border-emerald-200 bg-emerald-50 text-emerald-800')}>{msg}</div>}
+      {error && <div className={cx(s.alert, 'border-rose-200 bg-rose-50 text-rose-700')}>{error}</div>}
+
+      {isAdmin && (
+        <div className={cx(s.card, 'flex flex-wrap items-end gap-3 p-4')}>
+          <div>
+            <label className="text-sm text-slate-600">Keep deleted items for (days)</label>
+            <input
+              type="number"
+              min={0}
+              value={days}
+              onChange={e => setDays(e.target.value)}
+              className={cx(s.input, 'w-32')}
+            />
+          </div>
+          <button onClick={purgeOld} className={cx(s.btn, s.danger)} disabled={!!busyId}>
+            {busyId === 'purge' ? 'Emptying…' : 'Empty older items'}
+          </button>
+        </div>
+      )}
+
+      {/* ===== Mobile cards ===== */}
+      <div className="grid gap-3 md:hidden">
+        {loading ? (
+          <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>Loading…</div>
+        ) : rows.length === 0 ? (
+          <div className={cx(s.card, 'p-4 text-sm text-slate-600')}>Nothing in the Trash.</div>
+        ) : (
+          rows.map(r => (
+            <div key={r.id} className={cx(s.card, 'p-3')}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium">{r.title}</div>
+                <div className="text-sm font-semibold">{fmtCurrency(r.amount)}</div>
+              </div>
+              <div className="mt-1 text-xs text-slate-600">{r.date} • {r.detail}</div>
+              <div className="mt-1 text-xs text-slate-500">{deletedInfo(r)}</div>
+              {canWrite && <div className="mt-2 flex justify-end gap-2"><Actions r={r} /></div>}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* ===== Desktop table ===== */}
+      <div className={cx(s.card, 'hidden md:block')}>
+        <div className="overflow-auto">
+          <table className="w-full min-w-[760px] text-sm">
+            <thead>
+              <tr>
+                <th className={s.th}>Date</th>
+                <th className={s.th}>Item</th>
+                <th className={cx(s.th, 'text-right')}>Amount</th>
+                <th className={s.th}>Deleted</th>
+                {canWrite && <th className={cx(s.th, 'text-right')}>Action</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr><td className={s.td} colSpan={5}>Loading…</td></tr>
+              ) : rows.length === 0 ? (
+                <tr><td className={s.td} colSpan={5}>Nothing in the Trash.</td></tr>
+              ) : (
+                rows.map(r => (
+                  <tr key={r.id} className="border-t hover:bg-slate-50/50">
+                    <td className={cx(s.td, 'whitespace-nowrap')}>{r.date}</td>
+                    <td className={s.td}>
+                      <div className="font-medium">{r.title}</div>
+                      <div className="text-xs text-slate-500">{r.detail}</div>
+                    </td>
+                    <td className={cx(s.td, 'text-right font-semibold')}>{fmtCurrency(r.amount)}</td>
+                    <td className={cx(s.td, 'text-xs text-slate-600')}>{deletedInfo(r)}</td>
+                    {canWrite && (
+                      <td className={cx(s.td, 'whitespace-nowrap text-right space-x-2')}>
+                        <Actions r={r} />
+                      </td>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  )
+}
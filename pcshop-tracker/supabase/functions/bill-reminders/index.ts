@@ -0,0 +1,137 @@
+// supabase/functions/bill-reminders/index.ts
+// Daily digest of bills due soon or overdue, one email per opted-in admin/editor
+// (see migrations/*_bill_reminders.sql). Runs from pg_cron with the service role
+// key; an admin can also trigger it from the Bills page.
+//
+// Mail goes out over SMTP: use the same server configured for Auth emails
+// (invites). Locally, point it at the Inbucket catcher that `supabase start` runs:
+//   SMTP_HOST=host.docker.internal SMTP_PORT=54325 SMTP_FROM=bills@example.test
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { serve } from "jsr:@std/http@0.224.0/server"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts"
+
+type Due = {
+  user_id: string
+  email: string
+  full_name: string | null
+  bill_id: string
+  category: string
+  due_date: string
+  amount: number
+  remaining: number
+  days: number
+  kind: string
+}
+
+const headers = {
+  "Content-Type": "application/json",
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+}
+
+const CURRENCY = Deno.env.get("CURRENCY") ?? "PHP"
+const money = (n: number) => new Intl.NumberFormat("en", { style: "currency", currency: CURRENCY }).format(Number(n || 0))
+
+const when = (days: number) =>
+  days < 0 ? `${-days} day${days === -1 ? "" : "s"} overdue` : days === 0 ? "due today" : `due in ${days} day${days === 1 ? "" : "s"}`
+
+function digest(rows: Due[], appUrl: string | null) {
+  const late = rows.filter(r => r.days < 0)
+  const soon = rows.filter(r => r.days >= 0)
+  const total = rows.reduce((a, r) => a + Number(r.remaining), 0)
+  const line = (r: Due) => `- ${r.category}: ${money(r.remaining)} ${when(r.days)} (${r.due_date})`
+  const parts = [`Hi ${rows[0].full_name || "there"},`, ""]
+  if (late.length) parts.push("Overdue:", ...late.map(line), "")
+  if (soon.length) parts.push("Coming up:", ...soon.map(line), "")
+  parts.push(`Total still to pay: ${money(total)}`)
+  if (appUrl) parts.push("", `Open bills: ${appUrl.replace(/\/$/, "")}/bills`)
+  parts.push("", "You get this because bill reminders are on for your account. Change them on the Bills page.")
+
+  const subject = late.length
+    ? `${late.length} overdue bill${late.length === 1 ? "" : "s"}${soon.length ? ` and ${soon.length} coming up` : ""}`
+    : `${soon.length} bill${soon.length === 1 ? "" : "s"} due soon`
+  return { subject: `Bills: ${subject}`, content: parts.join("\n") }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers })
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers })
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!
+    const SERVICE_ROLE = Deno.env.get("SERVICE_ROLE_KEY")!
+    const SMTP_HOST = Deno.env.get("SMTP_HOST")
+    const SMTP_PORT = Number(Deno.env.get("SMTP_PORT") ?? 587)
+    const SMTP_USER = Deno.env.get("SMTP_USER")
+    const SMTP_PASS = Deno.env.get("SMTP_PASS")
+    const SMTP_FROM = Deno.env.get("SMTP_FROM") ?? SMTP_USER
+    const APP_URL = Deno.env.get("APP_URL") ?? null
+
+    if (!SUPABASE_URL || !SERVICE_ROLE || !SMTP_HOST || !SMTP_FROM) {
+      return new Response(JSON.stringify({ error: "Server misconfigured" }), { status: 500, headers })
+    }
+
+    // The cron job calls with the service role key; otherwise an ADMIN only
+    const authHeader = req.headers.get("Authorization") ?? ""
+    const jwt = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : ""
+    if (!jwt) return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers })
+
+    const admin = createClient(SUPABASE_URL, SERVICE_ROLE, { auth: { persistSession: false, autoRefreshToken: false } })
+    if (jwt !== SERVICE_ROLE) {
+      const { data: me } = await admin.auth.getUser(jwt)
+      const callerId = me?.user?.id
+      if (!callerId) return new Response(JSON.stringify({ error: "Invalid token" }), { status: 401, headers })
+      const { data: prof } = await admin.from("profiles").select("role").eq("id", callerId).maybeSingle()
+      if (!prof || prof.role !== "admin") {
+        return new Response(JSON.stringify({ error: "Forbidden (admin only)" }), { status: 403, headers })
+      }
+    }
+
+    const { data, error } = await admin.rpc("bill_reminders_due")
+    if (error) throw error
+    const rows = (data ?? []) as Due[]
+
+    const byUser = new Map<string, Due[]>()
+    for (const r of rows) byUser.set(r.user_id, [...(byUser.get(r.user_id) ?? []), r])
+
+    const smtp = new SMTPClient({
+      connection: {
+        hostname: SMTP_HOST,
+        port: SMTP_PORT,
+        tls: SMTP_PORT === 465,
+        auth: SMTP_USER && SMTP_PASS ? { username: SMTP_USER, password: SMTP_PASS } : undefined,
+      },
+    })
+
+    // Record each user's reminders right after their email goes out, so a
+    // failure part-way only resends to the users that didn't get one.
+    let sent = 0
+    const failed: string[] = []
+    try {
+      for (const [userId, list] of byUser) {
+        const { subject, content } = digest(list, APP_URL)
+        try {
+          await smtp.send({ from: SMTP_FROM, to: list[0].email, subject, content })
+        } catch (e) {
+          failed.push(`${list[0].email}: ${e?.message || "send failed"}`)
+          continue
+        }
+        sent++
+        const { error: logErr } = await admin
+          .from("bill_reminders_sent")
+          .upsert(list.map(r => ({ bill_id: r.bill_id, user_id: userId, kind: r.kind })), { ignoreDuplicates: true })
+        if (logErr) failed.push(`${list[0].email}: sent but not recorded (${logErr.message})`)
+      }
+    } finally {
+      await smtp.close()
+    }
+
+    return new Response(JSON.stringify({ ok: failed.length === 0, emails: sent, reminders: rows.length, failed }), { headers })
+  } catch (e) {
+    return new Response(JSON.stringify({ error: e?.message || "Reminders failed" }), { status: 400, headers })
+  }
+})
@@ -0,0 +1,112 @@
+// supabase/functions/bills-ics/index.ts
+// Subscribable iCalendar feed of bills: GET ?token=<calendar_feeds.token>.
+// Phone calendars can't log in, so the per-user token stands in for a JWT.
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { serve } from "jsr:@std/http@0.224.0/server"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+type Entry = {
+  bill_id: string | null
+  series_id: string | null
+  due_date: string
+  category: string
+  amount: number
+  remaining: number
+  paid: boolean
+  projected: boolean
+}
+
+const CURRENCY = Deno.env.get("CURRENCY") ?? "PHP"
+const money = (n: number) => new Intl.NumberFormat("en", { style: "currency", currency: CURRENCY }).format(Number(n || 0))
+
+// Same events as buildIcs() in src/lib/billCalendar.ts
+const escapeText = (s: string) => s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n")
+
+function fold(line: string) {
+  const enc = new TextEncoder()
+  const out: string[] = []
+  let rest = line
+  while (enc.encode(rest).length > 75) {
+    let n = 75
+    while (enc.encode(rest.slice(0, n)).length > 75) n--
+    out.push(rest.slice(0, n))
+    rest = " " + rest.slice(n)
+  }
+  out.push(rest)
+  return out.join("\r\n")
+}
+
+const isoDay = (d: Date) => d.toISOString().slice(0, 10)
+const icsDate = (d: string) => d.replace(/-/g, "")
+const nextDay = (d: string) => {
+  const x = new Date(`${d}T00:00:00Z`)
+  x.setUTCDate(x.getUTCDate() + 1)
+  return icsDate(isoDay(x))
+}
+
+function buildIcs(entries: Entry[]) {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z")
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//PCShop Finance Tracker//Bills//EN",
+    "CALSCALE:GREGORIAN",
+    "X-WR-CALNAME:Bills",
+    "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+    "X-PUBLISHED-TTL:PT6H",
+  ]
+  for (const e of entries) {
+    const key = e.bill_id ?? `${e.series_id}-${e.due_date}`
+    const state = e.paid ? " (paid)" : e.projected ? " (projected)" : ""
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${key}@pcshop-tracker`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(e.due_date)}`,
+      `DTEND;VALUE=DATE:${nextDay(e.due_date)}`,
+      `SUMMARY:${escapeText(`${e.category} ${money(e.paid ? e.amount : e.remaining)}${state}`)}`,
+      `DESCRIPTION:${escapeText(`Bill ${money(e.amount)} due ${e.due_date}`)}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    )
+  }
+  lines.push("END:VCALENDAR")
+  return lines.map(fold).join("\r\n") + "\r\n"
+}
+
+const text = (body: string, status: number) => new Response(body, { status, headers: { "Content-Type": "text/plain" } })
+
+serve(async (req) => {
+  if (req.method !== "GET") return text("Method not allowed", 405)
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!
+    const SERVICE_ROLE = Deno.env.get("SERVICE_ROLE_KEY")!
+    if (!SUPABASE_URL || !SERVICE_ROLE) return text("Server misconfigured", 500)
+
+    const token = new URL(req.url).searchParams.get("token") ?? ""
+    if (!token) return text("Unauthorized", 401)
+
+    const admin = createClient(SUPABASE_URL, SERVICE_ROLE, { auth: { persistSession: false, autoRefreshToken: false } })
+    const { data: feed } = await admin.from("calendar_feeds").select("user_id").eq("token", token).maybeSingle()
+    if (!feed) return text("Unknown or revoked link", 404)
+
+    // two months back (recently paid) to a year ahead
+    const now = new Date()
+    const from = new Date(now.getTime() - 60 * 86_400_000)
+    const to = new Date(now.getTime() + 365 * 86_400_000)
+    const { data, error } = await admin.rpc("bill_calendar", { from_date: isoDay(from), to_date: isoDay(to) })
+    if (error) throw error
+
+    const entries = ((data ?? []) as Entry[]).map(r => ({ ...r, amount: Number(r.amount), remaining: Number(r.remaining) }))
+    return new Response(buildIcs(entries), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="bills.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    })
+  } catch (e) {
+    return text(e?.message || "Feed failed", 500)
+  }
+})
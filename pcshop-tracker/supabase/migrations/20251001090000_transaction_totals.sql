@@ -0,0 +1,36 @@
+-- Totals for a filtered slice of the ledger (Transactions page).
+-- Filters mirror applyTxFilters() in src/lib/txFilters.ts; null = no filter.
+-- security invoker so the caller's RLS policies still apply.
+create or replace function public.transaction_totals(
+  from_date  date    default null,
+  to_date    date    default null,
+  tx_type    text    default null,
+  categories text[]  default null,
+  min_amount numeric default null,
+  max_amount numeric default null,
+  note_q     text    default null
+)
+returns table (income numeric, expense numeric, savings numeric, net numeric, row_count bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    coalesce(sum(t.amount) filter (where t.type::text = 'income'), 0)  as income,
+    coalesce(sum(t.amount) filter (where t.type::text = 'expense'), 0) as expense,
+    coalesce(sum(t.amount) filter (where t.type::text = 'savings'), 0) as savings,
+    coalesce(sum(t.amount) filter (where t.type::text = 'income'), 0)
+      - coalesce(sum(t.amount) filter (where t.type::text = 'expense'), 0) as net,
+    count(*) as row_count
+  from public.transactions t
+  where (from_date is null or t.date >= from_date)
+    and (to_date is null or t.date <= to_date)
+    and (tx_type is null or t.type::text = tx_type)
+    and (categories is null or t.category = any (categories))
+    and (min_amount is null or t.amount >= min_amount)
+    and (max_amount is null or t.amount <= max_amount)
+    and (note_q is null or t.note ilike note_q)
+$$;
+
+grant execute on function public.transaction_totals(date, date, text, text[], numeric, numeric, text) to authenticated;
@@ -0,0 +1,154 @@
+-- Managed category catalog (replaces the CATS / BILL_CATS constants in the app).
+-- transactions.category and bills.category keep storing the category *name*;
+-- rename_category() and merge_category() rewrite those names in one transaction.
+
+create table if not exists public.categories (
+  id          uuid primary key default gen_random_uuid(),
+  kind        text not null check (kind in ('income', 'expense', 'savings', 'bill')),
+  name        text not null check (length(trim(name)) > 0),
+  color       text not null default '#64748b',
+  sort_order  integer not null default 0,
+  archived    boolean not null default false,
+  created_at  timestamptz not null default now(),
+  unique (kind, name)
+);
+
+alter table public.categories enable row level security;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+$$;
+
+drop policy if exists "categories read" on public.categories;
+create policy "categories read" on public.categories
+  for select to authenticated using (true);
+
+drop policy if exists "categories admin write" on public.categories;
+create policy "categories admin write" on public.categories
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- Seed with the categories that used to be compiled into the bundle.
+insert into public.categories (kind, name, color, sort_order) values
+  ('income',  'PisoNet',          '#10b981', 1),
+  ('income',  'Water Refilling',  '#0ea5e9', 2),
+  ('income',  'Printing',         '#8b5cf6', 3),
+  ('income',  'Other',            '#64748b', 4),
+  ('expense', 'Salaries',         '#f43f5e', 1),
+  ('expense', 'Foods',            '#f97316', 2),
+  ('expense', 'Business Permit',  '#eab308', 3),
+  ('expense', 'Other',            '#64748b', 4),
+  ('savings', 'Emergency Fund',   '#6366f1', 1),
+  ('savings', 'Store Upgrade',    '#14b8a6', 2),
+  ('savings', 'Marketing Fund',   '#ec4899', 3),
+  ('savings', 'New Tools',        '#84cc16', 4),
+  ('savings', 'Other',            '#64748b', 5),
+  ('bill',    'Electricity',      '#f59e0b', 1),
+  ('bill',    'Internet',         '#3b82f6', 2),
+  ('bill',    'Water',            '#06b6d4', 3),
+  ('bill',    'Rent',             '#a855f7', 4),
+  ('bill',    'Domain/Hosting',   '#22c55e', 5),
+  ('bill',    'SaaS',             '#0ea5e9', 6),
+  ('bill',    'Loan',             '#ef4444', 7),
+  ('bill',    'Other',            '#64748b', 8)
+on conflict (kind, name) do nothing;
+
+-- Rows a category name lives on. Bill categories also label the expense
+-- booked when a bill is paid, so they cover expense transactions too.
+create or replace function public.repoint_category(p_kind text, p_from text, p_to text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_kind = 'bill' then
+    update public.bills set category = p_to where category = p_from;
+    -- bill-linked expenses, plus manual ones when the name isn't also an expense category
+    update public.transactions set category = p_to
+      where category = p_from and type::text = 'expense'
+        and (id in (select transaction_id from public.bills where transaction_id is not null)
+             or not exists (select 1 from public.categories where kind = 'expense' and name = p_from));
+  elsif p_kind = 'expense' then
+    update public.transactions set category = p_to
+      where category = p_from and type::text = 'expense'
+        and id not in (select transaction_id from public.bills where transaction_id is not null);
+  else
+    update public.transactions set category = p_to where category = p_from and type::text = p_kind;
+  end if;
+end;
+$$;
+
+revoke execute on function public.repoint_category(text, text, text) from public, anon, authenticated;
+
+create or replace function public.rename_category(cat_id uuid, new_name text)
+returns public.categories
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cat public.categories;
+begin
+  if not public.is_admin() then
+    raise exception 'Admins only';
+  end if;
+  new_name := trim(new_name);
+  if new_name = '' then
+    raise exception 'Name is required';
+  end if;
+
+  select * into cat from public.categories where id = cat_id for update;
+  if not found then
+    raise exception 'Category not found';
+  end if;
+  if cat.name = new_name then
+    return cat;
+  end if;
+
+  perform public.repoint_category(cat.kind, cat.name, new_name);
+  update public.categories set name = new_name where id = cat_id returning * into cat;
+  return cat;
+end;
+$$;
+
+-- Move every row from one category onto another of the same kind, then drop the source.
+create or replace function public.merge_category(source_id uuid, target_id uuid)
+returns public.categories
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  src public.categories;
+  dst public.categories;
+begin
+  if not public.is_admin() then
+    raise exception 'Admins only';
+  end if;
+  if source_id = target_id then
+    raise exception 'Pick two different categories';
+  end if;
+
+  select * into src from public.categories where id = source_id for update;
+  select * into dst from public.categories where id = target_id for update;
+  if src.id is null or dst.id is null then
+    raise exception 'Category not found';
+  end if;
+  if src.kind <> dst.kind then
+    raise exception 'Categories must be of the same type';
+  end if;
+
+  perform public.repoint_category(src.kind, src.name, dst.name);
+  delete from public.categories where id = source_id;
+  return dst;
+end;
+$$;
+
+grant execute on function public.rename_category(uuid, text) to authenticated;
+grant execute on function public.merge_category(uuid, uuid) to authenticated;
@@ -0,0 +1,157 @@
+-- Split transactions: one ledger row, several category lines that sum to its amount.
+-- The parent keeps the total and the category of its largest line.
+
+create table if not exists public.transaction_splits (
+  id              uuid primary key default gen_random_uuid(),
+  transaction_id  uuid not null references public.transactions (id) on delete cascade,
+  position        integer not null default 0,
+  category        text not null,
+  amount          numeric(12, 2) not null check (amount > 0),
+  note            text
+);
+
+create index if not exists transaction_splits_tx_idx on public.transaction_splits (transaction_id);
+
+alter table public.transaction_splits enable row level security;
+
+drop policy if exists "splits read" on public.transaction_splits;
+create policy "splits read" on public.transaction_splits
+  for select to authenticated using (true);
+
+drop policy if exists "splits write" on public.transaction_splits;
+create policy "splits write" on public.transaction_splits
+  for all to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor')));
+
+-- One row per category line: unsplit transactions as-is, split ones per split.
+create or replace view public.transaction_lines
+with (security_invoker = true) as
+  select t.id as transaction_id, t.date, t.type, t.category, t.amount, t.note, false as is_split
+  from public.transactions t
+  where not exists (select 1 from public.transaction_splits s where s.transaction_id = t.id)
+  union all
+  select t.id, t.date, t.type, s.category, s.amount, coalesce(s.note, t.note), true
+  from public.transactions t
+  join public.transaction_splits s on s.transaction_id = t.id;
+
+grant select on public.transaction_lines to authenticated;
+
+-- Replace a transaction's lines in one go. An empty array removes the split.
+-- lines: [{ "category": text, "amount": number, "note": text|null }, ...]
+create or replace function public.set_transaction_splits(tx_id uuid, lines jsonb)
+returns public.transactions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  tx public.transactions;
+  n  integer := coalesce(jsonb_array_length(lines), 0);
+begin
+  select * into tx from public.transactions where id = tx_id for update;
+  if not found then
+    raise exception 'Transaction not found';
+  end if;
+
+  delete from public.transaction_splits where transaction_id = tx_id;
+  if n = 0 then
+    return tx;
+  end if;
+  if n = 1 then
+    raise exception 'A split needs at least two lines';
+  end if;
+
+  insert into public.transaction_splits (transaction_id, position, category, amount, note)
+  select tx_id, (l.ord - 1)::int, l.value ->> 'category', (l.value ->> 'amount')::numeric, nullif(l.value ->> 'note', '')
+  from jsonb_array_elements(lines) with ordinality as l (value, ord);
+
+  update public.transactions t
+  set amount = x.total, category = x.top_category
+  from (
+    select sum(amount) as total,
+           (array_agg(category order by amount desc, position))[1] as top_category
+    from public.transaction_splits where transaction_id = tx_id
+  ) x
+  where t.id = tx_id
+  returning t.* into tx;
+
+  return tx;
+end;
+$$;
+
+grant execute on function public.set_transaction_splits(uuid, jsonb) to authenticated;
+
+-- Monthly income/expenses, counted per line.
+drop function if exists public.monthly_profit(date, date);
+create function public.monthly_profit(from_date date, to_date date)
+returns table (month date, income numeric, expenses numeric, profit numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    date_trunc('month', l.date)::date as month,
+    coalesce(sum(l.amount) filter (where l.type::text = 'income'), 0) as income,
+    coalesce(sum(l.amount) filter (where l.type::text = 'expense'), 0) as expenses,
+    coalesce(sum(l.amount) filter (where l.type::text = 'income'), 0)
+      - coalesce(sum(l.amount) filter (where l.type::text = 'expense'), 0) as profit
+  from public.transaction_lines l
+  where l.date between from_date and to_date
+  group by 1
+  order by 1
+$$;
+
+grant execute on function public.monthly_profit(date, date) to authenticated;
+
+-- Per-category totals for Reports, counted per line.
+create or replace function public.category_breakdown(from_date date, to_date date)
+returns table (type text, category text, total numeric, line_count bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select l.type::text, l.category, sum(l.amount), count(*)
+  from public.transaction_lines l
+  where l.date between from_date and to_date
+  group by 1, 2
+  order by 1, 3 desc
+$$;
+
+grant execute on function public.category_breakdown(date, date) to authenticated;
+
+-- Ledger totals now sum lines, so a category filter counts only matching split lines.
+create or replace function public.transaction_totals(
+  from_date  date    default null,
+  to_date    date    default null,
+  tx_type    text    default null,
+  categories text[]  default null,
+  min_amount numeric default null,
+  max_amount numeric default null,
+  note_q     text    default null
+)
+returns table (income numeric, expense numeric, savings numeric, net numeric, row_count bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    coalesce(sum(l.amount) filter (where l.type::text = 'income'), 0)  as income,
+    coalesce(sum(l.amount) filter (where l.type::text = 'expense'), 0) as expense,
+    coalesce(sum(l.amount) filter (where l.type::text = 'savings'), 0) as savings,
+    coalesce(sum(l.amount) filter (where l.type::text = 'income'), 0)
+      - coalesce(sum(l.amount) filter (where l.type::text = 'expense'), 0) as net,
+    count(distinct l.transaction_id) as row_count
+  from public.transaction_lines l
+  join public.transactions t on t.id = l.transaction_id
+  where (from_date is null or l.date >= from_date)
+    and (to_date is null or l.date <= to_date)
+    and (tx_type is null or l.type::text = tx_type)
+    and (categories is null or l.category = any (categories))
+    and (min_amount is null or t.amount >= min_amount)
+    and (max_amount is null or t.amount <= max_amount)
+    and (note_q is null or t.note ilike note_q)
+$$;
@@ -0,0 +1,56 @@
+-- Receipt / invoice attachments for transactions and bills.
+-- Files live in the private "attachments" storage bucket; this table holds
+-- one row per file and ties it to exactly one parent record.
+
+create or replace function public.can_write()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'editor'))
+$$;
+
+create table if not exists public.attachments (
+  id              uuid primary key default gen_random_uuid(),
+  transaction_id  uuid references public.transactions (id) on delete cascade,
+  bill_id         uuid references public.bills (id) on delete cascade,
+  path            text not null unique,          -- object path inside the bucket
+  file_name       text not null,
+  mime_type       text,
+  size            bigint,
+  created_by      uuid default auth.uid(),
+  created_at      timestamptz not null default now(),
+  check (num_nonnulls(transaction_id, bill_id) = 1)
+);
+
+create index if not exists attachments_tx_idx on public.attachments (transaction_id);
+create index if not exists attachments_bill_idx on public.attachments (bill_id);
+
+alter table public.attachments enable row level security;
+
+drop policy if exists "attachments read" on public.attachments;
+create policy "attachments read" on public.attachments
+  for select to authenticated using (true);
+
+drop policy if exists "attachments write" on public.attachments;
+create policy "attachments write" on public.attachments
+  for all to authenticated using (public.can_write()) with check (public.can_write());
+
+-- Bucket + object policies (local dev gets the same bucket from supabase/config.toml).
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('attachments', 'attachments', false, 10485760, array['image/*', 'application/pdf'])
+on conflict (id) do nothing;
+
+drop policy if exists "attachments objects read" on storage.objects;
+create policy "attachments objects read" on storage.objects
+  for select to authenticated using (bucket_id = 'attachments');
+
+drop policy if exists "attachments objects insert" on storage.objects;
+create policy "attachments objects insert" on storage.objects
+  for insert to authenticated with check (bucket_id = 'attachments' and public.can_write());
+
+drop policy if exists "attachments objects delete" on storage.objects;
+create policy "attachments objects delete" on storage.objects
+  for delete to authenticated using (bucket_id = 'attachments' and public.can_write());
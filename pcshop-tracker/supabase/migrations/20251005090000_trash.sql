@@ -0,0 +1,178 @@
+-- Soft delete ("Trash") for transactions, bills and savings contributions.
+-- A trashed row keeps deleted_at/deleted_by; rows trashed together (a bill and
+-- its expense) share the same deleted_at so they can be restored together.
+
+alter table public.transactions
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.profiles (id) on delete set null;
+
+alter table public.bills
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.profiles (id) on delete set null;
+
+alter table public.savings_contributions
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.profiles (id) on delete set null,
+  -- the savings transaction booked with the contribution (was unlinked before)
+  add column if not exists transaction_id uuid references public.transactions (id) on delete set null;
+
+create index if not exists transactions_deleted_idx on public.transactions (deleted_at) where deleted_at is not null;
+create index if not exists bills_deleted_idx on public.bills (deleted_at) where deleted_at is not null;
+create index if not exists savings_contributions_deleted_idx on public.savings_contributions (deleted_at) where deleted_at is not null;
+
+-- Reports and ledger totals read through this view, so trashed rows drop out everywhere.
+create or replace view public.transaction_lines
+with (security_invoker = true) as
+  select t.id as transaction_id, t.date, t.type, t.category, t.amount, t.note, false as is_split
+  from public.transactions t
+  where t.deleted_at is null
+    and not exists (select 1 from public.transaction_splits s where s.transaction_id = t.id)
+  union all
+  select t.id, t.date, t.type, s.category, s.amount, coalesce(s.note, t.note), true
+  from public.transactions t
+  join public.transaction_splits s on s.transaction_id = t.id
+  where t.deleted_at is null;
+
+create or replace function public.check_trash_table(tbl text)
+returns void
+language plpgsql
+immutable
+as $$
+begin
+  if tbl not in ('transactions', 'bills', 'savings_contributions') then
+    raise exception 'Unsupported table: %', tbl;
+  end if;
+end;
+$$;
+
+-- Move a row to the trash. Bills and contributions take their linked transaction along.
+create or replace function public.trash_record(tbl text, rec_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ts     timestamptz := now();
+  linked uuid;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to delete records';
+  end if;
+  perform public.check_trash_table(tbl);
+
+  execute format('update public.%I set deleted_at = $1, deleted_by = auth.uid() where id = $2 and deleted_at is null', tbl)
+    using ts, rec_id;
+  if not found then
+    raise exception 'Record not found or already in the trash';
+  end if;
+
+  if tbl in ('bills', 'savings_contributions') then
+    execute format('select transaction_id from public.%I where id = $1', tbl) into linked using rec_id;
+    if linked is not null then
+      update public.transactions set deleted_at = ts, deleted_by = auth.uid()
+        where id = linked and deleted_at is null;
+    end if;
+  end if;
+
+  return ts;
+end;
+$$;
+
+-- Bring a row back. Linked transactions trashed in the same step come back too;
+-- a paid bill whose expense is gone gets a fresh expense re-linked to it.
+create or replace function public.restore_record(tbl text, rec_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ts     timestamptz;
+  linked uuid;
+  b      public.bills;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to restore records';
+  end if;
+  perform public.check_trash_table(tbl);
+
+  execute format('select deleted_at from public.%I where id = $1', tbl) into ts using rec_id;
+  if ts is null then
+    raise exception 'Record is not in the trash';
+  end if;
+
+  execute format('update public.%I set deleted_at = null, deleted_by = null where id = $1', tbl) using rec_id;
+
+  if tbl in ('bills', 'savings_contributions') then
+    execute format('select transaction_id from public.%I where id = $1', tbl) into linked using rec_id;
+    if linked is not null then
+      update public.transactions set deleted_at = null, deleted_by = null
+        where id = linked and deleted_at = ts;
+    end if;
+  end if;
+
+  if tbl = 'bills' then
+    select * into b from public.bills where id = rec_id;
+    if b.paid and (b.transaction_id is null
+                   or not exists (select 1 from public.transactions where id = b.transaction_id and deleted_at is null)) then
+      insert into public.transactions (date, type, category, amount, note)
+      values (coalesce(b.paid_at::date, current_date), 'expense', b.category, b.amount, 'Bill paid: ' || b.category)
+      returning id into linked;
+      update public.bills set transaction_id = linked where id = rec_id;
+    end if;
+  end if;
+end;
+$$;
+
+-- Permanently delete trashed rows. Returns the storage paths of their
+-- attachments so the client can remove the files from the bucket.
+create or replace function public.purge_trash(retention_days integer default 30, only_table text default null, only_id uuid default null)
+returns setof text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cutoff timestamptz := now() - make_interval(days => greatest(retention_days, 0));
+  tx_ids   uuid[];
+  bill_ids uuid[];
+  sc_ids   uuid[];
+begin
+  if not public.is_admin() then
+    raise exception 'Admins only';
+  end if;
+  if only_table is not null then
+    perform public.check_trash_table(only_table);
+  end if;
+
+  select coalesce(array_agg(id), '{}') into bill_ids from public.bills
+    where deleted_at is not null
+      and (only_table is null and deleted_at < cutoff or only_table = 'bills' and id = only_id);
+  select coalesce(array_agg(id), '{}') into sc_ids from public.savings_contributions
+    where deleted_at is not null
+      and (only_table is null and deleted_at < cutoff or only_table = 'savings_contributions' and id = only_id);
+  -- linked transactions trashed together with a purged bill/contribution go too
+  select coalesce(array_agg(id), '{}') into tx_ids from public.transactions t
+    where t.deleted_at is not null
+      and (only_table is null and t.deleted_at < cutoff
+           or only_table = 'transactions' and t.id = only_id
+           or t.id in (select transaction_id from public.bills where id = any (bill_ids) and deleted_at = t.deleted_at)
+           or t.id in (select transaction_id from public.savings_contributions where id = any (sc_ids) and deleted_at = t.deleted_at));
+
+  return query
+    select a.path from public.attachments a
+    where a.transaction_id = any (tx_ids) or a.bill_id = any (bill_ids);
+
+  delete from public.savings_contributions where id = any (sc_ids);
+  delete from public.bills where id = any (bill_ids);
+  -- live rows must not keep pointing at purged transactions
+  update public.bills set transaction_id = null where transaction_id = any (tx_ids);
+  update public.savings_contributions set transaction_id = null where transaction_id = any (tx_ids);
+  delete from public.transactions where id = any (tx_ids);
+end;
+$$;
+
+grant execute on function public.trash_record(text, uuid) to authenticated;
+grant execute on function public.restore_record(text, uuid) to authenticated;
+grant execute on function public.purge_trash(integer, text, uuid) to authenticated;
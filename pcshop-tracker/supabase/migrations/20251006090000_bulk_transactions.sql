@@ -0,0 +1,61 @@
+-- Bulk edits for the transaction ledger, plus free-form tags on transactions.
+
+alter table public.transactions
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists transactions_tags_idx on public.transactions using gin (tags);
+
+-- Apply one change to many rows in a single statement; returns how many changed.
+-- Split rows keep their type/category (their lines carry the categories), so
+-- the 'category' and 'type' actions skip them.
+create or replace function public.bulk_update_transactions(ids uuid[], action text, payload jsonb default '{}'::jsonb)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  n        integer;
+  new_type public.transactions.type%type;
+  tag_list text[] := coalesce(array(select jsonb_array_elements_text(payload -> 'tags')), '{}');
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to edit transactions';
+  end if;
+
+  if action = 'category' then
+    update public.transactions t set category = payload ->> 'category'
+      where t.id = any (ids) and t.deleted_at is null
+        and not exists (select 1 from public.transaction_splits s where s.transaction_id = t.id);
+  elsif action = 'type' then
+    new_type := payload ->> 'type';
+    update public.transactions t set type = new_type, category = payload ->> 'category'
+      where t.id = any (ids) and t.deleted_at is null
+        and not exists (select 1 from public.transaction_splits s where s.transaction_id = t.id);
+  elsif action = 'date' then
+    update public.transactions set date = (payload ->> 'date')::date
+      where id = any (ids) and deleted_at is null;
+  elsif action = 'add_tags' then
+    update public.transactions t
+      set tags = array(select distinct x from unnest(t.tags || tag_list) x order by x)
+      where t.id = any (ids) and t.deleted_at is null and not (t.tags @> tag_list);
+  elsif action = 'remove_tags' then
+    update public.transactions t
+      set tags = array(select x from unnest(t.tags) x where x <> all (tag_list) order by x)
+      where t.id = any (ids) and t.deleted_at is null and t.tags && tag_list;
+  elsif action = 'delete' then
+    update public.transactions set deleted_at = now(), deleted_by = auth.uid()
+      where id = any (ids) and deleted_at is null;
+  elsif action = 'restore' then
+    update public.transactions set deleted_at = null, deleted_by = null
+      where id = any (ids) and deleted_at is not null;
+  else
+    raise exception 'Unknown bulk action: %', action;
+  end if;
+
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+grant execute on function public.bulk_update_transactions(uuid[], text, jsonb) to authenticated;
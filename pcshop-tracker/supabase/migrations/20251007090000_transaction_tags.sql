@@ -0,0 +1,79 @@
+-- Tag filter and per-tag reporting (the tags column came with bulk edits).
+
+-- Tag names in use, most used first, for autocomplete.
+create or replace function public.transaction_tag_names()
+returns table (tag text, uses bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select x.tag, count(*) as uses
+  from public.transactions t, unnest(t.tags) as x(tag)
+  where t.deleted_at is null
+  group by x.tag
+  order by 2 desc, 1
+$$;
+
+-- Whole-transaction amounts per tag; a row with two tags counts under both.
+create or replace function public.tag_breakdown(from_date date, to_date date)
+returns table (tag text, income numeric, expense numeric, savings numeric, tx_count bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    x.tag,
+    coalesce(sum(t.amount) filter (where t.type::text = 'income'), 0),
+    coalesce(sum(t.amount) filter (where t.type::text = 'expense'), 0),
+    coalesce(sum(t.amount) filter (where t.type::text = 'savings'), 0),
+    count(*)
+  from public.transactions t, unnest(t.tags) as x(tag)
+  where t.deleted_at is null
+    and t.date between from_date and to_date
+  group by x.tag
+  order by sum(t.amount) desc, 1
+$$;
+
+-- Ledger totals gain a tag filter (rows must carry every listed tag).
+drop function if exists public.transaction_totals(date, date, text, text[], numeric, numeric, text);
+
+create or replace function public.transaction_totals(
+  from_date  date    default null,
+  to_date    date    default null,
+  tx_type    text    default null,
+  categories text[]  default null,
+  min_amount numeric default null,
+  max_amount numeric default null,
+  note_q     text    default null,
+  tag_list   text[]  default null
+)
+returns table (income numeric, expense numeric, savings numeric, net numeric, row_count bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    coalesce(sum(l.amount) filter (where l.type::text = 'income'), 0)  as income,
+    coalesce(sum(l.amount) filter (where l.type::text = 'expense'), 0) as expense,
+    coalesce(sum(l.amount) filter (where l.type::text = 'savings'), 0) as savings,
+    coalesce(sum(l.amount) filter (where l.type::text = 'income'), 0)
+      - coalesce(sum(l.amount) filter (where l.type::text = 'expense'), 0) as net,
+    count(distinct l.transaction_id) as row_count
+  from public.transaction_lines l
+  join public.transactions t on t.id = l.transaction_id
+  where (from_date is null or l.date >= from_date)
+    and (to_date is null or l.date <= to_date)
+    and (tx_type is null or l.type::text = tx_type)
+    and (categories is null or l.category = any (categories))
+    and (min_amount is null or t.amount >= min_amount)
+    and (max_amount is null or t.amount <= max_amount)
+    and (note_q is null or t.note ilike note_q)
+    and (tag_list is null or t.tags @> tag_list)
+$$;
+
+grant execute on function public.transaction_tag_names() to authenticated;
+grant execute on function public.tag_breakdown(date, date) to authenticated;
+grant execute on function public.transaction_totals(date, date, text, text[], numeric, numeric, text, text[]) to authenticated;
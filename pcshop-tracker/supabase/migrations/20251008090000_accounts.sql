@@ -0,0 +1,147 @@
+-- Money accounts (cash drawer, GCash, bank). Every transaction sits in one
+-- account; transfers move money between accounts without counting as
+-- income or expense.
+
+create table if not exists public.accounts (
+  id               uuid primary key default gen_random_uuid(),
+  name             text not null unique check (length(trim(name)) > 0),
+  kind             text not null default 'cash' check (kind in ('cash', 'ewallet', 'bank', 'other')),
+  opening_balance  numeric(12, 2) not null default 0,
+  opened_on        date not null default current_date, -- entries before this are already in the opening balance
+  sort_order       integer not null default 0,
+  archived         boolean not null default false,
+  created_at       timestamptz not null default now()
+);
+
+alter table public.accounts enable row level security;
+
+drop policy if exists "accounts read" on public.accounts;
+create policy "accounts read" on public.accounts
+  for select to authenticated using (true);
+
+drop policy if exists "accounts admin write" on public.accounts;
+create policy "accounts admin write" on public.accounts
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- Existing history counts from the first recorded day.
+insert into public.accounts (name, kind, sort_order, opened_on)
+select v.name, v.kind, v.sort_order, coalesce((select min(date) from public.transactions), current_date)
+from (values ('Cash drawer', 'cash', 1), ('GCash', 'ewallet', 2), ('Bank', 'bank', 3)) as v(name, kind, sort_order)
+on conflict (name) do nothing;
+
+-- Where a row lands when the client doesn't pick an account.
+create or replace function public.default_account_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.accounts where not archived order by sort_order, created_at limit 1
+$$;
+
+alter table public.transactions
+  add column if not exists account_id uuid references public.accounts (id) on delete restrict;
+update public.transactions set account_id = public.default_account_id() where account_id is null;
+alter table public.transactions
+  alter column account_id set default public.default_account_id(),
+  alter column account_id set not null;
+create index if not exists transactions_account_idx on public.transactions (account_id, date);
+
+-- the account a bill is paid from / a contribution is taken from
+alter table public.bills
+  add column if not exists account_id uuid references public.accounts (id) on delete set null;
+alter table public.savings_contributions
+  add column if not exists account_id uuid references public.accounts (id) on delete set null;
+update public.savings_contributions c set account_id = t.account_id
+  from public.transactions t
+  where t.id = c.transaction_id and c.account_id is null;
+
+create table if not exists public.account_transfers (
+  id               uuid primary key default gen_random_uuid(),
+  date             date not null default current_date,
+  from_account_id  uuid not null references public.accounts (id) on delete restrict,
+  to_account_id    uuid not null references public.accounts (id) on delete restrict,
+  amount           numeric(12, 2) not null check (amount > 0),
+  note             text,
+  created_by       uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at       timestamptz not null default now(),
+  check (from_account_id <> to_account_id)
+);
+
+create index if not exists account_transfers_from_idx on public.account_transfers (from_account_id, date);
+create index if not exists account_transfers_to_idx on public.account_transfers (to_account_id, date);
+
+alter table public.account_transfers enable row level security;
+
+drop policy if exists "account_transfers read" on public.account_transfers;
+create policy "account_transfers read" on public.account_transfers
+  for select to authenticated using (true);
+
+drop policy if exists "account_transfers write" on public.account_transfers;
+create policy "account_transfers write" on public.account_transfers
+  for all to authenticated using (public.can_write()) with check (public.can_write());
+
+-- Every money movement, signed from the account's point of view.
+-- Income comes in; expenses and savings set-asides go out.
+create or replace view public.account_entries
+with (security_invoker = true) as
+  select t.account_id, t.date, 'transaction'::text as source, t.id as source_id,
+         t.type::text as kind, t.category as label, t.note,
+         case when t.type::text = 'income' then t.amount else -t.amount end as amount
+  from public.transactions t
+  where t.deleted_at is null
+  union all
+  select x.from_account_id, x.date, 'transfer', x.id, 'transfer_out',
+         'Transfer to ' || a.name, x.note, -x.amount
+  from public.account_transfers x
+  join public.accounts a on a.id = x.to_account_id
+  union all
+  select x.to_account_id, x.date, 'transfer', x.id, 'transfer_in',
+         'Transfer from ' || a.name, x.note, x.amount
+  from public.account_transfers x
+  join public.accounts a on a.id = x.from_account_id;
+
+create or replace function public.account_balances(as_of date default current_date)
+returns table (account_id uuid, name text, kind text, archived boolean, opening_balance numeric, inflow numeric, outflow numeric, balance numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    a.id, a.name, a.kind, a.archived, a.opening_balance,
+    coalesce(sum(e.amount) filter (where e.amount > 0), 0),
+    coalesce(-sum(e.amount) filter (where e.amount < 0), 0),
+    a.opening_balance + coalesce(sum(e.amount), 0)
+  from public.accounts a
+  left join public.account_entries e
+    on e.account_id = a.id and e.date >= a.opened_on and e.date <= as_of
+  group by a.id
+  order by a.archived, a.sort_order, a.name
+$$;
+
+-- One account's entries, newest first, with the balance after each one.
+create or replace function public.account_ledger(acc uuid, from_date date default null, to_date date default null)
+returns table (date date, source text, source_id uuid, kind text, label text, note text, amount numeric, balance numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select r.date, r.source, r.source_id, r.kind, r.label, r.note, r.amount, r.balance
+  from (
+    select e.*,
+      a.opening_balance + sum(e.amount) over (order by e.date, e.source, e.source_id, e.kind rows unbounded preceding) as balance
+    from public.account_entries e
+    join public.accounts a on a.id = e.account_id
+    where e.account_id = acc and e.date >= a.opened_on
+  ) r
+  where (from_date is null or r.date >= from_date)
+    and (to_date is null or r.date <= to_date)
+  order by r.date desc, r.source desc, r.source_id desc, r.kind desc
+$$;
+
+grant execute on function public.default_account_id() to authenticated;
+grant execute on function public.account_balances(date) to authenticated;
+grant execute on function public.account_ledger(uuid, date, date) to authenticated;
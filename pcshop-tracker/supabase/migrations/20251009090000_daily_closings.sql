@@ -0,0 +1,128 @@
+-- End-of-day cash count. Staff count the cash per revenue stream (income
+-- category) and denomination; the closing stores what was expected from the
+-- recorded income, what was counted, and who closed the day. Closed days are
+-- read-only; only an admin can reopen one.
+
+create table if not exists public.daily_closings (
+  id              uuid primary key default gen_random_uuid(),
+  date            date not null unique,
+  expected_total  numeric(12, 2) not null default 0,
+  counted_total   numeric(12, 2) not null default 0,
+  variance        numeric(12, 2) generated always as (counted_total - expected_total) stored,
+  notes           text,
+  closed_by       uuid references public.profiles (id) on delete set null default auth.uid(),
+  closed_at       timestamptz not null default now()
+);
+
+create table if not exists public.daily_closing_counts (
+  closing_id    uuid not null references public.daily_closings (id) on delete cascade,
+  stream        text not null,
+  denomination  numeric(8, 2) not null check (denomination > 0),
+  quantity      integer not null check (quantity > 0),
+  primary key (closing_id, stream, denomination)
+);
+
+create table if not exists public.daily_closing_streams (
+  closing_id  uuid not null references public.daily_closings (id) on delete cascade,
+  stream      text not null,
+  expected    numeric(12, 2) not null default 0,
+  counted     numeric(12, 2) not null default 0,
+  variance    numeric(12, 2) generated always as (counted - expected) stored,
+  primary key (closing_id, stream)
+);
+
+alter table public.daily_closings enable row level security;
+alter table public.daily_closing_counts enable row level security;
+alter table public.daily_closing_streams enable row level security;
+
+-- read-only for everyone; writes go through close_day() / reopen_day()
+drop policy if exists "daily_closings read" on public.daily_closings;
+create policy "daily_closings read" on public.daily_closings for select to authenticated using (true);
+drop policy if exists "daily_closing_counts read" on public.daily_closing_counts;
+create policy "daily_closing_counts read" on public.daily_closing_counts for select to authenticated using (true);
+drop policy if exists "daily_closing_streams read" on public.daily_closing_streams;
+create policy "daily_closing_streams read" on public.daily_closing_streams for select to authenticated using (true);
+
+-- Income booked to cash accounts on a day, per stream. GCash/bank income
+-- never reaches the drawer, so it is left out.
+create or replace function public.expected_cash_income(day date)
+returns table (stream text, expected numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select l.category, sum(l.amount)
+  from public.transaction_lines l
+  join public.transactions t on t.id = l.transaction_id
+  join public.accounts a on a.id = t.account_id
+  where l.date = day and l.type::text = 'income' and a.kind = 'cash'
+  group by l.category
+  order by l.category
+$$;
+
+-- counts: [{ "stream": "PisoNet", "denomination": 5, "quantity": 120 }, ...]
+create or replace function public.close_day(day date, counts jsonb, notes text default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cid uuid;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to close the day';
+  end if;
+  if exists (select 1 from public.daily_closings where date = day) then
+    raise exception '% is already closed', day;
+  end if;
+
+  insert into public.daily_closings (date, notes, closed_by)
+  values (day, nullif(trim(notes), ''), auth.uid())
+  returning id into cid;
+
+  insert into public.daily_closing_counts (closing_id, stream, denomination, quantity)
+  select cid, c.stream, c.denomination, sum(c.quantity)
+  from jsonb_to_recordset(coalesce(counts, '[]'::jsonb)) as c(stream text, denomination numeric, quantity integer)
+  where c.quantity > 0
+  group by c.stream, c.denomination;
+
+  insert into public.daily_closing_streams (closing_id, stream, expected, counted)
+  select cid, coalesce(e.stream, k.stream), coalesce(e.expected, 0), coalesce(k.counted, 0)
+  from public.expected_cash_income(day) e
+  full join (
+    select stream, sum(denomination * quantity) as counted
+    from public.daily_closing_counts where closing_id = cid
+    group by stream
+  ) k on k.stream = e.stream;
+
+  update public.daily_closings d
+  set expected_total = s.expected, counted_total = s.counted
+  from (
+    select coalesce(sum(expected), 0) as expected, coalesce(sum(counted), 0) as counted
+    from public.daily_closing_streams where closing_id = cid
+  ) s
+  where d.id = cid;
+
+  return cid;
+end;
+$$;
+
+create or replace function public.reopen_day(day date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Admins only';
+  end if;
+  delete from public.daily_closings where date = day;
+end;
+$$;
+
+grant execute on function public.expected_cash_income(date) to authenticated;
+grant execute on function public.close_day(date, jsonb, text) to authenticated;
+grant execute on function public.reopen_day(date) to authenticated;
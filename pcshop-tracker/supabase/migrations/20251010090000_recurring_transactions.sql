@@ -0,0 +1,251 @@
+-- Recurring income/expense templates. Each scheduled date becomes at most one
+-- transaction: recurring_occurrences is keyed on (template, date), so posting
+-- the same occurrence twice is a no-op. Occurrences can be skipped, or edited
+-- (amount/category/note override) before they post.
+
+create table if not exists public.recurring_templates (
+  id              uuid primary key default gen_random_uuid(),
+  type            text not null check (type in ('income', 'expense', 'savings')),
+  category        text not null,
+  amount          numeric(12, 2) not null check (amount > 0),
+  note            text,
+  account_id      uuid references public.accounts (id) on delete set null,
+  tags            text[] not null default '{}',
+  frequency       text not null check (frequency in ('daily', 'weekly', 'monthly', 'custom')),
+  interval_count  integer not null default 1 check (interval_count between 1 and 365), -- custom: every N units
+  interval_unit   text not null default 'day' check (interval_unit in ('day', 'week', 'month')),
+  start_date      date not null,
+  end_date        date,
+  active          boolean not null default true,
+  created_by      uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at      timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+create table if not exists public.recurring_occurrences (
+  template_id     uuid not null references public.recurring_templates (id) on delete cascade,
+  occurs_on       date not null,
+  status          text not null default 'pending' check (status in ('pending', 'posted', 'skipped')),
+  amount          numeric(12, 2) check (amount > 0), -- overrides, null = use the template
+  category        text,
+  note            text,
+  transaction_id  uuid references public.transactions (id) on delete set null,
+  posted_at       timestamptz,
+  primary key (template_id, occurs_on)
+);
+
+alter table public.transactions
+  add column if not exists recurring_template_id uuid references public.recurring_templates (id) on delete set null,
+  add column if not exists recurring_date date;
+
+create unique index if not exists transactions_recurring_uniq
+  on public.transactions (recurring_template_id, recurring_date)
+  where recurring_template_id is not null;
+
+alter table public.recurring_templates enable row level security;
+alter table public.recurring_occurrences enable row level security;
+
+drop policy if exists "recurring_templates read" on public.recurring_templates;
+create policy "recurring_templates read" on public.recurring_templates for select to authenticated using (true);
+drop policy if exists "recurring_templates write" on public.recurring_templates;
+create policy "recurring_templates write" on public.recurring_templates
+  for all to authenticated using (public.can_write()) with check (public.can_write());
+
+-- occurrences change only through the functions below
+drop policy if exists "recurring_occurrences read" on public.recurring_occurrences;
+create policy "recurring_occurrences read" on public.recurring_occurrences for select to authenticated using (true);
+
+-- Scheduled dates of a template within [from_date, to_date]. Monthly steps are
+-- counted from the start date, so the 31st falls back to the month's last day.
+create or replace function public.recurring_dates(tpl uuid, from_date date, to_date date)
+returns setof date
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select s.d
+  from public.recurring_templates t
+  cross join lateral (
+    select case
+      when t.frequency = 'daily'  then t.start_date + n
+      when t.frequency = 'weekly' then t.start_date + 7 * n
+      when t.frequency = 'monthly' then (t.start_date + make_interval(months => n))::date
+      when t.interval_unit = 'day'  then t.start_date + n * t.interval_count
+      when t.interval_unit = 'week' then t.start_date + 7 * n * t.interval_count
+      else (t.start_date + make_interval(months => n * t.interval_count))::date
+    end as d
+    from generate_series(0, greatest(to_date - t.start_date, 0)) as n
+  ) s
+  where t.id = tpl
+    and s.d between greatest(from_date, t.start_date) and least(to_date, coalesce(t.end_date, to_date))
+  order by 1
+$$;
+
+-- Post one occurrence. Returns the new transaction id, or null when the
+-- occurrence was already posted or skipped.
+create or replace function public.post_recurring_occurrence(tpl uuid, day date)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t       public.recurring_templates;
+  o       public.recurring_occurrences;
+  tx_type public.transactions.type%type;
+  tx_id   uuid;
+begin
+  -- no auth.uid() = scheduled job
+  if auth.uid() is not null and not public.can_write() then
+    raise exception 'You do not have permission to post transactions';
+  end if;
+  select * into t from public.recurring_templates where id = tpl;
+  if not found then
+    raise exception 'Recurring template not found';
+  end if;
+  if not exists (select 1 from public.recurring_dates(tpl, day, day)) then
+    raise exception '% is not a scheduled date for this template', day;
+  end if;
+
+  insert into public.recurring_occurrences as r (template_id, occurs_on, status)
+  values (tpl, day, 'posted')
+  on conflict (template_id, occurs_on) do update set status = 'posted'
+    where r.status = 'pending'
+  returning * into o;
+  if not found then
+    return null;
+  end if;
+
+  tx_type := t.type;
+  insert into public.transactions (date, type, category, amount, note, account_id, tags, recurring_template_id, recurring_date)
+  values (
+    day, tx_type, coalesce(o.category, t.category), coalesce(o.amount, t.amount), coalesce(o.note, t.note),
+    coalesce(t.account_id, public.default_account_id()), t.tags, tpl, day
+  )
+  returning id into tx_id;
+
+  update public.recurring_occurrences set transaction_id = tx_id, posted_at = now()
+    where template_id = tpl and occurs_on = day;
+  return tx_id;
+end;
+$$;
+
+-- Post everything due up to a date; safe to run any number of times.
+create or replace function public.post_due_recurring(up_to date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  n integer := 0;
+begin
+  if auth.uid() is not null and not public.can_write() then
+    raise exception 'You do not have permission to post transactions';
+  end if;
+  for r in
+    select t.id, d.day
+    from public.recurring_templates t
+    cross join lateral public.recurring_dates(t.id, t.start_date, up_to) as d(day)
+    where t.active
+      and not exists (
+        select 1 from public.recurring_occurrences o
+        where o.template_id = t.id and o.occurs_on = d.day and o.status <> 'pending'
+      )
+    order by d.day
+  loop
+    if public.post_recurring_occurrence(r.id, r.day) is not null then
+      n := n + 1;
+    end if;
+  end loop;
+  return n;
+end;
+$$;
+
+create or replace function public.skip_recurring_occurrence(tpl uuid, day date, skip boolean default true)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to change recurring entries';
+  end if;
+  if skip then
+    insert into public.recurring_occurrences as r (template_id, occurs_on, status)
+    values (tpl, day, 'skipped')
+    on conflict (template_id, occurs_on) do update set status = 'skipped'
+      where r.status = 'pending';
+  else
+    update public.recurring_occurrences set status = 'pending'
+      where template_id = tpl and occurs_on = day and status = 'skipped';
+  end if;
+end;
+$$;
+
+-- Change one upcoming occurrence before it posts; nulls fall back to the template.
+create or replace function public.edit_recurring_occurrence(tpl uuid, day date, new_amount numeric, new_category text, new_note text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to change recurring entries';
+  end if;
+  if not exists (select 1 from public.recurring_dates(tpl, day, day)) then
+    raise exception '% is not a scheduled date for this template', day;
+  end if;
+  insert into public.recurring_occurrences as r (template_id, occurs_on, status, amount, category, note)
+  values (tpl, day, 'pending', new_amount, new_category, new_note)
+  on conflict (template_id, occurs_on) do update
+    set amount = excluded.amount, category = excluded.category, note = excluded.note
+    where r.status = 'pending';
+  if not found then
+    raise exception 'This occurrence was already posted or skipped';
+  end if;
+end;
+$$;
+
+-- Occurrences of active templates in a date range with their effective values.
+create or replace function public.upcoming_recurring(from_date date, to_date date)
+returns table (
+  template_id uuid, occurs_on date, type text, category text, amount numeric, note text,
+  status text, transaction_id uuid, edited boolean
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    t.id, d.day, t.type,
+    coalesce(o.category, t.category), coalesce(o.amount, t.amount), coalesce(o.note, t.note),
+    coalesce(o.status, 'pending'), o.transaction_id,
+    (o.amount is not null or o.category is not null or o.note is not null)
+  from public.recurring_templates t
+  cross join lateral public.recurring_dates(t.id, from_date, to_date) as d(day)
+  left join public.recurring_occurrences o on o.template_id = t.id and o.occurs_on = d.day
+  where t.active
+  order by d.day, t.category
+$$;
+
+grant execute on function public.recurring_dates(uuid, date, date) to authenticated;
+grant execute on function public.post_recurring_occurrence(uuid, date) to authenticated;
+grant execute on function public.post_due_recurring(date) to authenticated;
+grant execute on function public.skip_recurring_occurrence(uuid, date, boolean) to authenticated;
+grant execute on function public.edit_recurring_occurrence(uuid, date, numeric, text, text) to authenticated;
+grant execute on function public.upcoming_recurring(date, date) to authenticated;
+
+-- Post daily without anyone opening the app, where pg_cron is available.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('post-due-recurring', '5 0 * * *', 'select public.post_due_recurring()');
+  end if;
+end;
+$$;
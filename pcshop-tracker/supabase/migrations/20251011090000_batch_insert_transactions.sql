@@ -0,0 +1,38 @@
+-- Batch entry: insert many transactions in one call. Each row runs in its own
+-- subtransaction, so a bad row is reported back instead of failing the batch.
+-- Security invoker: the usual RLS write policies still apply per row.
+
+create or replace function public.insert_transactions(entries jsonb)
+returns table (idx integer, id uuid, error text)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  r       jsonb;
+  i       integer := 0;
+  tx_type public.transactions.type%type;
+begin
+  for r in select value from jsonb_array_elements(entries)
+  loop
+    idx := i;
+    id := null;
+    error := null;
+    begin
+      tx_type := r->>'type';
+      insert into public.transactions (date, type, category, amount, note, account_id)
+      values (
+        (r->>'date')::date, tx_type, r->>'category', (r->>'amount')::numeric, nullif(r->>'note', ''),
+        coalesce((r->>'account_id')::uuid, public.default_account_id())
+      )
+      returning transactions.id into id;
+    exception when others then
+      error := sqlerrm;
+    end;
+    return next;
+    i := i + 1;
+  end loop;
+end;
+$$;
+
+grant execute on function public.insert_transactions(jsonb) to authenticated;
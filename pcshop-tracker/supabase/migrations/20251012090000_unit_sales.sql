@@ -0,0 +1,68 @@
+-- Unit-based sales. An income category can define what it sells ("page",
+-- "gallon", "5-min slot") and a default price; income rows may then record
+-- quantity × unit price, with amount holding the product.
+
+alter table public.categories
+  add column if not exists unit_label text check (unit_label is null or length(trim(unit_label)) > 0),
+  add column if not exists unit_price numeric(12, 4) check (unit_price is null or unit_price > 0);
+
+alter table public.transactions
+  add column if not exists quantity numeric(12, 3) check (quantity is null or quantity > 0),
+  add column if not exists unit_price numeric(12, 4) check (unit_price is null or unit_price >= 0);
+
+alter table public.transactions drop constraint if exists transactions_units_pair;
+alter table public.transactions
+  add constraint transactions_units_pair check ((quantity is null) = (unit_price is null));
+
+-- Starting units for the shop's own streams; admins adjust them in Categories.
+update public.categories set unit_label = '5-min slot', unit_price = 1
+  where kind = 'income' and name = 'PisoNet' and unit_label is null;
+update public.categories set unit_label = 'gallon', unit_price = 25
+  where kind = 'income' and name = 'Water Refilling' and unit_label is null;
+update public.categories set unit_label = 'page', unit_price = 5
+  where kind = 'income' and name = 'Printing' and unit_label is null;
+
+-- Per month and income stream: units sold, what they brought in, and the
+-- average realized price. revenue_per_unit spreads all of the stream's income
+-- (including rows entered without a quantity) over the units sold.
+create or replace function public.unit_sales(from_date date, to_date date)
+returns table (
+  month date, category text, unit_label text, list_price numeric,
+  units numeric, unit_revenue numeric, avg_price numeric,
+  total_revenue numeric, revenue_per_unit numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with lines as (
+    -- a quantity describes the whole row, so split lines don't carry it
+    select date_trunc('month', l.date)::date as month, l.category, l.amount,
+      case when not l.is_split then t.quantity end as quantity
+    from public.transaction_lines l
+    join public.transactions t on t.id = l.transaction_id
+    where l.type::text = 'income' and l.date between from_date and to_date
+  ),
+  agg as (
+    select
+      month, category,
+      coalesce(sum(quantity) filter (where quantity is not null), 0) as units,
+      coalesce(sum(amount) filter (where quantity is not null), 0) as unit_revenue,
+      sum(amount) as total_revenue
+    from lines
+    group by month, category
+  )
+  select
+    a.month, a.category, c.unit_label, c.unit_price,
+    a.units, a.unit_revenue,
+    case when a.units > 0 then round(a.unit_revenue / a.units, 4) end,
+    a.total_revenue,
+    case when a.units > 0 then round(a.total_revenue / a.units, 4) end
+  from agg a
+  join public.categories c on c.kind = 'income' and c.name = a.category
+  where c.unit_label is not null or a.units > 0
+  order by a.month, a.category
+$$;
+
+grant execute on function public.unit_sales(date, date) to authenticated;
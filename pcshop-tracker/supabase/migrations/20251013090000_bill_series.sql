@@ -0,0 +1,206 @@
+-- Recurring bills. A bill_series holds the terms (category, amount, day of
+-- month, stop date); bills are its monthly instances, one per due date.
+-- Paying an instance creates the next month's, and generate_recurring_bills()
+-- fills any missing months up to a horizon. Trashing an instance skips that
+-- month: the (series, due date) slot stays taken.
+
+create table if not exists public.bill_series (
+  id          uuid primary key default gen_random_uuid(),
+  category    text not null,
+  amount      numeric(12, 2) not null check (amount > 0),
+  recur_day   integer not null check (recur_day between 1 and 31),
+  account_id  uuid references public.accounts (id) on delete set null,
+  starts_on   date not null,
+  stop_date   date,
+  active      boolean not null default true,
+  created_by  uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at  timestamptz not null default now(),
+  check (stop_date is null or stop_date >= starts_on)
+);
+
+alter table public.bills
+  add column if not exists series_id uuid references public.bill_series (id) on delete set null;
+
+create unique index if not exists bills_series_due_uniq on public.bills (series_id, due_date);
+
+alter table public.bill_series enable row level security;
+
+drop policy if exists "bill_series read" on public.bill_series;
+create policy "bill_series read" on public.bill_series for select to authenticated using (true);
+drop policy if exists "bill_series write" on public.bill_series;
+create policy "bill_series write" on public.bill_series
+  for all to authenticated using (public.can_write()) with check (public.can_write());
+
+-- recur_day of the given month, falling back to the month's last day.
+create or replace function public.bill_due_in_month(month_start date, day integer)
+returns date
+language sql
+immutable
+as $$
+  select (date_trunc('month', month_start)::date
+          + (least(day, extract(day from date_trunc('month', month_start) + interval '1 month - 1 day')::integer) - 1))
+$$;
+
+-- Existing recurring bills become series: one per category and day, with the
+-- latest bill's terms, starting from that bill so past months aren't refilled.
+do $$
+declare
+  g record;
+  sid uuid;
+begin
+  for g in
+    select distinct on (category, coalesce(recur_day, extract(day from due_date)::integer))
+      category, coalesce(recur_day, extract(day from due_date)::integer) as day, amount, account_id, due_date
+    from public.bills
+    where recurring and series_id is null and deleted_at is null
+    order by category, coalesce(recur_day, extract(day from due_date)::integer), due_date desc
+  loop
+    insert into public.bill_series (category, amount, recur_day, account_id, starts_on, created_by)
+    values (g.category, g.amount, g.day, g.account_id, g.due_date, null)
+    returning id into sid;
+    -- older instances of the same bill may share a due date with a newer one; link only the newest per date
+    update public.bills b set series_id = sid
+    where b.id in (
+      select distinct on (due_date) id from public.bills
+      where recurring and series_id is null and deleted_at is null
+        and category = g.category and coalesce(recur_day, extract(day from due_date)::integer) = g.day
+      order by due_date, paid desc
+    );
+  end loop;
+end;
+$$;
+
+-- A new recurring bill starts its own series.
+create or replace function public.bills_start_series()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.recurring and new.series_id is null then
+    new.recur_day := coalesce(new.recur_day, extract(day from new.due_date)::integer);
+    insert into public.bill_series (category, amount, recur_day, account_id, starts_on)
+    values (new.category, new.amount, new.recur_day, new.account_id, new.due_date)
+    returning id into new.series_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bills_start_series on public.bills;
+create trigger bills_start_series before insert on public.bills
+  for each row execute function public.bills_start_series();
+
+-- Insert missing instances of active series due on or before `horizon`.
+-- Returns how many bills were created.
+create or replace function public.generate_recurring_bills(horizon date default (current_date + 31), only_series uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  -- no auth.uid() = scheduled job
+  if auth.uid() is not null and not public.can_write() then
+    raise exception 'You do not have permission to create bills';
+  end if;
+  insert into public.bills (due_date, category, amount, recurring, recur_day, account_id, series_id)
+  select d.due, s.category, s.amount, true, s.recur_day, s.account_id, s.id
+  from public.bill_series s
+  cross join lateral (
+    select public.bill_due_in_month(m::date, s.recur_day) as due
+    from generate_series(date_trunc('month', s.starts_on), date_trunc('month', horizon), interval '1 month') as m
+  ) d
+  where s.active
+    and (only_series is null or s.id = only_series)
+    and d.due between s.starts_on and horizon
+    and (s.stop_date is null or d.due <= s.stop_date)
+  on conflict (series_id, due_date) do nothing;
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+-- Paying an instance brings in the following month's.
+create or replace function public.bills_next_instance()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.bill_series;
+begin
+  if new.paid and not coalesce(old.paid, false) and new.series_id is not null then
+    select * into s from public.bill_series where id = new.series_id;
+    if found and s.active then
+      perform public.generate_recurring_bills(
+        public.bill_due_in_month((date_trunc('month', new.due_date) + interval '1 month')::date, s.recur_day),
+        s.id
+      );
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bills_next_instance on public.bills;
+create trigger bills_next_instance after update of paid on public.bills
+  for each row execute function public.bills_next_instance();
+
+-- Change a series' terms from `effective_from` on. Unpaid instances due from
+-- then are updated (or removed past a new stop date); paid and earlier ones keep
+-- what they were billed.
+create or replace function public.update_bill_series(
+  sid uuid, new_amount numeric, new_day integer, new_stop_date date, effective_from date default current_date
+)
+returns public.bill_series
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.bill_series;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to change bills';
+  end if;
+  update public.bill_series
+    set amount = new_amount, recur_day = new_day, stop_date = new_stop_date
+    where id = sid
+    returning * into s;
+  if not found then
+    raise exception 'Bill series not found';
+  end if;
+
+  -- generated instances past the stop date were never acted on; drop them
+  delete from public.bills
+    where series_id = sid and not paid and transaction_id is null
+      and due_date >= effective_from and new_stop_date is not null and due_date > new_stop_date
+      and not exists (select 1 from public.attachments a where a.bill_id = bills.id);
+
+  update public.bills
+    set amount = new_amount,
+        recur_day = new_day,
+        due_date = public.bill_due_in_month(due_date, new_day)
+    where series_id = sid and not paid and deleted_at is null and due_date >= effective_from;
+
+  perform public.generate_recurring_bills(current_date + 31, sid);
+  return s;
+end;
+$$;
+
+grant execute on function public.bill_due_in_month(date, integer) to authenticated;
+grant execute on function public.generate_recurring_bills(date, uuid) to authenticated;
+grant execute on function public.update_bill_series(uuid, numeric, integer, date, date) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('generate-recurring-bills', '10 0 * * *', 'select public.generate_recurring_bills()');
+  end if;
+end;
+$$;
@@ -0,0 +1,346 @@
+-- Partial bill payments. A bill is paid through one or more bill_payments,
+-- each booking its own expense; the bill is marked paid once they add up to
+-- its amount. Existing paid bills get one payment carrying their old expense,
+-- and bills.transaction_id is no longer used.
+
+create table if not exists public.bill_payments (
+  id              uuid primary key default gen_random_uuid(),
+  bill_id         uuid not null references public.bills (id) on delete cascade,
+  paid_on         date not null,
+  amount          numeric(12, 2) not null check (amount > 0),
+  note            text,
+  transaction_id  uuid references public.transactions (id) on delete set null,
+  created_by      uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at      timestamptz not null default now()
+);
+
+create index if not exists bill_payments_bill_idx on public.bill_payments (bill_id);
+create index if not exists bill_payments_tx_idx on public.bill_payments (transaction_id);
+
+alter table public.bill_payments enable row level security;
+
+drop policy if exists "bill_payments read" on public.bill_payments;
+create policy "bill_payments read" on public.bill_payments for select to authenticated using (true);
+drop policy if exists "bill_payments write" on public.bill_payments;
+create policy "bill_payments write" on public.bill_payments
+  for all to authenticated using (public.can_write()) with check (public.can_write());
+
+-- Paid bills so far were paid in full, with or without a linked expense.
+insert into public.bill_payments (bill_id, paid_on, amount, transaction_id, created_by)
+select b.id, coalesce(t.date, b.paid_at::date, b.due_date), b.amount, b.transaction_id, null
+from public.bills b
+left join public.transactions t on t.id = b.transaction_id
+where b.paid and not exists (select 1 from public.bill_payments p where p.bill_id = b.id);
+
+update public.bills set transaction_id = null where transaction_id is not null;
+
+comment on column public.bills.transaction_id is 'Unused: expenses are linked per payment in bill_payments.';
+
+-- Mark a bill paid when its payments cover the amount, unpaid otherwise.
+-- paid_at is the settling payment's date (noon, so it reads as that day in any
+-- local time zone), or now() when it was paid today.
+create or replace function public.settle_bill(bid uuid)
+returns public.bills
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  b       public.bills;
+  total   numeric;
+  last_on date;
+begin
+  select coalesce(sum(amount), 0), max(paid_on) into total, last_on
+    from public.bill_payments where bill_id = bid;
+  update public.bills
+    set paid = total >= amount,
+        paid_at = case
+          when total < amount then null
+          when paid then paid_at
+          when last_on = current_date then now()
+          else last_on + time '12:00'
+        end
+    where id = bid
+    returning * into b;
+  return b;
+end;
+$$;
+
+-- Record a payment and book it as an expense from the bill's account.
+create or replace function public.add_bill_payment(bid uuid, pay_date date, pay_amount numeric, pay_note text default null)
+returns public.bills
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  b           public.bills;
+  paid_so_far numeric;
+  tx_id       uuid;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to pay bills';
+  end if;
+  select * into b from public.bills where id = bid and deleted_at is null for update;
+  if not found then
+    raise exception 'Bill not found';
+  end if;
+  if pay_amount is null or pay_amount <= 0 then
+    raise exception 'Payment amount must be positive';
+  end if;
+  select coalesce(sum(amount), 0) into paid_so_far from public.bill_payments where bill_id = bid;
+  if paid_so_far + pay_amount > b.amount then
+    raise exception 'Payment exceeds the remaining balance of %', b.amount - paid_so_far;
+  end if;
+
+  insert into public.transactions (date, type, category, amount, note, account_id)
+  values (
+    pay_date, 'expense', b.category, pay_amount,
+    case when paid_so_far = 0 and pay_amount = b.amount then 'Bill paid: ' else 'Bill payment: ' end
+      || b.category || coalesce(' • ' || nullif(trim(pay_note), ''), ''),
+    coalesce(b.account_id, public.default_account_id())
+  )
+  returning id into tx_id;
+
+  insert into public.bill_payments (bill_id, paid_on, amount, note, transaction_id)
+  values (bid, pay_date, pay_amount, nullif(trim(pay_note), ''), tx_id);
+
+  return public.settle_bill(bid);
+end;
+$$;
+
+-- Remove a payment and its expense; the bill reopens if it's no longer covered.
+create or replace function public.remove_bill_payment(pid uuid)
+returns public.bills
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  p public.bill_payments;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to change bill payments';
+  end if;
+  delete from public.bill_payments where id = pid returning * into p;
+  if not found then
+    raise exception 'Payment not found';
+  end if;
+  if p.transaction_id is not null then
+    delete from public.transactions where id = p.transaction_id;
+  end if;
+  return public.settle_bill(p.bill_id);
+end;
+$$;
+
+grant execute on function public.add_bill_payment(uuid, date, numeric, text) to authenticated;
+grant execute on function public.remove_bill_payment(uuid) to authenticated;
+
+-- Trash: a bill takes its payments' expenses along, and they come back with it.
+create or replace function public.trash_record(tbl text, rec_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ts     timestamptz := now();
+  linked uuid;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to delete records';
+  end if;
+  perform public.check_trash_table(tbl);
+
+  execute format('update public.%I set deleted_at = $1, deleted_by = auth.uid() where id = $2 and deleted_at is null', tbl)
+    using ts, rec_id;
+  if not found then
+    raise exception 'Record not found or already in the trash';
+  end if;
+
+  if tbl = 'savings_contributions' then
+    select transaction_id into linked from public.savings_contributions where id = rec_id;
+    if linked is not null then
+      update public.transactions set deleted_at = ts, deleted_by = auth.uid()
+        where id = linked and deleted_at is null;
+    end if;
+  elsif tbl = 'bills' then
+    update public.transactions set deleted_at = ts, deleted_by = auth.uid()
+      where deleted_at is null
+        and id in (select transaction_id from public.bill_payments where bill_id = rec_id);
+  end if;
+
+  return ts;
+end;
+$$;
+
+-- A restored bill's payments get a fresh expense if theirs is gone.
+create or replace function public.restore_record(tbl text, rec_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ts     timestamptz;
+  linked uuid;
+  b      public.bills;
+  p      public.bill_payments;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to restore records';
+  end if;
+  perform public.check_trash_table(tbl);
+
+  execute format('select deleted_at from public.%I where id = $1', tbl) into ts using rec_id;
+  if ts is null then
+    raise exception 'Record is not in the trash';
+  end if;
+
+  execute format('update public.%I set deleted_at = null, deleted_by = null where id = $1', tbl) using rec_id;
+
+  if tbl = 'savings_contributions' then
+    select transaction_id into linked from public.savings_contributions where id = rec_id;
+    if linked is not null then
+      update public.transactions set deleted_at = null, deleted_by = null
+        where id = linked and deleted_at = ts;
+    end if;
+  elsif tbl = 'bills' then
+    update public.transactions set deleted_at = null, deleted_by = null
+      where deleted_at = ts
+        and id in (select transaction_id from public.bill_payments where bill_id = rec_id);
+
+    select * into b from public.bills where id = rec_id;
+    for p in
+      select * from public.bill_payments bp
+      where bp.bill_id = rec_id
+        and (bp.transaction_id is null
+             or not exists (select 1 from public.transactions t where t.id = bp.transaction_id and t.deleted_at is null))
+    loop
+      insert into public.transactions (date, type, category, amount, note, account_id)
+      values (p.paid_on, 'expense', b.category, p.amount, 'Bill payment: ' || b.category,
+              coalesce(b.account_id, public.default_account_id()))
+      returning id into linked;
+      update public.bill_payments set transaction_id = linked where id = p.id;
+    end loop;
+  end if;
+end;
+$$;
+
+create or replace function public.purge_trash(retention_days integer default 30, only_table text default null, only_id uuid default null)
+returns setof text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cutoff timestamptz := now() - make_interval(days => greatest(retention_days, 0));
+  tx_ids   uuid[];
+  bill_ids uuid[];
+  sc_ids   uuid[];
+begin
+  if not public.is_admin() then
+    raise exception 'Admins only';
+  end if;
+  if only_table is not null then
+    perform public.check_trash_table(only_table);
+  end if;
+
+  select coalesce(array_agg(id), '{}') into bill_ids from public.bills
+    where deleted_at is not null
+      and (only_table is null and deleted_at < cutoff or only_table = 'bills' and id = only_id);
+  select coalesce(array_agg(id), '{}') into sc_ids from public.savings_contributions
+    where deleted_at is not null
+      and (only_table is null and deleted_at < cutoff or only_table = 'savings_contributions' and id = only_id);
+  -- linked transactions trashed together with a purged bill/contribution go too
+  select coalesce(array_agg(id), '{}') into tx_ids from public.transactions t
+    where t.deleted_at is not null
+      and (only_table is null and t.deleted_at < cutoff
+           or only_table = 'transactions' and t.id = only_id
+           or t.id in (select b.transaction_id from public.bill_payments b
+                       join public.bills on bills.id = b.bill_id
+                       where b.bill_id = any (bill_ids) and bills.deleted_at = t.deleted_at)
+           or t.id in (select transaction_id from public.savings_contributions where id = any (sc_ids) and deleted_at = t.deleted_at));
+
+  return query
+    select a.path from public.attachments a
+    where a.transaction_id = any (tx_ids) or a.bill_id = any (bill_ids);
+
+  delete from public.savings_contributions where id = any (sc_ids);
+  delete from public.bills where id = any (bill_ids);
+  -- live rows must not keep pointing at purged transactions
+  update public.bill_payments set transaction_id = null where transaction_id = any (tx_ids);
+  update public.savings_contributions set transaction_id = null where transaction_id = any (tx_ids);
+  delete from public.transactions where id = any (tx_ids);
+end;
+$$;
+
+-- Payment expenses carry the bill's category, so renames follow them.
+create or replace function public.repoint_category(p_kind text, p_from text, p_to text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_kind = 'bill' then
+    update public.bills set category = p_to where category = p_from;
+    update public.bill_series set category = p_to where category = p_from;
+    -- bill-linked expenses, plus manual ones when the name isn't also an expense category
+    update public.transactions set category = p_to
+      where category = p_from and type::text = 'expense'
+        and (id in (select transaction_id from public.bill_payments where transaction_id is not null)
+             or not exists (select 1 from public.categories where kind = 'expense' and name = p_from));
+  elsif p_kind = 'expense' then
+    update public.transactions set category = p_to
+      where category = p_from and type::text = 'expense'
+        and id not in (select transaction_id from public.bill_payments where transaction_id is not null);
+  else
+    update public.transactions set category = p_to where category = p_from and type::text = p_kind;
+  end if;
+end;
+$$;
+
+revoke execute on function public.repoint_category(text, text, text) from public, anon, authenticated;
+
+-- Series edits leave bills that already have payments alone.
+create or replace function public.update_bill_series(
+  sid uuid, new_amount numeric, new_day integer, new_stop_date date, effective_from date default current_date
+)
+returns public.bill_series
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.bill_series;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to change bills';
+  end if;
+  update public.bill_series
+    set amount = new_amount, recur_day = new_day, stop_date = new_stop_date
+    where id = sid
+    returning * into s;
+  if not found then
+    raise exception 'Bill series not found';
+  end if;
+
+  -- generated instances past the stop date were never acted on; drop them
+  delete from public.bills
+    where series_id = sid and not paid
+      and due_date >= effective_from and new_stop_date is not null and due_date > new_stop_date
+      and not exists (select 1 from public.bill_payments p where p.bill_id = bills.id)
+      and not exists (select 1 from public.attachments a where a.bill_id = bills.id);
+
+  update public.bills
+    set amount = new_amount,
+        recur_day = new_day,
+        due_date = public.bill_due_in_month(due_date, new_day)
+    where series_id = sid and not paid and deleted_at is null and due_date >= effective_from
+      and not exists (select 1 from public.bill_payments p where p.bill_id = bills.id);
+
+  perform public.generate_recurring_bills(current_date + 31, sid);
+  return s;
+end;
+$$;
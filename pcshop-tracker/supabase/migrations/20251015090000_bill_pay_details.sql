@@ -0,0 +1,149 @@
+-- Payment details: the account paid from, a reference number, and whether the
+-- payment settles the bill even though it differs from the billed amount (a
+-- late fee, a usage change). The difference shows as the bill's variance.
+
+alter table public.bill_payments
+  add column if not exists account_id uuid references public.accounts (id) on delete set null,
+  add column if not exists reference text,
+  add column if not exists settles boolean not null default false;
+
+-- Paid once payments cover the amount or one of them settles the bill.
+create or replace function public.settle_bill(bid uuid)
+returns public.bills
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  b       public.bills;
+  total   numeric;
+  closed  boolean;
+  last_on date;
+begin
+  select coalesce(sum(amount), 0), coalesce(bool_or(settles), false), max(paid_on) into total, closed, last_on
+    from public.bill_payments where bill_id = bid;
+  update public.bills
+    set paid = closed or total >= amount,
+        paid_at = case
+          when not closed and total < amount then null
+          when paid then paid_at
+          when last_on = current_date then now()
+          else last_on + time '12:00'
+        end
+    where id = bid
+    returning * into b;
+  return b;
+end;
+$$;
+
+drop function if exists public.add_bill_payment(uuid, date, numeric, text);
+
+-- Record a payment and book it as an expense with the same date, amount and
+-- account. A settling payment may differ from what is left; others may not exceed it.
+create or replace function public.add_bill_payment(
+  bid uuid, pay_date date, pay_amount numeric, pay_note text default null,
+  pay_account uuid default null, pay_reference text default null, settle boolean default false
+)
+returns public.bills
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  b           public.bills;
+  paid_so_far numeric;
+  ref         text := nullif(trim(pay_reference), '');
+  tx_id       uuid;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to pay bills';
+  end if;
+  select * into b from public.bills where id = bid and deleted_at is null for update;
+  if not found then
+    raise exception 'Bill not found';
+  end if;
+  if b.paid then
+    raise exception 'Bill is already paid';
+  end if;
+  if pay_amount is null or pay_amount <= 0 then
+    raise exception 'Payment amount must be positive';
+  end if;
+  select coalesce(sum(amount), 0) into paid_so_far from public.bill_payments where bill_id = bid;
+  if not settle and paid_so_far + pay_amount > b.amount then
+    raise exception 'Payment exceeds the remaining balance of %', b.amount - paid_so_far;
+  end if;
+
+  insert into public.transactions (date, type, category, amount, note, account_id)
+  values (
+    pay_date, 'expense', b.category, pay_amount,
+    case when paid_so_far = 0 and (settle or pay_amount = b.amount) then 'Bill paid: ' else 'Bill payment: ' end
+      || b.category
+      || coalesce(' • Ref ' || ref, '')
+      || coalesce(' • ' || nullif(trim(pay_note), ''), ''),
+    coalesce(pay_account, b.account_id, public.default_account_id())
+  )
+  returning id into tx_id;
+
+  insert into public.bill_payments (bill_id, paid_on, amount, note, transaction_id, account_id, reference, settles)
+  values (bid, pay_date, pay_amount, nullif(trim(pay_note), ''), tx_id,
+          coalesce(pay_account, b.account_id), ref, settle);
+
+  return public.settle_bill(bid);
+end;
+$$;
+
+grant execute on function public.add_bill_payment(uuid, date, numeric, text, uuid, text, boolean) to authenticated;
+
+-- Fresh expenses for restored bills use the payment's own account.
+create or replace function public.restore_record(tbl text, rec_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ts     timestamptz;
+  linked uuid;
+  b      public.bills;
+  p      public.bill_payments;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to restore records';
+  end if;
+  perform public.check_trash_table(tbl);
+
+  execute format('select deleted_at from public.%I where id = $1', tbl) into ts using rec_id;
+  if ts is null then
+    raise exception 'Record is not in the trash';
+  end if;
+
+  execute format('update public.%I set deleted_at = null, deleted_by = null where id = $1', tbl) using rec_id;
+
+  if tbl = 'savings_contributions' then
+    select transaction_id into linked from public.savings_contributions where id = rec_id;
+    if linked is not null then
+      update public.transactions set deleted_at = null, deleted_by = null
+        where id = linked and deleted_at = ts;
+    end if;
+  elsif tbl = 'bills' then
+    update public.transactions set deleted_at = null, deleted_by = null
+      where deleted_at = ts
+        and id in (select transaction_id from public.bill_payments where bill_id = rec_id);
+
+    select * into b from public.bills where id = rec_id;
+    for p in
+      select * from public.bill_payments bp
+      where bp.bill_id = rec_id
+        and (bp.transaction_id is null
+             or not exists (select 1 from public.transactions t where t.id = bp.transaction_id and t.deleted_at is null))
+    loop
+      insert into public.transactions (date, type, category, amount, note, account_id)
+      values (p.paid_on, 'expense', b.category, p.amount,
+              'Bill payment: ' || b.category || coalesce(' • Ref ' || p.reference, ''),
+              coalesce(p.account_id, b.account_id, public.default_account_id()))
+      returning id into linked;
+      update public.bill_payments set transaction_id = linked where id = p.id;
+    end loop;
+  end if;
+end;
+$$;
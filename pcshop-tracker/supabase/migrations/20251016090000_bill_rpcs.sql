@@ -0,0 +1,190 @@
+-- Paying, unpaying and deleting a bill each run as one database function, so
+-- a failure can't leave an expense without its bill or a paid bill without
+-- its expense. Admins get a check for rows left inconsistent before this.
+
+-- Pay what is left (or whatever was actually charged) and close the bill.
+create or replace function public.pay_bill(
+  bid uuid, pay_date date, pay_amount numeric, pay_account uuid default null, pay_reference text default null
+)
+returns public.bills
+language sql
+security invoker
+set search_path = public
+as $$
+  select * from public.add_bill_payment(bid, pay_date, pay_amount, null, pay_account, pay_reference, true)
+$$;
+
+-- Remove every payment and its expense, reopening the bill.
+create or replace function public.unpay_bill(bid uuid)
+returns public.bills
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to change bills';
+  end if;
+  perform 1 from public.bills where id = bid and deleted_at is null for update;
+  if not found then
+    raise exception 'Bill not found';
+  end if;
+  delete from public.transactions
+    where id in (select transaction_id from public.bill_payments where bill_id = bid);
+  delete from public.bill_payments where bill_id = bid;
+  return public.settle_bill(bid);
+end;
+$$;
+
+-- Move a bill and its payment expenses to the Trash.
+create or replace function public.delete_bill(bid uuid)
+returns public.bills
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  b public.bills;
+begin
+  perform public.trash_record('bills', bid);
+  select * into b from public.bills where id = bid;
+  return b;
+end;
+$$;
+
+grant execute on function public.pay_bill(uuid, date, numeric, uuid, text) to authenticated;
+grant execute on function public.unpay_bill(uuid) to authenticated;
+grant execute on function public.delete_bill(uuid) to authenticated;
+
+-- Rows that disagree with each other. `ref_id` is what repair_bill_issue()
+-- acts on: the bill, the payment or the transaction, depending on `kind`.
+create or replace function public.bill_consistency_issues()
+returns table (kind text, ref_id uuid, bill_id uuid, category text, amount numeric, day date, detail text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Admins only';
+  end if;
+
+  -- paid, but nothing was booked
+  return query
+    select 'paid_without_payment', b.id, b.id, b.category, b.amount, coalesce(b.paid_at::date, b.due_date),
+           'Marked paid but has no payment or expense'
+    from public.bills b
+    where b.deleted_at is null and b.paid
+      and not exists (select 1 from public.bill_payments p where p.bill_id = b.id);
+
+  -- a payment whose expense was deleted or trashed on its own
+  return query
+    select 'payment_without_expense', p.id, b.id, b.category, p.amount, p.paid_on,
+           case when p.transaction_id is null then 'Payment has no expense'
+                else 'Payment''s expense is missing or in the Trash' end
+    from public.bill_payments p
+    join public.bills b on b.id = p.bill_id
+    where b.deleted_at is null
+      and not exists (select 1 from public.transactions t where t.id = p.transaction_id and t.deleted_at is null);
+
+  -- paid flag doesn't match the payments
+  return query
+    select 'paid_flag_mismatch', b.id, b.id, b.category, b.amount, b.due_date,
+           case when b.paid then 'Marked paid but payments don''t cover it'
+                else 'Payments cover it but it is not marked paid' end
+    from public.bills b
+    join (
+      select bp.bill_id, sum(bp.amount) as total, bool_or(bp.settles) as closed
+      from public.bill_payments bp group by bp.bill_id
+    ) s on s.bill_id = b.id
+    where b.deleted_at is null and b.paid <> (s.closed or s.total >= b.amount);
+
+  -- a trashed bill's expense still counted in the books
+  return query
+    select 'expense_of_trashed_bill', t.id, b.id, b.category, t.amount, t.date,
+           'Bill is in the Trash but its expense is not'
+    from public.bill_payments p
+    join public.bills b on b.id = p.bill_id
+    join public.transactions t on t.id = p.transaction_id
+    where b.deleted_at is not null and t.deleted_at is null;
+
+  -- bill expenses no payment points to (left by a failed pay/unpay)
+  return query
+    select 'orphan_expense', t.id, null::uuid, t.category, t.amount, t.date,
+           'Bill expense not linked to any bill'
+    from public.transactions t
+    where t.deleted_at is null and t.type::text = 'expense'
+      and (t.note like 'Bill paid: %' or t.note like 'Bill payment: %')
+      and not exists (select 1 from public.bill_payments p where p.transaction_id = t.id);
+end;
+$$;
+
+-- Fix one issue reported by bill_consistency_issues(). Orphans go to the Trash
+-- rather than being deleted, so a wrong guess can be undone.
+create or replace function public.repair_bill_issue(kind text, ref_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  b      public.bills;
+  p      public.bill_payments;
+  tx_id  uuid;
+begin
+  if not public.is_admin() then
+    raise exception 'Admins only';
+  end if;
+
+  if kind = 'paid_without_payment' then
+    select * into b from public.bills where id = ref_id and paid and deleted_at is null;
+    if not found or exists (select 1 from public.bill_payments where bill_id = ref_id) then
+      raise exception 'Already repaired';
+    end if;
+    insert into public.transactions (date, type, category, amount, note, account_id)
+    values (coalesce(b.paid_at::date, b.due_date), 'expense', b.category, b.amount, 'Bill paid: ' || b.category,
+            coalesce(b.account_id, public.default_account_id()))
+    returning id into tx_id;
+    insert into public.bill_payments (bill_id, paid_on, amount, transaction_id, account_id, settles)
+    values (b.id, coalesce(b.paid_at::date, b.due_date), b.amount, tx_id, b.account_id, true);
+
+  elsif kind = 'payment_without_expense' then
+    select * into p from public.bill_payments where id = ref_id;
+    if not found then
+      raise exception 'Payment not found';
+    end if;
+    if exists (select 1 from public.transactions where id = p.transaction_id and deleted_at is null) then
+      raise exception 'Already repaired';
+    end if;
+    select * into b from public.bills where id = p.bill_id;
+    insert into public.transactions (date, type, category, amount, note, account_id)
+    values (p.paid_on, 'expense', b.category, p.amount,
+            'Bill payment: ' || b.category || coalesce(' • Ref ' || p.reference, ''),
+            coalesce(p.account_id, b.account_id, public.default_account_id()))
+    returning id into tx_id;
+    update public.bill_payments set transaction_id = tx_id where id = p.id;
+
+  elsif kind = 'paid_flag_mismatch' then
+    perform public.settle_bill(ref_id);
+
+  elsif kind = 'expense_of_trashed_bill' then
+    update public.transactions t
+      set deleted_at = b2.deleted_at, deleted_by = b2.deleted_by
+      from public.bill_payments p2
+      join public.bills b2 on b2.id = p2.bill_id
+      where t.id = ref_id and p2.transaction_id = t.id and b2.deleted_at is not null and t.deleted_at is null;
+
+  elsif kind = 'orphan_expense' then
+    update public.transactions set deleted_at = now(), deleted_by = auth.uid()
+      where id = ref_id and deleted_at is null
+        and not exists (select 1 from public.bill_payments where transaction_id = ref_id);
+
+  else
+    raise exception 'Unknown issue: %', kind;
+  end if;
+end;
+$$;
+
+grant execute on function public.bill_consistency_issues() to authenticated;
+grant execute on function public.repair_bill_issue(text, uuid) to authenticated;
@@ -0,0 +1,99 @@
+-- Payees: who a bill or expense is paid to (PLDT, Meralco, the landlord), with
+-- the account number they know us by and how we usually pay them. Bills,
+-- their series and expense transactions can point at a payee; a payment's
+-- expense inherits its bill's payee.
+
+create table if not exists public.payees (
+  id                  uuid primary key default gen_random_uuid(),
+  name                text not null unique check (length(trim(name)) > 0),
+  account_number      text, -- our customer / account no. with them
+  contact             text,
+  default_category    text, -- bill category picked when the payee is chosen
+  default_account_id  uuid references public.accounts (id) on delete set null, -- usual payment method
+  notes               text,
+  archived            boolean not null default false,
+  created_at          timestamptz not null default now()
+);
+
+alter table public.payees enable row level security;
+
+drop policy if exists "payees read" on public.payees;
+create policy "payees read" on public.payees for select to authenticated using (true);
+drop policy if exists "payees write" on public.payees;
+create policy "payees write" on public.payees
+  for all to authenticated using (public.can_write()) with check (public.can_write());
+
+alter table public.bills
+  add column if not exists payee_id uuid references public.payees (id) on delete set null;
+alter table public.bill_series
+  add column if not exists payee_id uuid references public.payees (id) on delete set null;
+alter table public.transactions
+  add column if not exists payee_id uuid references public.payees (id) on delete set null;
+
+create index if not exists bills_payee_idx on public.bills (payee_id, due_date);
+create index if not exists transactions_payee_idx on public.transactions (payee_id, date) where payee_id is not null;
+
+-- A new recurring bill starts its own series (carrying the payee); generated
+-- instances take the series' payee.
+create or replace function public.bills_start_series()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.recurring and new.series_id is null then
+    new.recur_day := coalesce(new.recur_day, extract(day from new.due_date)::integer);
+    insert into public.bill_series (category, amount, recur_day, account_id, starts_on, payee_id)
+    values (new.category, new.amount, new.recur_day, new.account_id, new.due_date, new.payee_id)
+    returning id into new.series_id;
+  elsif new.series_id is not null and new.payee_id is null then
+    select payee_id into new.payee_id from public.bill_series where id = new.series_id;
+  end if;
+  return new;
+end;
+$$;
+
+-- Whichever way a payment's expense is booked (pay, restore, repair), it gets
+-- the bill's payee.
+create or replace function public.bill_payments_link_payee()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.transaction_id is not null then
+    update public.transactions t set payee_id = b.payee_id
+      from public.bills b
+      where b.id = new.bill_id and t.id = new.transaction_id and b.payee_id is not null and t.payee_id is null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bill_payments_link_payee on public.bill_payments;
+create trigger bill_payments_link_payee after insert or update of transaction_id on public.bill_payments
+  for each row execute function public.bill_payments_link_payee();
+
+-- Expenses paid to a payee by year. avg_monthly divides by the months that
+-- had a payment, so it reads as "a typical month's bill".
+create or replace function public.payee_totals(pid uuid)
+returns table (year integer, total numeric, payments bigint, months bigint, avg_monthly numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select extract(year from t.date)::integer,
+         sum(t.amount),
+         count(*),
+         count(distinct date_trunc('month', t.date)),
+         round(sum(t.amount) / count(distinct date_trunc('month', t.date)), 2)
+  from public.transactions t
+  where t.payee_id = pid and t.deleted_at is null and t.type::text = 'expense'
+  group by 1
+  order by 1 desc
+$$;
+
+grant execute on function public.payee_totals(uuid) to authenticated;
@@ -0,0 +1,78 @@
+-- Bill calendar: real bills plus projected instances of recurring series that
+-- haven't been generated yet, for the Bills calendar and the .ics feed.
+-- A phone calendar subscribes with a per-user secret token instead of a login.
+
+-- Bills due in [from_date, to_date]. A series month that already has an
+-- instance (even a trashed one, i.e. skipped) is not projected again.
+create or replace function public.bill_calendar(from_date date, to_date date)
+returns table (
+  bill_id uuid, series_id uuid, due_date date, category text, amount numeric, remaining numeric,
+  paid boolean, projected boolean, payee_id uuid
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select b.id, b.series_id, b.due_date, b.category, b.amount,
+         greatest(b.amount - coalesce((select sum(p.amount) from public.bill_payments p where p.bill_id = b.id), 0), 0),
+         b.paid, false, b.payee_id
+  from public.bills b
+  where b.deleted_at is null and b.due_date between from_date and to_date
+  union all
+  select null, s.id, d.due, s.category, s.amount, s.amount, false, true, s.payee_id
+  from public.bill_series s
+  cross join lateral (
+    select m::date as month, public.bill_due_in_month(m::date, s.recur_day) as due
+    from generate_series(date_trunc('month', greatest(s.starts_on, from_date)), date_trunc('month', to_date), interval '1 month') as m
+  ) d
+  where s.active
+    and d.due between greatest(s.starts_on, from_date) and to_date
+    and (s.stop_date is null or d.due <= s.stop_date)
+    and not exists (
+      select 1 from public.bills b
+      where b.series_id = s.id and date_trunc('month', b.due_date) = d.month
+    )
+  order by 3, 4
+$$;
+
+grant execute on function public.bill_calendar(date, date) to authenticated;
+
+-- One secret per user for the subscribable feed (bills-ics edge function).
+create table if not exists public.calendar_feeds (
+  user_id     uuid primary key references public.profiles (id) on delete cascade,
+  token       text not null unique default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at  timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+drop policy if exists "calendar_feeds own" on public.calendar_feeds;
+create policy "calendar_feeds own" on public.calendar_feeds
+  for select to authenticated using (user_id = auth.uid());
+
+-- The caller's feed token, created on first use; `reset` issues a new one so
+-- an old subscription URL stops working.
+create or replace function public.calendar_feed_token(reset boolean default false)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t text;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+  if reset then
+    delete from public.calendar_feeds where user_id = auth.uid();
+  end if;
+  insert into public.calendar_feeds (user_id) values (auth.uid())
+    on conflict (user_id) do nothing;
+  select token into t from public.calendar_feeds where user_id = auth.uid();
+  return t;
+end;
+$$;
+
+grant execute on function public.calendar_feed_token(boolean) to authenticated;
@@ -0,0 +1,96 @@
+-- Bill due-date reminders. Admins and editors opt in and pick lead times
+-- (e.g. 7 and 1 days before); the bill-reminders edge function runs daily,
+-- emails each of them one digest and records what it sent so every reminder
+-- goes out only once.
+
+create table if not exists public.reminder_settings (
+  user_id     uuid primary key references public.profiles (id) on delete cascade,
+  enabled     boolean not null default true,
+  lead_days   integer[] not null default '{7,1}' check (0 <= all (lead_days) and 60 >= all (lead_days)),
+  overdue     boolean not null default true, -- one extra reminder once a bill is late
+  updated_at  timestamptz not null default now()
+);
+
+alter table public.reminder_settings enable row level security;
+
+drop policy if exists "reminder_settings own" on public.reminder_settings;
+create policy "reminder_settings own" on public.reminder_settings
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- kind is 'lead:<days>' or 'overdue'
+create table if not exists public.bill_reminders_sent (
+  bill_id  uuid not null references public.bills (id) on delete cascade,
+  user_id  uuid not null references public.profiles (id) on delete cascade,
+  kind     text not null,
+  sent_at  timestamptz not null default now(),
+  primary key (bill_id, user_id, kind)
+);
+
+-- written by the edge function (service role) only
+alter table public.bill_reminders_sent enable row level security;
+
+-- Reminders owed today. A bill gets the smallest lead time that has been
+-- reached, so a bill added 3 days out with leads {7,1} is reminded now (7) and
+-- again the day before (1), never twice for the same lead even if a daily run
+-- was missed.
+create or replace function public.bill_reminders_due(today date default current_date)
+returns table (
+  user_id uuid, email text, full_name text, bill_id uuid, category text, due_date date,
+  amount numeric, remaining numeric, days integer, kind text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with owed as (
+    select r.user_id, pr.full_name, b.id as bill_id, b.category, b.due_date, b.amount,
+           greatest(b.amount - coalesce((select sum(p.amount) from public.bill_payments p where p.bill_id = b.id), 0), 0) as remaining,
+           b.due_date - today as days,
+           case
+             when b.due_date < today then case when r.overdue then 'overdue' end
+             else (select 'lead:' || min(l) from unnest(r.lead_days) l where l >= b.due_date - today)
+           end as kind
+    from public.reminder_settings r
+    join public.profiles pr on pr.id = r.user_id and pr.role in ('admin', 'editor')
+    cross join public.bills b
+    where r.enabled
+      and not b.paid
+      and b.deleted_at is null
+  )
+  select o.user_id, u.email::text, o.full_name, o.bill_id, o.category, o.due_date, o.amount, o.remaining, o.days, o.kind
+  from owed o
+  join auth.users u on u.id = o.user_id
+  where o.kind is not null
+    and u.email is not null
+    and not exists (
+      select 1 from public.bill_reminders_sent s
+      where s.bill_id = o.bill_id and s.user_id = o.user_id and s.kind = o.kind
+    )
+  order by o.user_id, o.due_date, o.category
+$$;
+
+-- Emails and other users' bills: service role only.
+revoke execute on function public.bill_reminders_due(date) from public, anon, authenticated;
+grant execute on function public.bill_reminders_due(date) to service_role;
+
+-- Run the edge function every morning where pg_cron and pg_net are available.
+-- It needs the project URL and service role key in Vault as 'project_url' and
+-- 'service_role_key'.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron')
+     and exists (select 1 from pg_extension where extname = 'pg_net') then
+    perform cron.schedule('bill-reminders', '0 7 * * *', $job$
+      select net.http_post(
+        url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/bill-reminders',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      )
+    $job$);
+  end if;
+end;
+$$;
@@ -0,0 +1,146 @@
+-- Editing a bill after it was added: every field, in one server call. A
+-- recurring bill's edit can carry over to its series, and a paid bill's
+-- payment expenses can follow its category, payee and amount.
+
+-- A series month that already has an instance, even one moved to another day
+-- of the month, isn't filled again.
+create or replace function public.generate_recurring_bills(horizon date default (current_date + 31), only_series uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  -- no auth.uid() = scheduled job
+  if auth.uid() is not null and not public.can_write() then
+    raise exception 'You do not have permission to create bills';
+  end if;
+  insert into public.bills (due_date, category, amount, recurring, recur_day, account_id, series_id)
+  select d.due, s.category, s.amount, true, s.recur_day, s.account_id, s.id
+  from public.bill_series s
+  cross join lateral (
+    select m::date as month, public.bill_due_in_month(m::date, s.recur_day) as due
+    from generate_series(date_trunc('month', s.starts_on), date_trunc('month', horizon), interval '1 month') as m
+  ) d
+  where s.active
+    and (only_series is null or s.id = only_series)
+    and d.due between s.starts_on and horizon
+    and (s.stop_date is null or d.due <= s.stop_date)
+    and not exists (
+      select 1 from public.bills b
+      where b.series_id = s.id and date_trunc('month', b.due_date) = d.month
+    )
+  on conflict (series_id, due_date) do nothing;
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+-- Edit a bill. `new_recur_day` null means one-time: a recurring bill's series
+-- then stops after this bill; a one-time bill given a day starts a series.
+-- With `apply_to_series` the series and its unpaid bills due from today take
+-- the new category, amount, account, payee and day too. With `sync_expenses`
+-- the payment expenses take the new category and payee, and a bill paid in a
+-- single payment has that payment's amount set to the new amount.
+create or replace function public.edit_bill(
+  bid uuid, new_due date, new_category text, new_amount numeric, new_account uuid, new_payee uuid,
+  new_recur_day integer default null, apply_to_series boolean default false, sync_expenses boolean default false
+)
+returns public.bills
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  b    public.bills;
+  s    public.bill_series;
+  sid  uuid;
+  cat  text := trim(new_category);
+  pays integer;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to change bills';
+  end if;
+  select * into b from public.bills where id = bid and deleted_at is null for update;
+  if not found then
+    raise exception 'Bill not found';
+  end if;
+  if new_amount is null or new_amount <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+  if cat is null or cat = '' then
+    raise exception 'Category is required';
+  end if;
+  if new_recur_day is not null and new_recur_day not between 1 and 28 then
+    raise exception 'Day must be between 1 and 28';
+  end if;
+  sid := b.series_id;
+
+  if sid is not null then
+    select * into s from public.bill_series where id = sid for update;
+    if new_recur_day is null then
+      -- stop repeating: later unpaid, untouched instances go
+      perform public.update_bill_series(sid, s.amount, s.recur_day, greatest(new_due, s.starts_on));
+    elsif apply_to_series then
+      perform public.update_bill_series(sid, new_amount, new_recur_day, s.stop_date);
+      update public.bill_series
+        set category = cat, account_id = new_account, payee_id = new_payee
+        where id = sid;
+      update public.bills
+        set category = cat, account_id = new_account, payee_id = new_payee
+        where series_id = sid and id <> bid and not paid and deleted_at is null and due_date >= current_date
+          and not exists (select 1 from public.bill_payments p where p.bill_id = bills.id);
+    end if;
+  elsif new_recur_day is not null then
+    insert into public.bill_series (category, amount, recur_day, account_id, starts_on, payee_id)
+    values (cat, new_amount, new_recur_day, new_account, new_due, new_payee)
+    returning id into sid;
+  end if;
+
+  begin
+    update public.bills
+      set due_date = new_due,
+          category = cat,
+          amount = new_amount,
+          account_id = new_account,
+          payee_id = new_payee,
+          series_id = sid,
+          recurring = sid is not null,
+          recur_day = coalesce(new_recur_day, recur_day)
+      where id = bid;
+  exception when unique_violation then
+    raise exception 'Another bill of this series is already due on %', new_due;
+  end;
+
+  if sync_expenses then
+    -- notes read 'Bill paid: <category> • Ref …' or 'Bill payment: <category> …'
+    update public.transactions t
+      set category = cat,
+          payee_id = new_payee,
+          note = case
+            when starts_with(t.note, 'Bill paid: ' || b.category)
+              then 'Bill paid: ' || cat || substr(t.note, length('Bill paid: ' || b.category) + 1)
+            when starts_with(t.note, 'Bill payment: ' || b.category)
+              then 'Bill payment: ' || cat || substr(t.note, length('Bill payment: ' || b.category) + 1)
+            else t.note
+          end
+      where t.id in (select transaction_id from public.bill_payments where bill_id = bid);
+
+    select count(*) into pays from public.bill_payments where bill_id = bid;
+    if pays = 1 and new_amount <> b.amount then
+      update public.transactions set amount = new_amount
+        where id = (select transaction_id from public.bill_payments where bill_id = bid);
+      update public.bill_payments set amount = new_amount where bill_id = bid;
+    end if;
+  end if;
+
+  if sid is not null and new_recur_day is not null then
+    perform public.generate_recurring_bills(current_date + 31, sid);
+  end if;
+  return public.settle_bill(bid);
+end;
+$$;
+
+grant execute on function public.edit_bill(uuid, date, text, numeric, uuid, uuid, integer, boolean, boolean) to authenticated;
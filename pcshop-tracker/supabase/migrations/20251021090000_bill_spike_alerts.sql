@@ -0,0 +1,11 @@
+-- Usage-spike alerts. A bill is flagged when its amount is more than
+-- spike_pct above the average of the same payee's (or, without a payee, the
+-- same category's) previous bills. The app computes the averages; this only
+-- stores each bill category's threshold. Null uses the app default (20%).
+
+alter table public.categories
+  add column if not exists spike_pct numeric(5, 1) check (spike_pct is null or spike_pct > 0);
+
+-- Utilities swing with the season; start them a little looser.
+update public.categories set spike_pct = 30
+  where kind = 'bill' and name in ('Electricity', 'Water') and spike_pct is null;
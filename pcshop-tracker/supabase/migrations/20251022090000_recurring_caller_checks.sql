@@ -0,0 +1,101 @@
+-- Recurring posting could be called by anyone holding the anon key: the
+-- functions are security definer, EXECUTE goes to PUBLIC by default, and a
+-- missing auth.uid() was taken to mean the cron job. The job is now named
+-- explicitly and the anon role can no longer call them.
+
+-- pg_cron jobs (run as postgres) and service-role API calls: trusted callers
+-- without a signed-in user.
+create or replace function public.is_system_caller()
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select session_user = 'postgres' or coalesce(auth.role(), '') = 'service_role'
+$$;
+
+-- Post one occurrence. Returns the new transaction id, or null when the
+-- occurrence was already posted or skipped.
+create or replace function public.post_recurring_occurrence(tpl uuid, day date)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t       public.recurring_templates;
+  o       public.recurring_occurrences;
+  tx_type public.transactions.type%type;
+  tx_id   uuid;
+begin
+  if not (public.can_write() or public.is_system_caller()) then
+    raise exception 'You do not have permission to post transactions';
+  end if;
+  select * into t from public.recurring_templates where id = tpl;
+  if not found then
+    raise exception 'Recurring template not found';
+  end if;
+  if not exists (select 1 from public.recurring_dates(tpl, day, day)) then
+    raise exception '% is not a scheduled date for this template', day;
+  end if;
+
+  insert into public.recurring_occurrences as r (template_id, occurs_on, status)
+  values (tpl, day, 'posted')
+  on conflict (template_id, occurs_on) do update set status = 'posted'
+    where r.status = 'pending'
+  returning * into o;
+  if not found then
+    return null;
+  end if;
+
+  tx_type := t.type;
+  insert into public.transactions (date, type, category, amount, note, account_id, tags, recurring_template_id, recurring_date)
+  values (
+    day, tx_type, coalesce(o.category, t.category), coalesce(o.amount, t.amount), coalesce(o.note, t.note),
+    coalesce(t.account_id, public.default_account_id()), t.tags, tpl, day
+  )
+  returning id into tx_id;
+
+  update public.recurring_occurrences set transaction_id = tx_id, posted_at = now()
+    where template_id = tpl and occurs_on = day;
+  return tx_id;
+end;
+$$;
+
+-- Post everything due up to a date; safe to run any number of times.
+create or replace function public.post_due_recurring(up_to date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  n integer := 0;
+begin
+  if not (public.can_write() or public.is_system_caller()) then
+    raise exception 'You do not have permission to post transactions';
+  end if;
+  for r in
+    select t.id, d.day
+    from public.recurring_templates t
+    cross join lateral public.recurring_dates(t.id, t.start_date, up_to) as d(day)
+    where t.active
+      and not exists (
+        select 1 from public.recurring_occurrences o
+        where o.template_id = t.id and o.occurs_on = d.day and o.status <> 'pending'
+      )
+    order by d.day
+  loop
+    if public.post_recurring_occurrence(r.id, r.day) is not null then
+      n := n + 1;
+    end if;
+  end loop;
+  return n;
+end;
+$$;
+
+revoke execute on function public.post_recurring_occurrence(uuid, date) from public, anon;
+revoke execute on function public.post_due_recurring(date) from public, anon;
+grant execute on function public.post_recurring_occurrence(uuid, date) to authenticated, service_role;
+grant execute on function public.post_due_recurring(date) to authenticated, service_role;
@@ -0,0 +1,39 @@
+-- generate_recurring_bills() had the same hole as recurring posting (see
+-- *_recurring_caller_checks.sql): anyone with the anon key could fill bills up
+-- to any horizon. Only writers and the cron job may run it now.
+
+create or replace function public.generate_recurring_bills(horizon date default (current_date + 31), only_series uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  if not (public.can_write() or public.is_system_caller()) then
+    raise exception 'You do not have permission to create bills';
+  end if;
+  insert into public.bills (due_date, category, amount, recurring, recur_day, account_id, series_id)
+  select d.due, s.category, s.amount, true, s.recur_day, s.account_id, s.id
+  from public.bill_series s
+  cross join lateral (
+    select m::date as month, public.bill_due_in_month(m::date, s.recur_day) as due
+    from generate_series(date_trunc('month', s.starts_on), date_trunc('month', horizon), interval '1 month') as m
+  ) d
+  where s.active
+    and (only_series is null or s.id = only_series)
+    and d.due between s.starts_on and horizon
+    and (s.stop_date is null or d.due <= s.stop_date)
+    and not exists (
+      select 1 from public.bills b
+      where b.series_id = s.id and date_trunc('month', b.due_date) = d.month
+    )
+  on conflict (series_id, due_date) do nothing;
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+revoke execute on function public.generate_recurring_bills(date, uuid) from public, anon;
+grant execute on function public.generate_recurring_bills(date, uuid) to authenticated, service_role;
@@ -0,0 +1,107 @@
+-- An expense booked by a bill payment can't be trashed on its own: the bill
+-- would stay paid with its payment pointing at a trashed expense. It goes with
+-- its bill, or by removing the payment (remove_bill_payment), which reopens it.
+-- Bulk delete passes such rows by, as it does split rows for recategorizing.
+
+create or replace function public.trash_record(tbl text, rec_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ts       timestamptz := now();
+  linked   uuid;
+  bill_cat text;
+  bill_due date;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to delete records';
+  end if;
+  perform public.check_trash_table(tbl);
+
+  if tbl = 'transactions' then
+    select b.category, b.due_date into bill_cat, bill_due
+    from public.bill_payments p
+    join public.bills b on b.id = p.bill_id
+    where p.transaction_id = rec_id and b.deleted_at is null;
+    if found then
+      raise exception 'This expense pays the % bill due %. Remove the payment from the bill instead.', bill_cat, bill_due;
+    end if;
+  end if;
+
+  execute format('update public.%I set deleted_at = $1, deleted_by = auth.uid() where id = $2 and deleted_at is null', tbl)
+    using ts, rec_id;
+  if not found then
+    raise exception 'Record not found or already in the trash';
+  end if;
+
+  if tbl = 'savings_contributions' then
+    select transaction_id into linked from public.savings_contributions where id = rec_id;
+    if linked is not null then
+      update public.transactions set deleted_at = ts, deleted_by = auth.uid()
+        where id = linked and deleted_at is null;
+    end if;
+  elsif tbl = 'bills' then
+    update public.transactions set deleted_at = ts, deleted_by = auth.uid()
+      where deleted_at is null
+        and id in (select transaction_id from public.bill_payments where bill_id = rec_id);
+  end if;
+
+  return ts;
+end;
+$$;
+
+create or replace function public.bulk_update_transactions(ids uuid[], action text, payload jsonb default '{}'::jsonb)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  n        integer;
+  new_type public.transactions.type%type;
+  tag_list text[] := coalesce(array(select jsonb_array_elements_text(payload -> 'tags')), '{}');
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to edit transactions';
+  end if;
+
+  if action = 'category' then
+    update public.transactions t set category = payload ->> 'category'
+      where t.id = any (ids) and t.deleted_at is null
+        and not exists (select 1 from public.transaction_splits s where s.transaction_id = t.id);
+  elsif action = 'type' then
+    new_type := payload ->> 'type';
+    update public.transactions t set type = new_type, category = payload ->> 'category'
+      where t.id = any (ids) and t.deleted_at is null
+        and not exists (select 1 from public.transaction_splits s where s.transaction_id = t.id);
+  elsif action = 'date' then
+    update public.transactions set date = (payload ->> 'date')::date
+      where id = any (ids) and deleted_at is null;
+  elsif action = 'add_tags' then
+    update public.transactions t
+      set tags = array(select distinct x from unnest(t.tags || tag_list) x order by x)
+      where t.id = any (ids) and t.deleted_at is null and not (t.tags @> tag_list);
+  elsif action = 'remove_tags' then
+    update public.transactions t
+      set tags = array(select x from unnest(t.tags) x where x <> all (tag_list) order by x)
+      where t.id = any (ids) and t.deleted_at is null and t.tags && tag_list;
+  elsif action = 'delete' then
+    update public.transactions t set deleted_at = now(), deleted_by = auth.uid()
+      where t.id = any (ids) and t.deleted_at is null
+        and not exists (
+          select 1 from public.bill_payments p join public.bills b on b.id = p.bill_id
+          where p.transaction_id = t.id and b.deleted_at is null
+        );
+  elsif action = 'restore' then
+    update public.transactions set deleted_at = null, deleted_by = null
+      where id = any (ids) and deleted_at is not null;
+  else
+    raise exception 'Unknown bulk action: %', action;
+  end if;
+
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
@@ -0,0 +1,77 @@
+-- Repairing a payment whose expense is in the Trash restores that expense
+-- instead of booking another one that the Trash could later double.
+
+-- Fix one issue reported by bill_consistency_issues(). Orphans go to the Trash
+-- rather than being deleted, so a wrong guess can be undone.
+create or replace function public.repair_bill_issue(kind text, ref_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  b      public.bills;
+  p      public.bill_payments;
+  tx_id  uuid;
+begin
+  if not public.is_admin() then
+    raise exception 'Admins only';
+  end if;
+
+  if kind = 'paid_without_payment' then
+    select * into b from public.bills where id = ref_id and paid and deleted_at is null;
+    if not found or exists (select 1 from public.bill_payments where bill_id = ref_id) then
+      raise exception 'Already repaired';
+    end if;
+    insert into public.transactions (date, type, category, amount, note, account_id)
+    values (coalesce(b.paid_at::date, b.due_date), 'expense', b.category, b.amount, 'Bill paid: ' || b.category,
+            coalesce(b.account_id, public.default_account_id()))
+    returning id into tx_id;
+    insert into public.bill_payments (bill_id, paid_on, amount, transaction_id, account_id, settles)
+    values (b.id, coalesce(b.paid_at::date, b.due_date), b.amount, tx_id, b.account_id, true);
+
+  elsif kind = 'payment_without_expense' then
+    select * into p from public.bill_payments where id = ref_id;
+    if not found then
+      raise exception 'Payment not found';
+    end if;
+    if exists (select 1 from public.transactions where id = p.transaction_id and deleted_at is null) then
+      raise exception 'Already repaired';
+    end if;
+    -- a trashed expense comes back; a new one is booked only when there is
+    -- none to restore, so the payment is never counted twice
+    update public.transactions set deleted_at = null, deleted_by = null
+      where id = p.transaction_id and deleted_at is not null;
+    if found then
+      return;
+    end if;
+    select * into b from public.bills where id = p.bill_id;
+    insert into public.transactions (date, type, category, amount, note, account_id)
+    values (p.paid_on, 'expense', b.category, p.amount,
+            'Bill payment: ' || b.category || coalesce(' • Ref ' || p.reference, ''),
+            coalesce(p.account_id, b.account_id, public.default_account_id()))
+    returning id into tx_id;
+    update public.bill_payments set transaction_id = tx_id where id = p.id;
+
+  elsif kind = 'paid_flag_mismatch' then
+    perform public.settle_bill(ref_id);
+
+  elsif kind = 'expense_of_trashed_bill' then
+    update public.transactions t
+      set deleted_at = b2.deleted_at, deleted_by = b2.deleted_by
+      from public.bill_payments p2
+      join public.bills b2 on b2.id = p2.bill_id
+      where t.id = ref_id and p2.transaction_id = t.id and b2.deleted_at is not null and t.deleted_at is null;
+
+  elsif kind = 'orphan_expense' then
+    update public.transactions set deleted_at = now(), deleted_by = auth.uid()
+      where id = ref_id and deleted_at is null
+        and not exists (select 1 from public.bill_payments where transaction_id = ref_id);
+
+  else
+    raise exception 'Unknown issue: %', kind;
+  end if;
+end;
+$$;
+
+grant execute on function public.repair_bill_issue(text, uuid) to authenticated;
@@ -0,0 +1,42 @@
+-- Save a transaction from the edit dialog in one server call: the row's fields
+-- and its split lines change together or not at all.
+
+-- `fields` holds the columns to change (keys missing from it keep their
+-- values); `lines` is as for set_transaction_splits, empty for an unsplit row.
+create or replace function public.update_transaction(tx_id uuid, fields jsonb, lines jsonb default '[]'::jsonb)
+returns public.transactions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  tx public.transactions;
+  r  public.transactions;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to edit transactions';
+  end if;
+  select * into tx from public.transactions where id = tx_id and deleted_at is null for update;
+  if not found then
+    raise exception 'Transaction not found';
+  end if;
+
+  r := jsonb_populate_record(tx, fields);
+  update public.transactions
+    set date = r.date,
+        type = r.type,
+        category = r.category,
+        amount = r.amount,
+        note = r.note,
+        tags = r.tags,
+        account_id = r.account_id,
+        payee_id = r.payee_id,
+        quantity = r.quantity,
+        unit_price = r.unit_price
+    where id = tx_id;
+
+  return public.set_transaction_splits(tx_id, coalesce(lines, '[]'::jsonb));
+end;
+$$;
+
+grant execute on function public.update_transaction(uuid, jsonb, jsonb) to authenticated;
@@ -0,0 +1,55 @@
+-- Renaming or merging a category also moves recurring templates and their
+-- occurrence overrides, so later postings use the new name.
+create or replace function public.repoint_category(p_kind text, p_from text, p_to text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_kind = 'bill' then
+    update public.bills set category = p_to where category = p_from;
+    update public.bill_series set category = p_to where category = p_from;
+    -- bill-linked expenses, plus manual ones when the name isn't also an expense category
+    update public.transactions set category = p_to
+      where category = p_from and type::text = 'expense'
+        and (id in (select transaction_id from public.bill_payments where transaction_id is not null)
+             or not exists (select 1 from public.categories where kind = 'expense' and name = p_from));
+    update public.transaction_splits s set category = p_to
+      from public.transactions t
+      where s.transaction_id = t.id and s.category = p_from and t.type::text = 'expense'
+        and (t.id in (select transaction_id from public.bill_payments where transaction_id is not null)
+             or not exists (select 1 from public.categories where kind = 'expense' and name = p_from));
+    -- recurring entries are never bill payments: only when the name is bill-only
+    if not exists (select 1 from public.categories where kind = 'expense' and name = p_from) then
+      update public.recurring_templates set category = p_to where category = p_from and type = 'expense';
+      update public.recurring_occurrences o set category = p_to
+        from public.recurring_templates t
+        where o.template_id = t.id and o.category = p_from and t.type = 'expense';
+    end if;
+  elsif p_kind = 'expense' then
+    update public.transactions set category = p_to
+      where category = p_from and type::text = 'expense'
+        and id not in (select transaction_id from public.bill_payments where transaction_id is not null);
+    update public.transaction_splits s set category = p_to
+      from public.transactions t
+      where s.transaction_id = t.id and s.category = p_from and t.type::text = 'expense'
+        and t.id not in (select transaction_id from public.bill_payments where transaction_id is not null);
+    update public.recurring_templates set category = p_to where category = p_from and type = 'expense';
+    update public.recurring_occurrences o set category = p_to
+      from public.recurring_templates t
+      where o.template_id = t.id and o.category = p_from and t.type = 'expense';
+  else
+    update public.transactions set category = p_to where category = p_from and type::text = p_kind;
+    update public.transaction_splits s set category = p_to
+      from public.transactions t
+      where s.transaction_id = t.id and s.category = p_from and t.type::text = p_kind;
+    update public.recurring_templates set category = p_to where category = p_from and type = p_kind;
+    update public.recurring_occurrences o set category = p_to
+      from public.recurring_templates t
+      where o.template_id = t.id and o.category = p_from and t.type = p_kind;
+  end if;
+end;
+$$;
+
+revoke execute on function public.repoint_category(text, text, text) from public, anon, authenticated;
@@ -0,0 +1,126 @@
+-- Restoring a bill brings back its payments' own expenses, whenever they were
+-- trashed, and books a new one only for a payment whose expense is gone for
+-- good; a restored trashed expense can no longer double a fresh one. A payment
+-- expense can't come back on its own while its bill is still in the Trash.
+
+create or replace function public.restore_record(tbl text, rec_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ts     timestamptz;
+  linked uuid;
+  b      public.bills;
+  p      public.bill_payments;
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to restore records';
+  end if;
+  perform public.check_trash_table(tbl);
+
+  if tbl = 'transactions' then
+    select bl.* into b
+    from public.bill_payments bp
+    join public.bills bl on bl.id = bp.bill_id
+    where bp.transaction_id = rec_id and bl.deleted_at is not null;
+    if found then
+      raise exception 'This expense pays the % bill due %, which is in the Trash. Restore the bill instead.', b.category, b.due_date;
+    end if;
+  end if;
+
+  execute format('select deleted_at from public.%I where id = $1', tbl) into ts using rec_id;
+  if ts is null then
+    raise exception 'Record is not in the trash';
+  end if;
+
+  execute format('update public.%I set deleted_at = null, deleted_by = null where id = $1', tbl) using rec_id;
+
+  if tbl = 'savings_contributions' then
+    select transaction_id into linked from public.savings_contributions where id = rec_id;
+    if linked is not null then
+      update public.transactions set deleted_at = null, deleted_by = null
+        where id = linked and deleted_at = ts;
+    end if;
+  elsif tbl = 'bills' then
+    -- every payment's own expense comes back, even one trashed before the bill
+    update public.transactions set deleted_at = null, deleted_by = null
+      where deleted_at is not null
+        and id in (select transaction_id from public.bill_payments where bill_id = rec_id);
+
+    select * into b from public.bills where id = rec_id;
+    for p in
+      select * from public.bill_payments bp
+      where bp.bill_id = rec_id
+        and (bp.transaction_id is null
+             or not exists (select 1 from public.transactions t where t.id = bp.transaction_id))
+    loop
+      insert into public.transactions (date, type, category, amount, note, account_id)
+      values (p.paid_on, 'expense', b.category, p.amount,
+              'Bill payment: ' || b.category || coalesce(' • Ref ' || p.reference, ''),
+              coalesce(p.account_id, b.account_id, public.default_account_id()))
+      returning id into linked;
+      update public.bill_payments set transaction_id = linked where id = p.id;
+    end loop;
+  end if;
+end;
+$$;
+
+create or replace function public.bulk_update_transactions(ids uuid[], action text, payload jsonb default '{}'::jsonb)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  n        integer;
+  new_type public.transactions.type%type;
+  tag_list text[] := coalesce(array(select jsonb_array_elements_text(payload -> 'tags')), '{}');
+begin
+  if not public.can_write() then
+    raise exception 'You do not have permission to edit transactions';
+  end if;
+
+  if action = 'category' then
+    update public.transactions t set category = payload ->> 'category'
+      where t.id = any (ids) and t.deleted_at is null
+        and not exists (select 1 from public.transaction_splits s where s.transaction_id = t.id);
+  elsif action = 'type' then
+    new_type := payload ->> 'type';
+    update public.transactions t set type = new_type, category = payload ->> 'category'
+      where t.id = any (ids) and t.deleted_at is null
+        and not exists (select 1 from public.transaction_splits s where s.transaction_id = t.id);
+  elsif action = 'date' then
+    update public.transactions set date = (payload ->> 'date')::date
+      where id = any (ids) and deleted_at is null;
+  elsif action = 'add_tags' then
+    update public.transactions t
+      set tags = array(select distinct x from unnest(t.tags || tag_list) x order by x)
+      where t.id = any (ids) and t.deleted_at is null and not (t.tags @> tag_list);
+  elsif action = 'remove_tags' then
+    update public.transactions t
+      set tags = array(select x from unnest(t.tags) x where x <> all (tag_list) order by x)
+      where t.id = any (ids) and t.deleted_at is null and t.tags && tag_list;
+  elsif action = 'delete' then
+    update public.transactions t set deleted_at = now(), deleted_by = auth.uid()
+      where t.id = any (ids) and t.deleted_at is null
+        and not exists (
+          select 1 from public.bill_payments p join public.bills b on b.id = p.bill_id
+          where p.transaction_id = t.id and b.deleted_at is null
+        );
+  elsif action = 'restore' then
+    update public.transactions t set deleted_at = null, deleted_by = null
+      where t.id = any (ids) and t.deleted_at is not null
+        and not exists (
+          select 1 from public.bill_payments p join public.bills b on b.id = p.bill_id
+          where p.transaction_id = t.id and b.deleted_at is not null
+        );
+  else
+    raise exception 'Unknown bulk action: %', action;
+  end if;
+
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;